@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseTranscript, searchConversations, uniqueArchiveBase, type ArchiveRecord } from './archive.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'archive-test-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function record(text: string, timestamp: string): ArchiveRecord {
+  return { sessionId: 's1', timestamp, role: 'user', sender: 'User', kind: 'text', text };
+}
+
+function writeArchive(file: string, records: ArchiveRecord[], mtime: Date): void {
+  const filePath = path.join(dir, file);
+  fs.writeFileSync(filePath, records.map(r => JSON.stringify(r)).join('\n') + '\n');
+  fs.utimesSync(filePath, mtime, mtime);
+}
+
+describe('uniqueArchiveBase', () => {
+  test('keeps the name while it is free', () => {
+    expect(uniqueArchiveBase(dir, '2026-01-01-trip')).toBe('2026-01-01-trip');
+  });
+
+  test('numbers later archives with the same name instead of overwriting', () => {
+    fs.writeFileSync(path.join(dir, '2026-01-01-trip.md'), '');
+    fs.writeFileSync(path.join(dir, '2026-01-01-trip-2.jsonl'), '');
+
+    expect(uniqueArchiveBase(dir, '2026-01-01-trip')).toBe('2026-01-01-trip-3');
+  });
+});
+
+describe('searchConversations', () => {
+  test('returns newest hits first, across and within archives', () => {
+    writeArchive('2026-01-01-trip.jsonl', [
+      record('flight to Lisbon booked', '2026-01-01T09:00:00Z'),
+      record('Lisbon hotel booked', '2026-01-01T10:00:00Z')
+    ], new Date('2026-01-01T10:00:00Z'));
+    writeArchive('2026-01-01-trip-2.jsonl', [
+      record('Lisbon dinner booked', '2026-01-01T20:00:00Z')
+    ], new Date('2026-01-01T20:00:00Z'));
+
+    const hits = searchConversations('lisbon BOOKED', 10, dir);
+    expect(hits.map(h => h.timestamp)).toEqual([
+      '2026-01-01T20:00:00Z',
+      '2026-01-01T10:00:00Z',
+      '2026-01-01T09:00:00Z'
+    ]);
+    expect(hits[0].file).toBe('2026-01-01-trip-2.jsonl');
+  });
+
+  test('requires every term, stops at the limit and skips the manifest', () => {
+    writeArchive('2026-01-02-notes.jsonl', [
+      record('alpha beta', '2026-01-02T01:00:00Z'),
+      record('alpha only', '2026-01-02T02:00:00Z'),
+      record('beta alpha again', '2026-01-02T03:00:00Z')
+    ], new Date('2026-01-02T03:00:00Z'));
+    fs.writeFileSync(path.join(dir, 'manifest.jsonl'), JSON.stringify({ text: 'alpha beta' }) + '\n');
+
+    expect(searchConversations('alpha beta', 1, dir).map(h => h.timestamp)).toEqual(['2026-01-02T03:00:00Z']);
+    expect(searchConversations('alpha beta', 10, dir)).toHaveLength(2);
+    expect(searchConversations('   ', 10, dir)).toEqual([]);
+  });
+});
+
+describe('parseTranscript', () => {
+  test('flattens text, tool calls and labelled tool results', () => {
+    const transcript = [
+      JSON.stringify({ type: 'user', timestamp: 't1', message: { content: 'hi' } }),
+      JSON.stringify({
+        type: 'assistant',
+        timestamp: 't2',
+        message: { content: [{ type: 'tool_use', id: 'u1', name: 'Bash', input: { command: 'ls' } }] }
+      }),
+      JSON.stringify({
+        type: 'user',
+        timestamp: 't3',
+        message: { content: [{ type: 'tool_result', tool_use_id: 'u1', content: [{ type: 'text', text: 'a.txt' }] }] }
+      }),
+      'not json'
+    ].join('\n');
+
+    const records = parseTranscript(transcript, 'fallback', 'Andy');
+    expect(records.map(r => [r.sender, r.kind, r.toolName ?? r.text])).toEqual([
+      ['User', 'text', 'hi'],
+      ['Andy', 'tool_use', 'Bash'],
+      ['Tool', 'tool_result', 'Bash']
+    ]);
+    expect(records[0].sessionId).toBe('fallback');
+  });
+});
@@ -0,0 +1,387 @@
+/**
+ * Conversation archiving for Guardian Core
+ * Writes each pre-compaction transcript to conversations/ as readable markdown
+ * plus a full-fidelity JSONL record stream that search_conversations reads back.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { HookCallback, PreCompactHookInput } from '@anthropic-ai/claude-agent-sdk';
+import type { ConversationArchiveMode, RedactStats, Redactor } from '@guardian/shared';
+
+const GROUP_DIR = '/workspace/group';
+export const CONVERSATIONS_DIR = path.join(GROUP_DIR, 'conversations');
+const IDENTITY_FILE = path.join(GROUP_DIR, 'IDENTITY.md');
+const DEFAULT_ASSISTANT_NAME = 'Assistant';
+const SNIPPET_RADIUS = 120;
+
+interface SessionEntry {
+  sessionId: string;
+  fullPath: string;
+  summary: string;
+  firstPrompt: string;
+}
+
+interface SessionsIndex {
+  entries: SessionEntry[];
+}
+
+/** One line of a conversations/*.jsonl archive. */
+export interface ArchiveRecord {
+  sessionId: string;
+  timestamp: string | null;
+  role: 'user' | 'assistant';
+  sender: string;
+  kind: 'text' | 'tool_use' | 'tool_result';
+  text?: string;
+  toolUseId?: string;
+  toolName?: string;
+  toolInput?: unknown;
+  isError?: boolean;
+}
+
+interface ArchiveManifestEntry {
+  file: string;
+  records: string;
+  archivedAt: string;
+  sessionId: string;
+  mode: ConversationArchiveMode;
+  redactions: RedactStats;
+}
+
+export interface SearchHit {
+  file: string;
+  sessionId: string;
+  timestamp: string | null;
+  sender: string;
+  kind: ArchiveRecord['kind'];
+  toolName?: string;
+  snippet: string;
+}
+
+export interface PreCompactHookOptions {
+  mode: ConversationArchiveMode;
+  redactor: Redactor;
+  log: (message: string) => void;
+}
+
+/**
+ * Assistant display name from the `**Name**:` line in IDENTITY.md.
+ */
+export function readAssistantName(identityPath: string = IDENTITY_FILE): string {
+  try {
+    const match = fs.readFileSync(identityPath, 'utf-8').match(/^\s*[-*]?\s*\*\*Name\*\*:\s*(.+?)\s*$/m);
+    if (match?.[1]) return match[1];
+  } catch {
+    // Missing or unreadable identity: fall through to the default
+  }
+  return DEFAULT_ASSISTANT_NAME;
+}
+
+function getSessionSummary(sessionId: string, transcriptPath: string, log: (message: string) => void): string | null {
+  // sessions-index.json is in the same directory as the transcript
+  const projectDir = path.dirname(transcriptPath);
+  const indexPath = path.join(projectDir, 'sessions-index.json');
+
+  if (!fs.existsSync(indexPath)) {
+    log(`Sessions index not found at ${indexPath}`);
+    return null;
+  }
+
+  try {
+    const index: SessionsIndex = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+    const entry = index.entries.find(e => e.sessionId === sessionId);
+    if (entry?.summary) {
+      return entry.summary;
+    }
+  } catch (err) {
+    log(`Failed to read sessions index: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  return null;
+}
+
+/** Append one line per archive to conversations/manifest.jsonl. */
+function appendArchiveManifest(conversationsDir: string, entry: ArchiveManifestEntry): void {
+  fs.appendFileSync(path.join(conversationsDir, 'manifest.jsonl'), JSON.stringify(entry) + '\n');
+}
+
+/**
+ * Archive the transcript to conversations/ before compaction.
+ * `redacted` scrubs secrets and records per-pattern counts in the manifest;
+ * `none` skips archiving entirely.
+ */
+export function createPreCompactHook(options: PreCompactHookOptions): HookCallback {
+  const { mode, redactor, log } = options;
+
+  return async (input, _toolUseId, _context) => {
+    const preCompact = input as PreCompactHookInput;
+    const transcriptPath = preCompact.transcript_path;
+    const sessionId = preCompact.session_id;
+
+    if (mode === 'none') {
+      log('Conversation archiving disabled for this group');
+      return {};
+    }
+
+    if (!transcriptPath || !fs.existsSync(transcriptPath)) {
+      log('No transcript found for archiving');
+      return {};
+    }
+
+    try {
+      const content = fs.readFileSync(transcriptPath, 'utf-8');
+      const parsed = parseTranscript(content, sessionId, readAssistantName());
+
+      if (parsed.length === 0) {
+        log('No messages to archive');
+        return {};
+      }
+
+      const { value, hits } = mode === 'redacted'
+        ? redactor.redactValue(parsed)
+        : { value: parsed, hits: {} };
+      const records = value as ArchiveRecord[];
+
+      const summary = getSessionSummary(sessionId, transcriptPath, log);
+      const name = summary ? sanitizeFilename(summary) : generateFallbackName();
+
+      fs.mkdirSync(CONVERSATIONS_DIR, { recursive: true });
+
+      const date = new Date().toISOString().split('T')[0];
+      const base = uniqueArchiveBase(CONVERSATIONS_DIR, `${date}-${name}`);
+      const filename = `${base}.md`;
+      const recordsFilename = `${base}.jsonl`;
+      const filePath = path.join(CONVERSATIONS_DIR, filename);
+
+      fs.writeFileSync(filePath, formatTranscriptMarkdown(records, summary));
+      fs.writeFileSync(
+        path.join(CONVERSATIONS_DIR, recordsFilename),
+        records.map(r => JSON.stringify(r)).join('\n') + '\n'
+      );
+
+      appendArchiveManifest(CONVERSATIONS_DIR, {
+        file: filename,
+        records: recordsFilename,
+        archivedAt: new Date().toISOString(),
+        sessionId,
+        mode,
+        redactions: hits
+      });
+
+      log(`Archived conversation (${mode}) to ${filePath}`);
+    } catch (err) {
+      log(`Failed to archive transcript: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    return {};
+  };
+}
+
+/**
+ * `base`, or `base-2`, `base-3`, ... when an earlier archive (a second
+ * compaction the same day with the same summary) already holds that name.
+ */
+export function uniqueArchiveBase(conversationsDir: string, base: string): string {
+  const taken = (candidate: string) =>
+    fs.existsSync(path.join(conversationsDir, `${candidate}.md`))
+    || fs.existsSync(path.join(conversationsDir, `${candidate}.jsonl`));
+
+  let candidate = base;
+  for (let n = 2; taken(candidate); n++) {
+    candidate = `${base}-${n}`;
+  }
+  return candidate;
+}
+
+function sanitizeFilename(summary: string): string {
+  return summary
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50);
+}
+
+function generateFallbackName(): string {
+  const time = new Date();
+  return `conversation-${time.getHours().toString().padStart(2, '0')}${time.getMinutes().toString().padStart(2, '0')}`;
+}
+
+interface TranscriptBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: unknown;
+  tool_use_id?: string;
+  content?: string | Array<{ type: string; text?: string }>;
+  is_error?: boolean;
+}
+
+function toolResultText(content: TranscriptBlock['content']): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content.map(c => c.text || '').join('');
+}
+
+/**
+ * Flatten an SDK transcript into archive records: one per text block,
+ * tool invocation and tool result, keeping the entry's timestamp.
+ */
+export function parseTranscript(content: string, sessionId: string, assistantName: string): ArchiveRecord[] {
+  const records: ArchiveRecord[] = [];
+
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    let entry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+
+    if ((entry.type !== 'user' && entry.type !== 'assistant') || !entry.message?.content) continue;
+
+    const role: ArchiveRecord['role'] = entry.type;
+    const base = {
+      sessionId: typeof entry.sessionId === 'string' ? entry.sessionId : sessionId,
+      timestamp: typeof entry.timestamp === 'string' ? entry.timestamp : null,
+      role,
+      sender: role === 'user' ? 'User' : assistantName
+    };
+
+    const blocks: TranscriptBlock[] = typeof entry.message.content === 'string'
+      ? [{ type: 'text', text: entry.message.content }]
+      : entry.message.content;
+
+    for (const block of blocks) {
+      if (block.type === 'text' && block.text) {
+        records.push({ ...base, kind: 'text', text: block.text });
+      } else if (block.type === 'tool_use') {
+        records.push({ ...base, kind: 'tool_use', toolUseId: block.id, toolName: block.name, toolInput: block.input });
+      } else if (block.type === 'tool_result') {
+        records.push({
+          ...base,
+          sender: 'Tool',
+          kind: 'tool_result',
+          toolUseId: block.tool_use_id,
+          text: toolResultText(block.content),
+          isError: block.is_error === true
+        });
+      }
+    }
+  }
+
+  // Label results with the tool that produced them
+  const toolNames = new Map(records.filter(r => r.kind === 'tool_use').map(r => [r.toolUseId, r.toolName]));
+  for (const record of records) {
+    if (record.kind === 'tool_result') record.toolName = toolNames.get(record.toolUseId);
+  }
+
+  return records;
+}
+
+/**
+ * Human-readable transcript: full message text, with tool calls noted inline.
+ * Tool inputs and results live only in the JSONL records.
+ */
+export function formatTranscriptMarkdown(records: ArchiveRecord[], title?: string | null): string {
+  const now = new Date();
+  const formatDateTime = (d: Date) => d.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  });
+
+  const lines: string[] = [];
+  lines.push(`# ${title || 'Conversation'}`);
+  lines.push('');
+  lines.push(`Archived: ${formatDateTime(now)}`);
+  lines.push('');
+  lines.push('---');
+  lines.push('');
+
+  for (const record of records) {
+    const time = record.timestamp ? ` (${formatDateTime(new Date(record.timestamp))})` : '';
+    if (record.kind === 'text') {
+      lines.push(`**${record.sender}**${time}: ${record.text}`);
+      lines.push('');
+    } else if (record.kind === 'tool_use') {
+      lines.push(`_${record.sender} used \`${record.toolName}\`_${time}`);
+      lines.push('');
+    } else if (record.isError) {
+      lines.push(`_\`${record.toolName ?? 'tool'}\` failed_`);
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function searchableText(record: ArchiveRecord): string {
+  const parts = [record.text ?? ''];
+  if (record.toolName) parts.push(record.toolName);
+  if (record.toolInput !== undefined) parts.push(JSON.stringify(record.toolInput));
+  return parts.join(' ');
+}
+
+function snippetAround(text: string, term: string): string {
+  const at = text.toLowerCase().indexOf(term);
+  const start = Math.max(0, at - SNIPPET_RADIUS);
+  const end = Math.min(text.length, at + term.length + SNIPPET_RADIUS);
+  return `${start > 0 ? '...' : ''}${text.slice(start, end)}${end < text.length ? '...' : ''}`;
+}
+
+/**
+ * Case-insensitive full-text search over archived JSONL records.
+ * A record matches when it contains every whitespace-separated term. Hits are
+ * newest first: archives by modification time, records from the end of each.
+ */
+export function searchConversations(
+  queryText: string,
+  limit: number,
+  conversationsDir: string = CONVERSATIONS_DIR
+): SearchHit[] {
+  const terms = queryText.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0 || !fs.existsSync(conversationsDir)) return [];
+
+  // Names sort by date only; same-day archives are ordered by when they were written
+  const files = fs.readdirSync(conversationsDir)
+    .filter(f => f.endsWith('.jsonl') && f !== 'manifest.jsonl')
+    .map(file => ({ file, mtime: fs.statSync(path.join(conversationsDir, file)).mtimeMs }))
+    .sort((a, b) => b.mtime - a.mtime || b.file.localeCompare(a.file))
+    .map(entry => entry.file);
+
+  const hits: SearchHit[] = [];
+  for (const file of files) {
+    const lines = fs.readFileSync(path.join(conversationsDir, file), 'utf-8').split('\n').reverse();
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      let record: ArchiveRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        continue;
+      }
+
+      const text = searchableText(record);
+      const lower = text.toLowerCase();
+      if (!terms.every(t => lower.includes(t))) continue;
+
+      hits.push({
+        file,
+        sessionId: record.sessionId,
+        timestamp: record.timestamp,
+        sender: record.sender,
+        kind: record.kind,
+        toolName: record.toolName,
+        snippet: snippetAround(text, terms[0])
+      });
+      if (hits.length >= limit) return hits;
+    }
+  }
+
+  return hits;
+}
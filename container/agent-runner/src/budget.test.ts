@@ -0,0 +1,101 @@
+import { describe, expect, test } from 'bun:test';
+import type { SDKMessage, SDKResultMessage } from '@anthropic-ai/claude-agent-sdk';
+import { budgetNotice, createBudgetEnforcer, estimateCostUsd, NO_SPEND } from './budget.js';
+
+function assistant(id: string, model: string, input: number, output: number): SDKMessage {
+  return {
+    type: 'assistant',
+    message: { id, model, usage: { input_tokens: input, output_tokens: output, cache_read_input_tokens: 0 } }
+  } as unknown as SDKMessage;
+}
+
+function result(subtype: string, numTurns: number, costUsd: number): SDKResultMessage {
+  return { type: 'result', subtype, num_turns: numTurns, total_cost_usd: costUsd } as unknown as SDKResultMessage;
+}
+
+describe('createBudgetEnforcer', () => {
+  test('limits nothing without a budget', () => {
+    const budget = createBudgetEnforcer(undefined, NO_SPEND);
+    expect(budget.exhausted).toBeNull();
+    expect(budget.maxTurns).toBeUndefined();
+    expect(budget.maxBudgetUsd).toBeUndefined();
+    expect(budget.observe(assistant('m1', 'claude-sonnet-4-5', 1_000_000, 1_000_000))).toBeNull();
+  });
+
+  test('refuses to start once a daily limit is used up', () => {
+    const budget = createBudgetEnforcer({ daily: { maxCostUsd: 2 } }, { tokens: 0, costUsd: 2.5, turns: 0 });
+    expect(budget.exhausted).toEqual({ scope: 'daily', metric: 'costUsd', limit: 2, used: 2.5 });
+  });
+
+  test('binds each metric to the tighter of the per-run and remaining daily limit', () => {
+    const budget = createBudgetEnforcer(
+      { perRun: { maxTurns: 10, maxCostUsd: 1 }, daily: { maxTurns: 50, maxCostUsd: 5 } },
+      { tokens: 0, costUsd: 4.5, turns: 45 }
+    );
+    expect(budget.maxTurns).toBe(5);
+    expect(budget.maxBudgetUsd).toBe(0.5);
+  });
+
+  test('stops on tokens, counting each streamed message once', () => {
+    const budget = createBudgetEnforcer({ perRun: { maxTokens: 1000 } }, NO_SPEND);
+    expect(budget.observe(assistant('m1', 'claude-sonnet-4-5', 300, 100))).toBeNull();
+    // The same message streamed again with its final counts
+    expect(budget.observe(assistant('m1', 'claude-sonnet-4-5', 300, 200))).toBeNull();
+    expect(budget.observe(assistant('m2', 'claude-sonnet-4-5', 400, 100))).toEqual({
+      scope: 'perRun', metric: 'tokens', limit: 1000, used: 1000
+    });
+  });
+
+  test('maps SDK limit results onto the budget only when the budget caused them', () => {
+    const budget = createBudgetEnforcer({ perRun: { maxTurns: 5, maxCostUsd: 1 } }, NO_SPEND);
+    expect(budget.fromResult(result('error_max_turns', 5, 0.2))).toEqual({
+      scope: 'perRun', metric: 'turns', limit: 5, used: 5
+    });
+    expect(budget.fromResult(result('error_max_turns', 3, 0.2))).toBeNull();
+    expect(budget.fromResult(result('error_max_budget_usd', 4, 1.01))?.metric).toBe('costUsd');
+    expect(budget.fromResult(result('success', 4, 0.5))).toBeNull();
+  });
+
+  test('prices a run cut short from its tokens instead of reporting no cost', () => {
+    const budget = createBudgetEnforcer({ perRun: { maxTokens: 10_000 } }, NO_SPEND);
+    budget.observe(assistant('m1', 'claude-sonnet-4-5-20250929', 8000, 1000));
+    budget.observe(assistant('m2', 'claude-haiku-4-5', 1000, 500));
+
+    const usage = budget.partialUsage(Date.now() - 1000);
+    expect(usage).toMatchObject({
+      inputTokens: 9000,
+      outputTokens: 1500,
+      numTurns: 2,
+      costEstimated: true,
+      models: ['claude-sonnet-4-5-20250929', 'claude-haiku-4-5']
+    });
+    // Sonnet $3/$15 and Haiku 4.5 $1/$5 per million tokens
+    expect(usage.costUsd).toBeCloseTo(0.024 + 0.015 + 0.001 + 0.0025, 10);
+  });
+});
+
+describe('estimateCostUsd', () => {
+  const tokens = { input: 1_000_000, output: 0, cacheCreation: 1_000_000, cacheRead: 1_000_000 };
+
+  test('prices cache writes and reads relative to input', () => {
+    expect(estimateCostUsd({ ...tokens, model: 'claude-sonnet-4-5' })).toBeCloseTo(3 + 3.75 + 0.3, 10);
+  });
+
+  test('tells Opus releases apart and prices unknown models as the dearest', () => {
+    const output = { model: '', input: 0, output: 1_000_000, cacheCreation: 0, cacheRead: 0 };
+    expect(estimateCostUsd({ ...output, model: 'claude-opus-4-5' })).toBe(25);
+    expect(estimateCostUsd({ ...output, model: 'claude-opus-4-1' })).toBe(75);
+    expect(estimateCostUsd({ ...output, model: 'some-new-model' })).toBe(75);
+  });
+});
+
+describe('budgetNotice', () => {
+  test('names the limit that stopped the run', () => {
+    expect(budgetNotice({ scope: 'daily', metric: 'costUsd', limit: 2, used: 2.1 })).toBe(
+      'Budget reached: this hit the daily limit of $2.00, so I stopped here. It resets over the next 24 hours.'
+    );
+    expect(budgetNotice({ scope: 'perRun', metric: 'turns', limit: 20, used: 20 })).toBe(
+      'Budget reached: this hit the per-run limit of 20 turns, so I stopped here.'
+    );
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Budget enforcement for Guardian Core
+ * Applies the group's per-run and rolling daily limits on tokens, cost and
+ * turns. Turn and cost limits are handed to the SDK; tokens are counted from
+ * the streamed assistant messages so a run can be stopped mid-flight.
+ */
+
+import type { SDKMessage, SDKResultMessage } from '@anthropic-ai/claude-agent-sdk';
+import type { Budget, BudgetExceeded, BudgetLimits, BudgetSpend, ContainerUsage } from '@guardian/shared';
+
+type BudgetMetric = BudgetExceeded['metric'];
+
+const LIMIT_KEYS: Record<BudgetMetric, keyof BudgetLimits> = {
+  tokens: 'maxTokens',
+  costUsd: 'maxCostUsd',
+  turns: 'maxTurns'
+};
+
+/** Daily spend when the host sent none: no daily budget, or nothing run yet. */
+export const NO_SPEND: BudgetSpend = { tokens: 0, costUsd: 0, turns: 0 };
+
+export interface MessageTokens {
+  model: string;
+  input: number;
+  output: number;
+  cacheCreation: number;
+  cacheRead: number;
+}
+
+/** List prices in USD per million tokens. */
+interface ModelPrice {
+  input: number;
+  output: number;
+  cacheCreation: number;
+  cacheRead: number;
+}
+
+const price = (input: number, output: number): ModelPrice =>
+  ({ input, output, cacheCreation: input * 1.25, cacheRead: input * 0.1 });
+
+// First match on the model id wins, so newer releases come before their family
+const MODEL_PRICES: ReadonlyArray<readonly [RegExp, ModelPrice]> = [
+  [/opus-4-[5-9]/, price(5, 25)],
+  [/opus/, price(15, 75)],
+  [/sonnet/, price(3, 15)],
+  [/haiku-4/, price(1, 5)],
+  [/haiku-3-5|3-5-haiku/, price(0.8, 4)],
+  [/haiku/, price(0.25, 1.25)]
+];
+
+// Unknown models are priced as the dearest family, so an estimate never under-counts a budget
+const FALLBACK_PRICE = price(15, 75);
+
+/** Estimated cost of one message's tokens at the model's list price. */
+export function estimateCostUsd(tokens: MessageTokens): number {
+  const rates = MODEL_PRICES.find(([pattern]) => pattern.test(tokens.model))?.[1] ?? FALLBACK_PRICE;
+  return (
+    tokens.input * rates.input
+    + tokens.output * rates.output
+    + tokens.cacheCreation * rates.cacheCreation
+    + tokens.cacheRead * rates.cacheRead
+  ) / 1_000_000;
+}
+
+/** The effective cap on one metric and the limit that imposes it. */
+interface BoundLimit {
+  scope: BudgetExceeded['scope'];
+  limit: number;
+  /** Usage already counted against `limit` before this run. */
+  spent: number;
+  remaining: number;
+}
+
+export interface BudgetEnforcer {
+  /** Set when a daily limit is already used up; the run should not start. */
+  exhausted: BudgetExceeded | null;
+  /** Turn and cost caps for query(); undefined when unlimited. */
+  maxTurns?: number;
+  maxBudgetUsd?: number;
+  /** Count a streamed message; returns the exceeded limit once tokens run out. */
+  observe: (message: SDKMessage) => BudgetExceeded | null;
+  /** Map an SDK max-turns/max-budget result onto the limit that caused it. */
+  fromResult: (message: SDKResultMessage) => BudgetExceeded | null;
+  /** Usage seen so far, for runs stopped before the SDK reported a result. */
+  partialUsage: (startedAt: number) => ContainerUsage;
+}
+
+function bindLimit(budget: Budget, spentToday: BudgetSpend, metric: BudgetMetric): BoundLimit | null {
+  const key = LIMIT_KEYS[metric];
+  const candidates: BoundLimit[] = [];
+
+  const perRun = budget.perRun?.[key];
+  if (perRun !== undefined) {
+    candidates.push({ scope: 'perRun', limit: perRun, spent: 0, remaining: perRun });
+  }
+  const daily = budget.daily?.[key];
+  if (daily !== undefined) {
+    const spent = spentToday[metric];
+    candidates.push({ scope: 'daily', limit: daily, spent, remaining: daily - spent });
+  }
+
+  if (candidates.length === 0) return null;
+  return candidates.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+}
+
+function exceeded(metric: BudgetMetric, bound: BoundLimit, usedThisRun: number): BudgetExceeded {
+  return { scope: bound.scope, metric, limit: bound.limit, used: bound.spent + usedThisRun };
+}
+
+/** The short notice sent to the user when a run stops on a budget limit. */
+export function budgetNotice(hit: BudgetExceeded): string {
+  const scope = hit.scope === 'daily' ? 'daily' : 'per-run';
+  const limit = hit.metric === 'costUsd'
+    ? `$${hit.limit.toFixed(2)}`
+    : `${hit.limit} ${hit.metric === 'tokens' ? 'tokens' : 'turns'}`;
+  const resets = hit.scope === 'daily' ? ' It resets over the next 24 hours.' : '';
+  return `Budget reached: this hit the ${scope} limit of ${limit}, so I stopped here.${resets}`;
+}
+
+/**
+ * Enforcer for one run given the group's budget and the last 24 hours of
+ * spend from the host's ledger. Without a budget nothing is limited.
+ */
+export function createBudgetEnforcer(budget: Budget | undefined, spentToday: BudgetSpend): BudgetEnforcer {
+  const bounds: Record<BudgetMetric, BoundLimit | null> = {
+    tokens: budget ? bindLimit(budget, spentToday, 'tokens') : null,
+    costUsd: budget ? bindLimit(budget, spentToday, 'costUsd') : null,
+    turns: budget ? bindLimit(budget, spentToday, 'turns') : null
+  };
+
+  let exhausted: BudgetExceeded | null = null;
+  for (const metric of ['costUsd', 'tokens', 'turns'] as const) {
+    const bound = bounds[metric];
+    if (bound && bound.remaining <= 0) {
+      exhausted = exceeded(metric, bound, 0);
+      break;
+    }
+  }
+
+  // The SDK repeats a message's usage on each content block it streams, so
+  // keep the latest figures per message id
+  const perMessage = new Map<string, MessageTokens>();
+  const models = new Set<string>();
+
+  const sum = (key: Exclude<keyof MessageTokens, 'model'>) =>
+    [...perMessage.values()].reduce((total, t) => total + t[key], 0);
+
+  const observe = (message: SDKMessage): BudgetExceeded | null => {
+    if (message.type !== 'assistant' || !message.message.usage) return null;
+    const { id, model, usage } = message.message;
+    models.add(model);
+    perMessage.set(id, {
+      model,
+      input: usage.input_tokens,
+      output: usage.output_tokens,
+      cacheCreation: usage.cache_creation_input_tokens ?? 0,
+      cacheRead: usage.cache_read_input_tokens ?? 0
+    });
+
+    const bound = bounds.tokens;
+    const used = sum('input') + sum('output');
+    return bound && used >= bound.remaining ? exceeded('tokens', bound, used) : null;
+  };
+
+  const fromResult = (message: SDKResultMessage): BudgetExceeded | null => {
+    // A lower maxTurns from the agent options is not a budget stop
+    if (message.subtype === 'error_max_turns' && bounds.turns && message.num_turns >= bounds.turns.remaining) {
+      return exceeded('turns', bounds.turns, message.num_turns);
+    }
+    if (message.subtype === 'error_max_budget_usd' && bounds.costUsd) {
+      return exceeded('costUsd', bounds.costUsd, message.total_cost_usd);
+    }
+    return null;
+  };
+
+  // The SDK reports cost only in its result; a run cut short is priced from
+  // its tokens so the ledger still charges it against the daily budget
+  const partialUsage = (startedAt: number): ContainerUsage => {
+    const elapsed = Date.now() - startedAt;
+    return {
+      inputTokens: sum('input'),
+      outputTokens: sum('output'),
+      cacheCreationInputTokens: sum('cacheCreation'),
+      cacheReadInputTokens: sum('cacheRead'),
+      costUsd: [...perMessage.values()].reduce((total, t) => total + estimateCostUsd(t), 0),
+      costEstimated: true,
+      numTurns: perMessage.size,
+      durationMs: elapsed,
+      durationApiMs: elapsed,
+      models: [...models]
+    };
+  };
+
+  return {
+    exhausted,
+    maxTurns: bounds.turns ? Math.max(1, bounds.turns.remaining) : undefined,
+    maxBudgetUsd: bounds.costUsd ? Math.max(0, bounds.costUsd.remaining) : undefined,
+    observe,
+    fromResult,
+    partialUsage
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'bun:test';
+import type { SDKMessage, SDKResultMessage } from '@anthropic-ai/claude-agent-sdk';
+import { classifyFailure, classifyResult, classifyThrown, requestsSideEffects } from './failure.js';
+
+const tag = (message: string, stderr?: string) => classifyFailure(message, { stderr })._tag;
+
+describe('classifyFailure', () => {
+  test('reads API error statuses and types', () => {
+    expect(tag('API Error: 429 Too Many Requests')).toBe('AgentRateLimitError');
+    expect(tag('failed', '{"type":"error","error":{"type":"overloaded_error"}}')).toBe('AgentOverloadedError');
+    expect(tag('API Error: 529')).toBe('AgentOverloadedError');
+    expect(tag('Your credit balance is too low')).toBe('AgentBillingError');
+    expect(tag('Request failed with status code 401')).toBe('AgentAuthError');
+    expect(tag('prompt is too long: 210000 tokens')).toBe('AgentInvalidRequestError');
+    expect(tag('request to api.anthropic.com failed, reason: ECONNRESET')).toBe('AgentNetworkError');
+  });
+
+  test('ignores bare numbers that only look like statuses', () => {
+    expect(tag('Process exited', 'at cli.js:429:17\nwrote 503 bytes')).toBe('AgentExecutionError');
+  });
+
+  test('prefers the SDK error flag over the text', () => {
+    expect(classifyFailure('API Error: 500', { assistantError: 'rate_limit' })._tag).toBe('AgentRateLimitError');
+  });
+
+  test('reports a missing session only when resuming', () => {
+    const message = 'No conversation found with session ID abc';
+    expect(classifyFailure(message, { resumeSessionId: 'abc' })).toMatchObject({
+      _tag: 'AgentSessionNotFoundError', sessionId: 'abc'
+    });
+    expect(tag(message)).toBe('AgentExecutionError');
+  });
+});
+
+describe('classifyThrown', () => {
+  test('keeps the thrown error as the cause', () => {
+    const err = new Error('boom');
+    expect(classifyThrown(err, {})).toMatchObject({ _tag: 'AgentExecutionError', message: 'boom', cause: err });
+  });
+});
+
+describe('classifyResult', () => {
+  const result = (fields: Record<string, unknown>) => ({ type: 'result', ...fields }) as unknown as SDKResultMessage;
+
+  test('is null for a successful run', () => {
+    expect(classifyResult(result({ subtype: 'success', is_error: false, result: 'ok' }), {})).toBeNull();
+  });
+
+  test('classifies error results', () => {
+    expect(classifyResult(result({ subtype: 'success', is_error: true, result: 'API Error: 429' }), {})?._tag)
+      .toBe('AgentRateLimitError');
+    expect(classifyResult(result({ subtype: 'error_max_turns', num_turns: 12 }), {})).toMatchObject({
+      _tag: 'AgentMaxTurnsError', numTurns: 12
+    });
+    expect(classifyResult(result({ subtype: 'error_during_execution', errors: [] }), {})).toMatchObject({
+      _tag: 'AgentExecutionError', message: 'error_during_execution'
+    });
+  });
+});
+
+describe('requestsSideEffects', () => {
+  const assistant = (...names: string[]) => ({
+    type: 'assistant',
+    message: { content: names.map(name => ({ type: 'tool_use', id: name, name, input: {} })) }
+  }) as unknown as SDKMessage;
+
+  test('only read-only tools have no side effects', () => {
+    expect(requestsSideEffects(assistant('Read', 'Grep', 'mcp__guardian_core__list_tasks'))).toBe(false);
+    expect(requestsSideEffects(assistant('Read', 'Bash'))).toBe(true);
+    expect(requestsSideEffects(assistant('mcp__guardian_core__send_message'))).toBe(true);
+    expect(requestsSideEffects({ type: 'user' } as unknown as SDKMessage)).toBe(false);
+  });
+});
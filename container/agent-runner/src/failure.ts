@@ -0,0 +1,135 @@
+/**
+ * Failure classification for Guardian Core
+ * Maps SDK failures (thrown errors, error results and assistant message error
+ * flags) onto the typed AgentRunError codes reported to the host.
+ */
+
+import type { SDKAssistantMessageError, SDKMessage, SDKResultMessage } from '@anthropic-ai/claude-agent-sdk';
+import type { AgentRunError } from '@guardian/shared';
+import {
+  AgentAuthError,
+  AgentBillingError,
+  AgentExecutionError,
+  AgentInvalidRequestError,
+  AgentMaxTurnsError,
+  AgentNetworkError,
+  AgentOverloadedError,
+  AgentRateLimitError,
+  AgentSessionNotFoundError
+} from '@guardian/shared';
+import { IPC_MCP_SERVER } from './ipc-mcp.js';
+
+/**
+ * An HTTP status as API errors print it (`API Error: 529`, `"status":401`,
+ * `status code 400`, `HTTP/1.1 503`). Bare numbers elsewhere in the stderr
+ * tail (line numbers, byte counts, tool output) do not match.
+ */
+function apiStatus(...codes: number[]): RegExp {
+  return new RegExp(`(?:API Error:?|HTTP(?:/[\\d.]+)?|"?status"?(?: ?code)?\\s*[:=]?)\\s*(?:${codes.join('|')})\\b`, 'i');
+}
+
+/** An Anthropic API error body's type: `"type":"overloaded_error"`. */
+function apiErrorType(...types: string[]): RegExp {
+  return new RegExp(`"type"\\s*:\\s*"(?:${types.join('|')})"`);
+}
+
+const SESSION_NOT_FOUND_PATTERN = /No conversation found with session ID/i;
+const RATE_LIMIT_PATTERNS = [apiStatus(429), apiErrorType('rate_limit_error')];
+const OVERLOADED_PATTERNS = [apiStatus(500, 502, 503, 504, 529), apiErrorType('overloaded_error', 'api_error')];
+const AUTH_PATTERNS = [
+  apiStatus(401, 403),
+  apiErrorType('authentication_error', 'permission_error'),
+  /Invalid API key|OAuth token has expired/i
+];
+const BILLING_PATTERNS = [apiStatus(402), apiErrorType('billing_error'), /credit balance is too low/i];
+const NETWORK_PATTERNS = [/\b(?:ECONNRESET|ECONNREFUSED|ENOTFOUND|ETIMEDOUT|EAI_AGAIN)\b|socket hang up|fetch failed/];
+const INVALID_REQUEST_PATTERNS = [
+  apiStatus(400, 413),
+  apiErrorType('invalid_request_error', 'request_too_large'),
+  /prompt is too long/i
+];
+
+const matchesAny = (patterns: readonly RegExp[], text: string): boolean => patterns.some(p => p.test(text));
+
+/** Tools that only read; a run that used nothing else changed nothing outside itself. */
+const READ_ONLY_TOOLS: ReadonlySet<string> = new Set([
+  'Read', 'Glob', 'Grep', 'WebSearch', 'WebFetch', 'TodoWrite',
+  ...['list_tasks', 'task_history', 'search_conversations', 'template_history'].map(t => `mcp__${IPC_MCP_SERVER}__${t}`)
+]);
+
+/**
+ * Whether an SDK message asks for a tool that may have side effects (sending
+ * a message, writing a file, running a command). A run that got this far must
+ * not be re-run blindly, since the retry would repeat them.
+ */
+export function requestsSideEffects(message: SDKMessage): boolean {
+  if (message.type !== 'assistant') return false;
+  for (const block of message.message.content) {
+    if (block.type === 'tool_use' && !READ_ONLY_TOOLS.has(block.name)) return true;
+  }
+  return false;
+}
+
+export interface FailureContext {
+  /** Session the run tried to resume, if any. */
+  resumeSessionId?: string;
+  /** Last `error` flag the SDK set on an assistant message. */
+  assistantError?: SDKAssistantMessageError;
+  /** Tail of the Claude Code process stderr. */
+  stderr?: string;
+}
+
+function fromAssistantError(flag: SDKAssistantMessageError, message: string): AgentRunError | null {
+  switch (flag) {
+    case 'rate_limit': return new AgentRateLimitError({ message });
+    case 'server_error': return new AgentOverloadedError({ message });
+    case 'authentication_failed': return new AgentAuthError({ message });
+    case 'billing_error': return new AgentBillingError({ message });
+    case 'invalid_request': return new AgentInvalidRequestError({ message });
+    default: return null;
+  }
+}
+
+/**
+ * Classify a failure from its message, the SDK's assistant error flag and the
+ * CLI's stderr. Anything unrecognised is an AgentExecutionError.
+ */
+export function classifyFailure(message: string, context: FailureContext, cause?: unknown): AgentRunError {
+  const text = `${message}\n${context.stderr ?? ''}`;
+
+  if (context.resumeSessionId && SESSION_NOT_FOUND_PATTERN.test(text)) {
+    return new AgentSessionNotFoundError({ sessionId: context.resumeSessionId, message });
+  }
+
+  const flagged = context.assistantError ? fromAssistantError(context.assistantError, message) : null;
+  if (flagged) return flagged;
+
+  if (matchesAny(RATE_LIMIT_PATTERNS, text)) return new AgentRateLimitError({ message });
+  if (matchesAny(OVERLOADED_PATTERNS, text)) return new AgentOverloadedError({ message });
+  if (matchesAny(BILLING_PATTERNS, text)) return new AgentBillingError({ message });
+  if (matchesAny(AUTH_PATTERNS, text)) return new AgentAuthError({ message });
+  if (matchesAny(NETWORK_PATTERNS, text)) return new AgentNetworkError({ message, cause });
+  if (matchesAny(INVALID_REQUEST_PATTERNS, text)) return new AgentInvalidRequestError({ message });
+  return new AgentExecutionError({ message, cause });
+}
+
+/** A thrown error from query(). */
+export function classifyThrown(err: unknown, context: FailureContext): AgentRunError {
+  const message = err instanceof Error ? err.message : String(err);
+  return classifyFailure(message, context, err);
+}
+
+/**
+ * The failure carried by an SDK result message, or null when the run
+ * succeeded. Budget stops are handled before this is consulted.
+ */
+export function classifyResult(message: SDKResultMessage, context: FailureContext): AgentRunError | null {
+  if (message.subtype === 'success') {
+    return message.is_error ? classifyFailure(message.result, context) : null;
+  }
+  if (message.subtype === 'error_max_turns') {
+    return new AgentMaxTurnsError({ numTurns: message.num_turns, message: `Stopped after ${message.num_turns} turns` });
+  }
+  const detail = message.errors.length > 0 ? message.errors.join('; ') : message.subtype;
+  return classifyFailure(detail, context);
+}
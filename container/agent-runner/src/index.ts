@@ -3,23 +3,52 @@
  * Runs inside a container, receives config via stdin, outputs result to stdout
  */
 
-import fs from 'fs';
-import path from 'path';
-import { query, HookCallback, PreCompactHookInput } from '@anthropic-ai/claude-agent-sdk';
-import type { ContainerInput, ContainerOutput } from '@guardian/shared';
-import { OUTPUT_START_MARKER, OUTPUT_END_MARKER } from '@guardian/shared';
-import { createIpcMcp } from './ipc-mcp.js';
-
-interface SessionEntry {
-  sessionId: string;
-  fullPath: string;
-  summary: string;
-  firstPrompt: string;
-}
-
-interface SessionsIndex {
-  entries: SessionEntry[];
-}
+import { query, SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import type {
+  AgentRunError,
+  BudgetExceeded,
+  ContainerEvent,
+  ContainerInput,
+  ContainerOutput,
+  ContainerUsage,
+  TemplateLayerName,
+  TemplateManifest
+} from '@guardian/shared';
+import {
+  OUTPUT_START_MARKER,
+  OUTPUT_END_MARKER,
+  EVENT_START_MARKER,
+  EVENT_END_MARKER,
+  PROTOCOL_VERSION,
+  ContainerInputParseError,
+  createRedactor,
+  decodeContainerInput,
+  encodeContainerEvent,
+  encodeContainerOutput,
+  negotiateProtocolVersion,
+  toContainerFailure
+} from '@guardian/shared';
+import { createPreCompactHook } from './archive.js';
+import { NO_SPEND, budgetNotice, createBudgetEnforcer } from './budget.js';
+import { FailureContext, classifyResult, classifyThrown, requestsSideEffects } from './failure.js';
+import { IPC_MCP_SERVER, createIpcMcp, reportTemplateTamper } from './ipc-mcp.js';
+import { createHmacPseudonymizer } from './pseudonym.js';
+import { pruneTemplateStore, recordTemplates } from './template-store.js';
+import {
+  DEFAULT_PROMPT_MANIFEST,
+  GLOBAL_DIR,
+  PROMPT_MANIFEST_FILE,
+  assemblePrompt,
+  globalTemplateFilesFor,
+  loadTemplateFiles,
+  readPromptManifest,
+  templateFilesFor
+} from './prompt.js';
+import { DEFAULT_TIMEZONE } from './schedule.js';
+import { createEd25519Verifier, verifyTemplates } from './templates.js';
+import { THREAT_MODEL_FILE, createToolGuardHooks, loadEnforcement } from './tool-guard.js';
+import { resolveToolPolicy } from './tool-policy.js';
+import { usageFromResult } from './usage.js';
 
 async function readStdin(): Promise<string> {
   return new Promise((resolve, reject) => {
@@ -33,303 +62,342 @@ async function readStdin(): Promise<string> {
 
 function writeOutput(output: ContainerOutput): void {
   console.log(OUTPUT_START_MARKER);
-  console.log(JSON.stringify(output));
+  console.log(encodeContainerOutput(output));
   console.log(OUTPUT_END_MARKER);
 }
 
-function log(message: string): void {
-  console.error(`[agent-runner] ${message}`);
-}
-
-function getSessionSummary(sessionId: string, transcriptPath: string): string | null {
-  // sessions-index.json is in the same directory as the transcript
-  const projectDir = path.dirname(transcriptPath);
-  const indexPath = path.join(projectDir, 'sessions-index.json');
-
-  if (!fs.existsSync(indexPath)) {
-    log(`Sessions index not found at ${indexPath}`);
-    return null;
-  }
-
-  try {
-    const index: SessionsIndex = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
-    const entry = index.entries.find(e => e.sessionId === sessionId);
-    if (entry?.summary) {
-      return entry.summary;
-    }
-  } catch (err) {
-    log(`Failed to read sessions index: ${err instanceof Error ? err.message : String(err)}`);
-  }
-
-  return null;
+function writeEvent(event: ContainerEvent): void {
+  console.log(EVENT_START_MARKER);
+  console.log(encodeContainerEvent(event));
+  console.log(EVENT_END_MARKER);
 }
 
 /**
- * Archive the full transcript to conversations/ before compaction.
+ * Translate an SDK message into streaming progress events.
+ * Tool names are remembered by tool_use id so tool_end can report them.
  */
-function createPreCompactHook(): HookCallback {
-  return async (input, _toolUseId, _context) => {
-    const preCompact = input as PreCompactHookInput;
-    const transcriptPath = preCompact.transcript_path;
-    const sessionId = preCompact.session_id;
-
-    if (!transcriptPath || !fs.existsSync(transcriptPath)) {
-      log('No transcript found for archiving');
-      return {};
+function emitProgressEvents(message: SDKMessage, toolNames: Map<string, string>): void {
+  const timestamp = new Date().toISOString();
+
+  if (message.type === 'assistant') {
+    for (const block of message.message.content) {
+      if (block.type === 'thinking' || block.type === 'redacted_thinking') {
+        writeEvent({ type: 'thinking', timestamp });
+      } else if (block.type === 'text' && block.text) {
+        writeEvent({ type: 'text', text: block.text, timestamp });
+      } else if (block.type === 'tool_use') {
+        toolNames.set(block.id, block.name);
+        writeEvent({ type: 'tool_start', toolUseId: block.id, toolName: block.name, timestamp });
+      }
     }
-
-    try {
-      const content = fs.readFileSync(transcriptPath, 'utf-8');
-      const messages = parseTranscript(content);
-
-      if (messages.length === 0) {
-        log('No messages to archive');
-        return {};
+  } else if (message.type === 'user' && Array.isArray(message.message.content)) {
+    for (const block of message.message.content) {
+      if (block.type === 'tool_result') {
+        writeEvent({
+          type: 'tool_end',
+          toolUseId: block.tool_use_id,
+          toolName: toolNames.get(block.tool_use_id) ?? 'unknown',
+          isError: block.is_error === true,
+          timestamp
+        });
       }
-
-      const summary = getSessionSummary(sessionId, transcriptPath);
-      const name = summary ? sanitizeFilename(summary) : generateFallbackName();
-
-      const conversationsDir = '/workspace/group/conversations';
-      fs.mkdirSync(conversationsDir, { recursive: true });
-
-      const date = new Date().toISOString().split('T')[0];
-      const filename = `${date}-${name}.md`;
-      const filePath = path.join(conversationsDir, filename);
-
-      const markdown = formatTranscriptMarkdown(messages, summary);
-      fs.writeFileSync(filePath, markdown);
-
-      log(`Archived conversation to ${filePath}`);
-    } catch (err) {
-      log(`Failed to archive transcript: ${err instanceof Error ? err.message : String(err)}`);
     }
-
-    return {};
-  };
+  }
 }
 
-function sanitizeFilename(summary: string): string {
-  return summary
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-+|-+$/g, '')
-    .slice(0, 50);
-}
+// Container stderr outlives the session: scrub it. Pseudonyms are switched
+// on once the input has delivered the group's key
+let logRedactor = createRedactor({ enabled: true });
 
-function generateFallbackName(): string {
-  const time = new Date();
-  return `conversation-${time.getHours().toString().padStart(2, '0')}${time.getMinutes().toString().padStart(2, '0')}`;
-}
+// Enough of the CLI's stderr to recognise why it exited
+const STDERR_TAIL_CHARS = 4000;
 
-interface ParsedMessage {
-  role: 'user' | 'assistant';
-  content: string;
+function log(message: string): void {
+  console.error(`[agent-runner] ${logRedactor.redactString(message).value}`);
 }
 
-function parseTranscript(content: string): ParsedMessage[] {
-  const messages: ParsedMessage[] = [];
-
-  for (const line of content.split('\n')) {
-    if (!line.trim()) continue;
-    try {
-      const entry = JSON.parse(line);
-      if (entry.type === 'user' && entry.message?.content) {
-        const text = typeof entry.message.content === 'string'
-          ? entry.message.content
-          : entry.message.content.map((c: { text?: string }) => c.text || '').join('');
-        if (text) messages.push({ role: 'user', content: text });
-      } else if (entry.type === 'assistant' && entry.message?.content) {
-        const textParts = entry.message.content
-          .filter((c: { type: string }) => c.type === 'text')
-          .map((c: { text: string }) => c.text);
-        const text = textParts.join('');
-        if (text) messages.push({ role: 'assistant', content: text });
-      }
-    } catch {
+/**
+ * Verify one template layer against its sealed manifest, restoring what can
+ * be restored and reporting any tampering to the host. Returns the files that
+ * still fail verification; callers must not use them. Never throws.
+ */
+function verifyTemplateLayer(
+  input: ContainerInput,
+  layer: TemplateLayerName,
+  dir: string,
+  files: string[],
+  record: TemplateManifest | undefined
+): Set<string> {
+  const untrusted = new Set<string>();
+  const prefix = layer === 'global' ? 'global ' : '';
+  try {
+    const verifier = input.templatePublicKey ? createEd25519Verifier(input.templatePublicKey) : null;
+    const verified = verifyTemplates(dir, files, verifier, record ?? null);
+    if (verified.manifestMissing) {
+      log(`WARNING: ${prefix}template manifest is missing${record ? '' : ', no template can be verified'}`);
+    } else if (!verified.manifestValid) {
+      log(`WARNING: ${prefix}template manifest failed verification`);
     }
+    for (const t of verified.tampered) {
+      log(`WARNING: ${prefix}${t.file} does not match the template manifest${t.restored ? ', restored last verified version' : ''}`);
+      if (!t.restored) untrusted.add(t.file);
+    }
+    if (verified.tampered.length > 0 || !verified.manifestValid) {
+      reportTemplateTamper({
+        type: 'template_tamper',
+        layer,
+        files: verified.tampered,
+        manifestValid: verified.manifestValid,
+        manifestMissing: verified.manifestMissing,
+        groupFolder: input.groupFolder,
+        timestamp: new Date().toISOString()
+      });
+    }
+  } catch (err) {
+    log(`Template verification failed (non-fatal): ${err instanceof Error ? err.message : String(err)}`);
   }
-
-  return messages;
-}
-
-function formatTranscriptMarkdown(messages: ParsedMessage[], title?: string | null): string {
-  const now = new Date();
-  const formatDateTime = (d: Date) => d.toLocaleString('en-US', {
-    month: 'short',
-    day: 'numeric',
-    hour: 'numeric',
-    minute: '2-digit',
-    hour12: true
-  });
-
-  const lines: string[] = [];
-  lines.push(`# ${title || 'Conversation'}`);
-  lines.push('');
-  lines.push(`Archived: ${formatDateTime(now)}`);
-  lines.push('');
-  lines.push('---');
-  lines.push('');
-
-  for (const msg of messages) {
-    const sender = msg.role === 'user' ? 'User' : 'Rumi';
-    const content = msg.content.length > 2000
-      ? msg.content.slice(0, 2000) + '...'
-      : msg.content;
-    lines.push(`**${sender}**: ${content}`);
-    lines.push('');
-  }
-
-  return lines.join('\n');
+  return untrusted;
 }
 
 async function main(): Promise<void> {
   let input: ContainerInput;
 
   try {
-    const stdinData = await readStdin();
-    input = JSON.parse(stdinData);
+    const decoded = decodeContainerInput(await readStdin());
+    if (decoded._tag === 'Left') {
+      throw decoded.left;
+    }
+    input = decoded.right;
     log(`Received input for group: ${input.groupFolder}`);
   } catch (err) {
+    const parseError = err instanceof ContainerInputParseError
+      ? err
+      : new ContainerInputParseError({ message: err instanceof Error ? err.message : String(err), cause: err });
     writeOutput({
+      protocolVersion: PROTOCOL_VERSION,
       status: 'error',
       result: null,
-      error: `Failed to parse input: ${err instanceof Error ? err.message : String(err)}`
+      error: `Failed to parse input: ${parseError.message}`,
+      failure: toContainerFailure(parseError)
     });
     process.exit(1);
   }
 
+  // Handshake: speak the host's version when we can, refuse when it is too old
+  const negotiated = negotiateProtocolVersion(input.protocolVersion);
+  if (negotiated._tag === 'Left') {
+    const { requested, minSupported, maxSupported } = negotiated.left;
+    const error = `Unsupported protocol version ${requested} (container supports ${minSupported}-${maxSupported})`;
+    log(error);
+    writeOutput({
+      protocolVersion: PROTOCOL_VERSION,
+      status: 'error',
+      result: null,
+      error,
+      failure: toContainerFailure(negotiated.left, error)
+    });
+    process.exit(1);
+  }
+  const protocolVersion = negotiated.right;
+  if (protocolVersion !== input.protocolVersion) {
+    log(`Host requested protocol v${input.protocolVersion}, downgrading to v${protocolVersion}`);
+  }
+
+  // Streaming events are a v2 addition; legacy hosts only get the final output
+  const stream = input.stream === true && protocolVersion >= 2;
+
+  // Stderr, archived transcripts and the tool audit log get stable pseudonyms
+  // when the host provides a key; the contact identifiers behind new ones go
+  // to the host's vault
+  const pseudonymizer = input.pseudonymKey
+    ? createHmacPseudonymizer(input.pseudonymKey, record => {
+      if (protocolVersion >= 2) writeEvent({ type: 'pseudonym', ...record, timestamp: new Date().toISOString() });
+    })
+    : undefined;
+  logRedactor = createRedactor({ enabled: true, pseudonymize: pseudonymizer });
+  const archiveRedactor = createRedactor({ enabled: true, pseudonymize: pseudonymizer });
+  const auditRedactor = createRedactor({ enabled: true, pseudonymize: pseudonymizer });
+
   const ipcMcp = createIpcMcp({
     chatJid: input.chatJid,
     groupFolder: input.groupFolder,
-    isMain: input.isMain
+    isMain: input.isMain,
+    timezone: input.timezone ?? DEFAULT_TIMEZONE
   });
 
   let result: string | null = null;
   let newSessionId: string | undefined;
 
-  // BCP: Backup template files before each session, validate on read
-  const TEMPLATE_FILES = ['SOUL.md', 'IDENTITY.md', 'USER.md', 'TOOLS.md', 'HEARTBEAT.md', 'BOOT.md', 'VOICE_PROMPT.md', 'THREAT_MODEL.json'];
+  // BCP: verify templates against the sealed manifest before anything reads
+  // or records them, so a tampered file never enters the history store
   const GROUP_DIR = '/workspace/group';
-  const BACKUP_DIR = path.join(GROUP_DIR, '_backups');
-  const MAX_BACKUPS = 5;
 
-  // Create rolling backup of all templates
-  try {
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const backupSubdir = path.join(BACKUP_DIR, timestamp);
-    fs.mkdirSync(backupSubdir, { recursive: true });
-
-    for (const file of TEMPLATE_FILES) {
-      const src = path.join(GROUP_DIR, file);
-      if (fs.existsSync(src)) {
-        fs.copyFileSync(src, path.join(backupSubdir, file));
-      }
-    }
+  // The global layer is read-only here, so its drifted files are left out
+  // rather than restored; a tampered global PROMPT.json is not used either
+  const untrustedGlobal = input.globalTemplateManifest
+    ? verifyTemplateLayer(input, 'global', GLOBAL_DIR, globalTemplateFilesFor(GLOBAL_DIR), input.globalTemplateManifest)
+    : new Set<string>();
+  const promptGlobalDir = untrustedGlobal.has(PROMPT_MANIFEST_FILE) ? undefined : GLOBAL_DIR;
 
-    // Prune old backups beyond MAX_BACKUPS
-    const backups = fs.readdirSync(BACKUP_DIR)
-      .filter(d => fs.statSync(path.join(BACKUP_DIR, d)).isDirectory())
-      .sort()
-      .reverse();
-    for (const old of backups.slice(MAX_BACKUPS)) {
-      const oldDir = path.join(BACKUP_DIR, old);
-      for (const f of fs.readdirSync(oldDir)) {
-        fs.unlinkSync(path.join(oldDir, f));
-      }
-      fs.rmdirSync(oldDir);
+  const templateFiles = templateFilesFor(GROUP_DIR, promptGlobalDir);
+  const untrusted = verifyTemplateLayer(input, 'group', GROUP_DIR, templateFiles, input.templateManifest);
+
+  // Record changed templates in the content-addressed history store
+  try {
+    const changed = recordTemplates(GROUP_DIR, templateFiles.filter(f => !untrusted.has(f)));
+    const pruned = pruneTemplateStore(GROUP_DIR);
+    if (changed.length > 0 || pruned > 0) {
+      log(`Template history: ${changed.length} changed (${changed.join(', ') || 'none'}), ${pruned} pruned`);
     }
-    log(`Template backup created: ${timestamp} (${backups.length} total)`);
   } catch (err) {
-    log(`Template backup failed (non-fatal): ${err instanceof Error ? err.message : String(err)}`);
+    log(`Template history update failed (non-fatal): ${err instanceof Error ? err.message : String(err)}`);
   }
 
-  // Inject template files (OpenClaw-style) into the prompt context
-  // Validate each file: if empty/corrupted, restore from latest backup
-  const templateSections: string[] = [];
-  for (const file of TEMPLATE_FILES) {
-    const filePath = path.join(GROUP_DIR, file);
-    try {
-      if (fs.existsSync(filePath)) {
-        let content = fs.readFileSync(filePath, 'utf-8').trim();
-
-        // Validation: file exists but is empty or suspiciously short (<10 chars)
-        if (content.length < 10) {
-          log(`WARNING: ${file} appears corrupted (${content.length} chars), attempting restore`);
-          const restored = restoreFromBackup(file);
-          if (restored) {
-            content = restored;
-            log(`Restored ${file} from backup`);
-          } else {
-            log(`No backup available for ${file}, skipping`);
-            continue;
-          }
-        }
-
-        templateSections.push(`<${file}>\n${content}\n</${file}>`);
-      }
-    } catch {
-      // Skip unreadable files
-    }
+  // Inject the group's template files (OpenClaw-style) into the prompt context,
+  // leaving out any that failed verification and could not be restored
+  const { manifest, error: manifestError } = untrusted.has(PROMPT_MANIFEST_FILE)
+    ? { manifest: DEFAULT_PROMPT_MANIFEST, error: null }
+    : readPromptManifest(GROUP_DIR, promptGlobalDir);
+  if (manifestError) {
+    log(`Invalid prompt manifest, using default templates: ${manifestError}`);
   }
-
-  function restoreFromBackup(file: string): string | null {
-    try {
-      const backups = fs.readdirSync(BACKUP_DIR)
-        .filter(d => fs.statSync(path.join(BACKUP_DIR, d)).isDirectory())
-        .sort()
-        .reverse();
-
-      for (const backup of backups) {
-        const backupFile = path.join(BACKUP_DIR, backup, file);
-        if (fs.existsSync(backupFile)) {
-          const content = fs.readFileSync(backupFile, 'utf-8').trim();
-          if (content.length >= 10) {
-            // Restore to live file
-            fs.writeFileSync(path.join(GROUP_DIR, file), content);
-            return content;
-          }
-        }
-      }
-    } catch {
-      // Backup dir doesn't exist or isn't readable
+  for (const file of untrusted) {
+    log(`Skipping unverified template ${file}`);
+  }
+  for (const file of untrustedGlobal) {
+    log(`Skipping unverified global template ${file}`);
+  }
+  const templates = loadTemplateFiles(GROUP_DIR, manifest, untrusted, GLOBAL_DIR, untrustedGlobal);
+  if (templates.length > 0) {
+    log(`Injecting templates: ${templates.map(t => `${t.file} (${t.layer})`).join(', ')}`);
+  }
+  const prompt = assemblePrompt(input, templates);
+
+  // Enforcement half of the threat model: deny rules plus a tool audit trail
+  const { enforcement, error: enforcementError } = untrusted.has(THREAT_MODEL_FILE)
+    ? { enforcement: null, error: `${THREAT_MODEL_FILE} failed verification` }
+    : loadEnforcement(GROUP_DIR);
+  if (enforcementError) {
+    log(`Threat model enforcement disabled: ${enforcementError}`);
+  }
+  // Audit entries go to the host as events; legacy hosts don't collect them
+  const toolGuard = createToolGuardHooks({
+    enforcement,
+    protectedFiles: templateFiles,
+    redactor: auditRedactor,
+    log,
+    audit: entry => {
+      if (protocolVersion >= 2) writeEvent({ type: 'audit', entry, timestamp: new Date().toISOString() });
     }
-    return null;
+  });
+
+  const toolOptions = resolveToolPolicy(input.toolPolicy);
+  if (input.toolPolicy) {
+    log(`Tool policy: allowed ${toolOptions.allowedTools.join(', ') || 'none'}`);
   }
 
-  let prompt = input.prompt;
+  const toolNames = new Map<string, string>();
 
-  if (templateSections.length > 0) {
-    prompt = `<context>\n${templateSections.join('\n\n')}\n</context>\n\n${prompt}`;
+  // The host records `usage` from the output in its ledger
+  let usage: ContainerUsage | undefined;
+  const logUsage = () => {
+    if (!usage) return;
+    log(`Usage: ${usage.inputTokens} in / ${usage.outputTokens} out tokens, $${usage.costUsd.toFixed(4)}${usage.costEstimated ? ' (estimated)' : ''}, ${usage.numTurns} turns`);
+  };
+
+  // Budget limits: the daily window counts earlier runs from the host's usage ledger
+  const budget = createBudgetEnforcer(input.budget, input.dailySpend ?? NO_SPEND);
+  const finishOverBudget = (hit: BudgetExceeded) => {
+    log(`Budget reached: ${hit.scope} ${hit.metric} limit ${hit.limit} (used ${hit.used})`);
+    logUsage();
+    writeOutput({
+      protocolVersion,
+      status: 'budget_exceeded',
+      result: budgetNotice(hit),
+      newSessionId,
+      error: `${hit.scope} ${hit.metric} budget of ${hit.limit} reached`,
+      usage,
+      budgetExceeded: hit
+    });
+  };
+
+  if (budget.exhausted) {
+    finishOverBudget(budget.exhausted);
+    return;
   }
 
-  // Add context for scheduled tasks
-  if (input.isScheduledTask) {
-    prompt = `[SCHEDULED TASK - You are running automatically, not in response to a user message. Use mcp__guardian_core__send_message if needed to communicate with the user.]\n\n${prompt}`;
+  // Group/task agent settings; the tighter of the two turn limits applies
+  const agentOptions = input.agentOptions ?? {};
+  const turnLimits = [agentOptions.maxTurns, budget.maxTurns].filter((n): n is number => n !== undefined);
+  const maxTurns = turnLimits.length > 0 ? Math.min(...turnLimits) : undefined;
+  if (input.agentOptions) {
+    log(`Agent options: model ${agentOptions.model ?? 'default'}, max turns ${maxTurns ?? 'unlimited'}`);
   }
 
+  const abortController = new AbortController();
+  let budgetHit: BudgetExceeded | null = null;
+  const startedAt = Date.now();
+
+  // What the SDK told us about a failure, for classifying it afterwards
+  const failureContext: FailureContext = { resumeSessionId: input.sessionId, stderr: '' };
+  let resultFailure: AgentRunError | null = null;
+  // Set once the agent asks for a tool that may change something; the host won't re-run such a run
+  let sideEffects = false;
+  const finishWithFailure = (failure: AgentRunError) => {
+    const containerFailure = toContainerFailure(failure, failure.message, sideEffects);
+    log(`Agent error (${failure._tag}${containerFailure.retryable ? ', retryable' : ''}): ${failure.message}`);
+    logUsage();
+    writeOutput({
+      protocolVersion,
+      status: 'error',
+      result: null,
+      newSessionId,
+      error: failure.message,
+      usage,
+      failure: containerFailure
+    });
+    process.exit(1);
+  };
+
   try {
     log('Starting agent...');
+    if (stream) {
+      writeEvent({ type: 'thinking', timestamp: new Date().toISOString() });
+    }
 
     for await (const message of query({
       prompt,
       options: {
         cwd: '/workspace/group',
         resume: input.sessionId,
-        allowedTools: [
-          'Bash',
-          'Read', 'Write', 'Edit', 'Glob', 'Grep',
-          'WebSearch', 'WebFetch',
-          'mcp__guardian_core__*'
-        ],
+        ...toolOptions,
+        model: agentOptions.model,
+        maxTurns,
+        maxThinkingTokens: agentOptions.maxThinkingTokens,
+        systemPrompt: agentOptions.systemPromptAppend
+          ? { type: 'preset', preset: 'claude_code', append: agentOptions.systemPromptAppend }
+          : undefined,
+        maxBudgetUsd: budget.maxBudgetUsd,
+        abortController,
+        stderr: (data) => {
+          failureContext.stderr = `${failureContext.stderr}${data}`.slice(-STDERR_TAIL_CHARS);
+        },
         permissionMode: 'bypassPermissions',
         allowDangerouslySkipPermissions: true,
         settingSources: ['project'],
         mcpServers: {
-          guardian_core: ipcMcp
+          [IPC_MCP_SERVER]: ipcMcp
         },
         hooks: {
-          PreCompact: [{ hooks: [createPreCompactHook()] }]
+          PreCompact: [{
+            hooks: [createPreCompactHook({
+              mode: input.conversationArchive ?? 'redacted',
+              redactor: archiveRedactor,
+              log
+            })]
+          }],
+          PreToolUse: [{ hooks: [toolGuard.preToolUse] }],
+          PostToolUse: [{ hooks: [toolGuard.postToolUse] }]
         }
       }
     })) {
@@ -338,28 +406,55 @@ async function main(): Promise<void> {
         log(`Session initialized: ${newSessionId}`);
       }
 
+      if (stream) {
+        emitProgressEvents(message, toolNames);
+      }
+
+      // Token limits are enforced here; the SDK stops on turns and cost itself
+      budgetHit = budget.observe(message);
+      if (budgetHit) {
+        abortController.abort();
+        break;
+      }
+
+      if (message.type === 'assistant' && message.error) {
+        failureContext.assistantError = message.error;
+      }
+      sideEffects ||= requestsSideEffects(message);
+
+      if (message.type === 'result') {
+        usage = usageFromResult(message);
+        budgetHit = budget.fromResult(message);
+        resultFailure = budgetHit ? null : classifyResult(message, failureContext);
+      }
+
       if ('result' in message && message.result) {
         result = message.result as string;
       }
     }
 
+    if (budgetHit) {
+      usage ??= budget.partialUsage(startedAt);
+      finishOverBudget(budgetHit);
+      return;
+    }
+    if (resultFailure) {
+      finishWithFailure(resultFailure);
+    }
+
     log('Agent completed successfully');
+    logUsage();
     writeOutput({
+      protocolVersion,
       status: 'success',
       result,
-      newSessionId
+      newSessionId,
+      usage
     });
 
   } catch (err) {
-    const errorMessage = err instanceof Error ? err.message : String(err);
-    log(`Agent error: ${errorMessage}`);
-    writeOutput({
-      status: 'error',
-      result: null,
-      newSessionId,
-      error: errorMessage
-    });
-    process.exit(1);
+    // The error result, when there was one, says more than the exit that follows
+    finishWithFailure(resultFailure ?? classifyThrown(err, failureContext));
   }
 }
 
@@ -5,46 +5,345 @@
 
 import { createSdkMcpServer, tool } from '@anthropic-ai/claude-agent-sdk';
 import type {
+  IpcMedia,
   IpcMessage,
+  IpcPayload,
+  IpcResponse,
   IpcPhoneCall,
   IpcRegisterGroup,
   IpcScheduleTask,
   IpcTaskAction,
+  IpcTemplateTamper,
+  IpcUpdateTask,
+  ScheduleType,
+  ScheduledTask,
+  TaskSnapshot,
+  TaskTrigger,
+} from '@guardian/shared';
+import {
+  MEDIA_MAX_BYTES,
+  decodeIpcResponse,
+  decodeTaskRunLogs,
+  decodeTaskSnapshot,
+  encodeIpcPayload,
+  mediaKindForMime
 } from '@guardian/shared';
 import { z } from 'zod';
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
-import { CronExpressionParser } from 'cron-parser';
+import { searchConversations } from './archive.js';
+import { anchorRrule, formatInZone, isValidTimeZone, nextFireTimes, parseLocalDateTime, rruleLimits } from './schedule.js';
+import { findDependencyCycle, formatTaskTree } from './task-chain.js';
+import { restoreTemplate, templateHistory } from './template-store.js';
+import { GLOBAL_DIR, templateFilesFor } from './prompt.js';
+import { sha256 } from './templates.js';
 
+const GROUP_DIR = '/workspace/group';
 const IPC_DIR = '/workspace/ipc';
 const MESSAGES_DIR = path.join(IPC_DIR, 'messages');
 const TASKS_DIR = path.join(IPC_DIR, 'tasks');
+const RESPONSES_DIR = path.join(IPC_DIR, 'responses');
+const RESPONSE_TIMEOUT_MS = 30_000;
+const RESPONSE_POLL_MS = 250;
+const TASKS_SNAPSHOT = path.join(IPC_DIR, 'current_tasks.json');
+const TASK_HISTORY_SNAPSHOT = path.join(IPC_DIR, 'task_history.json');
+const LIST_PROMPT_CHARS = 120;
+// Main mounts the project root, which holds every group's folder
+const PROJECT_GROUPS_DIR = '/workspace/project/groups';
+
+export const IPC_MCP_SERVER = 'guardian_core';
+
+/** Every tool registered by createIpcMcp; tool policies are matched against these. */
+export const IPC_TOOL_NAMES = [
+  'send_message', 'send_media', 'schedule_task', 'list_tasks', 'search_conversations',
+  'update_task', 'task_history', 'pause_task', 'resume_task', 'cancel_task', 'make_phone_call', 'register_group',
+  'seal_templates', 'template_history', 'restore_template'
+];
 
 export interface IpcMcpContext {
   chatJid: string;
   groupFolder: string;
   isMain: boolean;
+  /** Group default IANA zone for scheduled tasks. */
+  timezone: string;
 }
 
-function writeIpcFile(dir: string, data: object): string {
-  fs.mkdirSync(dir, { recursive: true });
-
+/**
+ * Validate and atomically write an IPC payload.
+ * Throws IpcParseError (surfaced to the agent as a tool error) on a malformed payload.
+ */
+function writeIpcFile(dir: string, data: IpcPayload): string {
   const filename = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`;
   const filepath = path.join(dir, filename);
 
+  const encoded = encodeIpcPayload(data, filepath);
+  if (encoded._tag === 'Left') {
+    throw encoded.left;
+  }
+
+  fs.mkdirSync(dir, { recursive: true });
+
   // Atomic write: temp file then rename
   const tempPath = `${filepath}.tmp`;
-  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+  fs.writeFileSync(tempPath, encoded.right);
   fs.renameSync(tempPath, filepath);
 
   return filename;
 }
 
+/**
+ * Resolve a path to a file inside the group workspace, following symlinks.
+ * Returns the path relative to the group folder, or null if it escapes it.
+ */
+function resolveGroupFile(filePath: string): string | null {
+  const groupRoot = fs.realpathSync(GROUP_DIR);
+  const real = fs.realpathSync(path.resolve(GROUP_DIR, filePath));
+  const relative = path.relative(groupRoot, real);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    return null;
+  }
+  return relative;
+}
+
+/**
+ * Wait for the host to answer a request at responses/{requestId}.json.
+ * Returns null if no response arrives within RESPONSE_TIMEOUT_MS.
+ */
+async function awaitIpcResponse(requestId: string): Promise<IpcResponse | null> {
+  const responsePath = path.join(RESPONSES_DIR, `${requestId}.json`);
+  const deadline = Date.now() + RESPONSE_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    if (fs.existsSync(responsePath)) {
+      const decoded = decodeIpcResponse(fs.readFileSync(responsePath, 'utf-8'), responsePath);
+      fs.unlinkSync(responsePath);
+      if (decoded._tag === 'Left') {
+        throw decoded.left;
+      }
+      return decoded.right;
+    }
+    await new Promise(resolve => setTimeout(resolve, RESPONSE_POLL_MS));
+  }
+
+  return null;
+}
+
+/** Tell the host which template files failed verification. */
+export function reportTemplateTamper(data: IpcTemplateTamper): void {
+  writeIpcFile(MESSAGES_DIR, data);
+}
+
+// Everything written to ipc/tasks; messages and media stay fire-and-forget
+type IpcTaskRequest = Exclude<IpcPayload, IpcMessage | IpcMedia | IpcTemplateTamper>;
+
+interface ToolResult {
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+}
+
+/**
+ * Write a task IPC request and turn the host's acknowledgement into a tool result.
+ * `confirmed` is reported on success, `pending` when the host does not answer in time.
+ */
+async function requestIpc(data: IpcTaskRequest, confirmed: string, pending: string): Promise<ToolResult> {
+  const requestId = crypto.randomUUID();
+  writeIpcFile(TASKS_DIR, { ...data, requestId });
+  const response = await awaitIpcResponse(requestId);
+
+  if (!response) {
+    return {
+      content: [{
+        type: 'text',
+        text: `${pending} The host did not confirm within ${RESPONSE_TIMEOUT_MS / 1000}s; it may still be processed.`
+      }]
+    };
+  }
+
+  if (response.status === 'error') {
+    const err = response.error;
+    const detail = err
+      ? ` [${err._tag}${err.action ? ` action=${err.action}` : ''}${err.group ? ` group=${err.group}` : ''}]`
+      : '';
+    return {
+      content: [{ type: 'text', text: `${err?.message ?? response.message ?? 'Request failed'}${detail}` }],
+      isError: true
+    };
+  }
+
+  return {
+    content: [{ type: 'text', text: response.message ? `${confirmed} ${response.message}` : confirmed }]
+  };
+}
+
+interface ScheduleLimits {
+  maxRuns?: number;
+  /** Wall-clock time in the task's zone, or an instant with an offset. */
+  endAt?: string;
+  jitterSeconds?: number;
+  /** Upstream task of a `trigger` schedule. */
+  dependsOn?: string;
+  /** Task being updated; null while creating one. */
+  taskId?: string | null;
+}
+
+interface SchedulePlan {
+  scheduleValue: string;
+  maxRuns?: number;
+  endAt?: Date;
+  /** Next fire times and end conditions, for the tool result. */
+  preview: string;
+}
+
+/**
+ * The host's current_tasks.json, newest first, with any rows that did not decode.
+ * Throws IpcParseError (surfaced to the agent as a tool error) when the file is not a task array.
+ */
+function readTaskSnapshot(): TaskSnapshot {
+  if (!fs.existsSync(TASKS_SNAPSHOT)) return { tasks: [], skipped: [] };
+  const decoded = decodeTaskSnapshot(fs.readFileSync(TASKS_SNAPSHOT, 'utf-8'), TASKS_SNAPSHOT);
+  if (decoded._tag === 'Left') {
+    throw decoded.left;
+  }
+  return decoded.right;
+}
+
+/** list_tasks note for snapshot rows that were left out. */
+function describeSkippedRows(skipped: TaskSnapshot['skipped']): string {
+  const rows = skipped.map(row => `- row ${row.index}${row.id ? ` (${row.id})` : ''}: ${row.message}`);
+  return `Skipped ${skipped.length} unreadable task row(s):\n${rows.join('\n')}`;
+}
+
+const TRIGGER_OUTCOMES: Record<TaskTrigger, string> = { on_success: 'succeeds', on_failure: 'fails' };
+
+function isTaskTrigger(value: string): value is TaskTrigger {
+  return value in TRIGGER_OUTCOMES;
+}
+
+/**
+ * Check a `trigger` schedule: its condition, that the upstream task exists,
+ * and that depending on it closes no loop. Returns the preview line.
+ */
+function describeTrigger(value: string, dependsOn: string | undefined, taskId: string | null): string {
+  if (!isTaskTrigger(value)) {
+    throw new Error(`Invalid trigger: "${value}". Use "on_success" or "on_failure".`);
+  }
+  if (!dependsOn) {
+    throw new Error('A trigger task needs depends_on: the ID of the task it runs after.');
+  }
+  const { tasks } = readTaskSnapshot();
+  if (!tasks.some(t => t.id === dependsOn)) {
+    throw new Error(`Task ${dependsOn} is not in the current task list.`);
+  }
+  const cycle = findDependencyCycle(tasks, taskId, dependsOn);
+  if (cycle) {
+    throw new Error(`That would make a dependency loop: ${cycle.join(' → ')}.`);
+  }
+  return `Runs each time task ${dependsOn} ${TRIGGER_OUTCOMES[value]}.`;
+}
+
+/**
+ * Validate a schedule and its end conditions in `timezone` before writing IPC.
+ * RRULEs are anchored and their COUNT/UNTIL folded into maxRuns/endAt so the
+ * host enforces them. Throws an Error with a message fit for the agent.
+ */
+function planSchedule(type: ScheduleType, value: string, timezone: string, limits: ScheduleLimits): SchedulePlan {
+  if (!isValidTimeZone(timezone)) {
+    throw new Error(`Unknown timezone: "${timezone}". Use an IANA name like "Europe/London".`);
+  }
+
+  const now = new Date();
+  let scheduleValue = value;
+  let maxRuns = limits.maxRuns;
+  let endAt: Date | undefined;
+  if (limits.endAt !== undefined) {
+    endAt = parseLocalDateTime(limits.endAt, timezone);
+    if (endAt.getTime() <= now.getTime()) {
+      throw new Error(`end_at "${limits.endAt}" in ${timezone} is in the past.`);
+    }
+  }
+
+  let runs: string[];
+  if (type === 'trigger') {
+    runs = [describeTrigger(value, limits.dependsOn, limits.taskId ?? null)];
+  } else {
+    if (limits.dependsOn !== undefined) {
+      throw new Error('depends_on only applies to schedule_type "trigger".');
+    }
+    if (type === 'rrule') {
+      scheduleValue = anchorRrule(value, timezone, now);
+      const ruleLimits = rruleLimits(scheduleValue, timezone, now);
+      if (ruleLimits.maxRuns !== undefined) maxRuns = Math.min(maxRuns ?? ruleLimits.maxRuns, ruleLimits.maxRuns);
+      if (ruleLimits.endAt && (!endAt || ruleLimits.endAt < endAt)) endAt = ruleLimits.endAt;
+    }
+
+    const nextRuns = nextFireTimes(type, scheduleValue, timezone, { now, maxRuns, endAt });
+    if (nextRuns.length === 0) {
+      throw new Error(`This schedule has no runs left in ${timezone}; check the start, end and count.`);
+    }
+    runs = [
+      `Next run${nextRuns.length > 1 ? 's' : ''} (${timezone}):`,
+      ...nextRuns.map(d => `- ${formatInZone(d, timezone)}`)
+    ];
+  }
+
+  const notes = [
+    maxRuns !== undefined ? `Stops after ${maxRuns} run${maxRuns === 1 ? '' : 's'}.` : null,
+    endAt ? `Ends ${formatInZone(endAt, timezone)}.` : null,
+    limits.jitterSeconds ? `Each run may start up to ${limits.jitterSeconds}s later than shown.` : null
+  ].filter((note): note is string => note !== null);
+  const preview = [...runs, ...notes].join('\n');
+
+  return { scheduleValue, maxRuns, endAt, preview };
+}
+
+function findSnapshotTask(taskId: string): ScheduledTask | undefined {
+  return readTaskSnapshot().tasks.find(t => t.id === taskId);
+}
+
+/** One list_tasks line; triggered tasks name their upstream instead of a clock. */
+function formatTaskLine(t: ScheduledTask, showGroup: boolean): string {
+  const schedule = t.schedule_type === 'trigger' && isTaskTrigger(t.schedule_value)
+    ? `after ${t.depends_on ?? '?'} ${TRIGGER_OUTCOMES[t.schedule_value]}`
+    : `${t.schedule_type}: ${t.schedule_value}`;
+  const prompt = t.prompt.length > LIST_PROMPT_CHARS ? `${t.prompt.slice(0, LIST_PROMPT_CHARS)}...` : t.prompt;
+  const group = showGroup ? ` {${t.group_folder}}` : '';
+  return `[${t.id}]${group} ${prompt} (${schedule}) - ${t.status}, next: ${t.next_run || 'N/A'}`;
+}
+
+function errorResult(err: unknown): ToolResult {
+  return {
+    content: [{ type: 'text', text: err instanceof Error ? err.message : String(err) }],
+    isError: true
+  };
+}
+
 export function createIpcMcp(ctx: IpcMcpContext) {
-  const { chatJid, groupFolder, isMain } = ctx;
+  const { chatJid, groupFolder, isMain, timezone } = ctx;
+
+  /** Folder holding a group's templates, as seen from this (main) container. */
+  const templateGroupDir = (folder: string | undefined): string | ToolResult => {
+    if (folder !== undefined && !/^[a-z0-9][a-z0-9-]*$/.test(folder)) {
+      return { content: [{ type: 'text', text: `Invalid group folder: "${folder}"` }], isError: true };
+    }
+    const dir = folder === undefined || folder === groupFolder
+      ? GROUP_DIR
+      : path.join(PROJECT_GROUPS_DIR, folder);
+    if (!fs.existsSync(dir)) {
+      return { content: [{ type: 'text', text: `Group folder not found: ${folder}` }], isError: true };
+    }
+    return dir;
+  };
+
+  const sealRequest = (folder: string | undefined): IpcTaskRequest => ({
+    type: 'seal_templates',
+    targetFolder: folder ?? groupFolder,
+    groupFolder,
+    timestamp: new Date().toISOString()
+  });
 
   return createSdkMcpServer({
-    name: 'guardian_core',
+    name: IPC_MCP_SERVER,
     version: '1.0.0',
     tools: [
       tool(
@@ -73,6 +372,75 @@ export function createIpcMcp(ctx: IpcMcpContext) {
         }
       ),
 
+      tool(
+        'send_media',
+        `Send a file from the group workspace to the current WhatsApp group: images and charts, PDFs and other documents, audio or voice notes, video.
+
+The file must live inside /workspace/group. Size limits: images, audio and video 16 MB; documents 100 MB.`,
+        {
+          file_path: z.string().describe('Path to the file, absolute under /workspace/group or relative to it (e.g., "reports/weekly.pdf")'),
+          mime_type: z.string().describe('MIME type of the file (e.g., "image/png", "application/pdf", "audio/ogg")'),
+          caption: z.string().optional().describe('Caption shown with the media (ignored for audio)'),
+          voice_note: z.boolean().optional().describe('Send audio as a push-to-talk voice note')
+        },
+        async (args) => {
+          let file: string | null;
+          try {
+            file = resolveGroupFile(args.file_path);
+          } catch {
+            return {
+              content: [{ type: 'text', text: `File not found: ${args.file_path}` }],
+              isError: true
+            };
+          }
+          if (!file) {
+            return {
+              content: [{ type: 'text', text: `Refusing to send ${args.file_path}: files must be inside ${GROUP_DIR}.` }],
+              isError: true
+            };
+          }
+
+          const stat = fs.statSync(path.join(GROUP_DIR, file));
+          if (!stat.isFile()) {
+            return {
+              content: [{ type: 'text', text: `Not a regular file: ${args.file_path}` }],
+              isError: true
+            };
+          }
+
+          const kind = mediaKindForMime(args.mime_type);
+          if (stat.size > MEDIA_MAX_BYTES[kind]) {
+            const limitMb = MEDIA_MAX_BYTES[kind] / (1024 * 1024);
+            return {
+              content: [{ type: 'text', text: `${file} is ${(stat.size / (1024 * 1024)).toFixed(1)} MB; the ${kind} limit is ${limitMb} MB.` }],
+              isError: true
+            };
+          }
+
+          const data: IpcMedia = {
+            type: 'media',
+            chatJid,
+            file,
+            mimeType: args.mime_type,
+            kind,
+            sizeBytes: stat.size,
+            caption: args.caption,
+            voiceNote: kind === 'audio' ? args.voice_note : undefined,
+            groupFolder,
+            timestamp: new Date().toISOString()
+          };
+
+          const filename = writeIpcFile(MESSAGES_DIR, data);
+
+          return {
+            content: [{
+              type: 'text',
+              text: `${kind} ${file} queued for delivery (${filename})`
+            }]
+          };
+        }
+      ),
+
       tool(
         'schedule_task',
         `Schedule a recurring or one-time task. The task will run as a full agent with access to all tools.
@@ -87,45 +455,61 @@ If unsure which mode to use, ask the user. Examples:
 - "Follow up on my request" → group (needs to know what was requested)
 - "Generate a daily report" → isolated (just needs instructions in prompt)
 
-SCHEDULE VALUE FORMAT (all times are LOCAL timezone):
-• cron: Standard cron expression (e.g., "*/5 * * * *" for every 5 minutes, "0 9 * * *" for daily at 9am LOCAL time)
+SCHEDULE VALUE FORMAT (cron, rrule and once are read in the task's timezone, default ${timezone}):
+• cron: Standard cron expression (e.g., "*/5 * * * *" for every 5 minutes, "0 9 * * *" for daily at 9am in the task's timezone)
 • interval: Milliseconds between runs (e.g., "300000" for 5 minutes, "3600000" for 1 hour)
-• once: Local time WITHOUT "Z" suffix (e.g., "2026-02-01T15:30:00"). Do NOT use UTC/Z suffix.`,
+• once: Wall-clock time WITHOUT "Z" suffix (e.g., "2026-02-01T15:30:00"), read in the task's timezone.
+• rrule: RFC 5545 recurrence rule, for calendars cron cannot express. DTSTART is a local time without Z or TZID and defaults to now; lines are separated by "\n". Examples:
+  - Every other Tuesday at 10:00 until June: "DTSTART:20261020T100000\nRRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;UNTIL=20270601T000000"
+  - Last Friday of each month at 17:00: "DTSTART:20261030T170000\nRRULE:FREQ=MONTHLY;BYDAY=-1FR"
+  - Weekdays at 8:00 except holidays: "DTSTART:20261020T080000\nRRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR\nEXDATE:20261225T080000,20270101T080000"
+
+ENDING AND JITTER (any schedule type):
+• max_runs: stop after this many runs ("remind me 5 times" → max_runs 5). An RRULE COUNT counts the same way.
+• end_at: stop once this wall-clock time in the task's timezone has passed. An RRULE UNTIL does the same.
+• jitter_seconds: start each run up to this many seconds late at random, e.g. to spread out polling.
+
+CHAINED TASKS:
+• trigger: runs after another task instead of on a clock. Set depends_on to the upstream task ID and schedule_value to "on_success" or "on_failure".
+  - "After the nightly backup report succeeds, summarize it into the family group" → trigger, on_success, include_upstream_result true
+  - "Retry the report if it fails" → trigger, on_failure, same prompt
+• include_upstream_result: hand the upstream task's last result to this task as input.
+
+If the user is travelling or mentions another city, set timezone to the IANA zone they mean (e.g. "America/New_York"). The result lists the next fire times; confirm them with the user.`,
         {
           prompt: z.string().describe('What the agent should do when the task runs. For isolated mode, include all necessary context here.'),
-          schedule_type: z.enum(['cron', 'interval', 'once']).describe('cron=recurring at specific times, interval=recurring every N ms, once=run once at specific time'),
-          schedule_value: z.string().describe('cron: "*/5 * * * *" | interval: milliseconds like "300000" | once: local timestamp like "2026-02-01T15:30:00" (no Z suffix!)'),
+          schedule_type: z.enum(['cron', 'interval', 'once', 'rrule', 'trigger']).describe('cron=recurring at specific times, interval=recurring every N ms, once=run once at specific time, rrule=RFC 5545 recurrence for calendars cron cannot express, trigger=runs after the depends_on task'),
+          schedule_value: z.string().describe('cron: "*/5 * * * *" | interval: milliseconds like "300000" | once: wall-clock time like "2026-02-01T15:30:00" (no Z suffix!) | rrule: "DTSTART:20261020T100000\nRRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU" | trigger: "on_success" or "on_failure"'),
           context_mode: z.enum(['group', 'isolated']).default('group').describe('group=runs with chat history and memory, isolated=fresh session (include context in prompt)'),
-          target_group: z.string().optional().describe('Target group folder (main only, defaults to current group)')
+          target_group: z.string().optional().describe('Target group folder (main only, defaults to current group)'),
+          timezone: z.string().optional().describe(`IANA timezone for cron, rrule and once values, e.g. "Europe/Berlin" (defaults to ${timezone})`),
+          max_runs: z.number().int().positive().optional().describe('Stop after this many runs'),
+          end_at: z.string().optional().describe('Stop after this wall-clock time in the task\'s timezone, e.g. "2027-06-01T00:00:00"'),
+          jitter_seconds: z.number().int().nonnegative().optional().describe('Start each run up to this many seconds late, at random'),
+          depends_on: z.string().optional().describe('Upstream task ID (schedule_type trigger only)'),
+          include_upstream_result: z.boolean().optional().describe('Give this task the upstream task\'s last result as input'),
+          agent_options: z.object({
+            model: z.string().min(1).optional().describe('Model for this task, e.g. "haiku" for cheap routine checks or "opus" for in-depth reports'),
+            maxTurns: z.number().int().positive().optional().describe('Maximum agent turns per run'),
+            systemPromptAppend: z.string().optional().describe('Extra instructions appended to the system prompt'),
+            maxThinkingTokens: z.number().int().nonnegative().optional().describe('Extended thinking budget in tokens; 0 turns thinking off')
+          }).optional().describe('Overrides the group\'s agent settings for this task only')
         },
         async (args) => {
-          // Validate schedule_value before writing IPC
-          if (args.schedule_type === 'cron') {
-            try {
-              CronExpressionParser.parse(args.schedule_value);
-            } catch (err) {
-              return {
-                content: [{ type: 'text', text: `Invalid cron: "${args.schedule_value}". Use format like "0 9 * * *" (daily 9am) or "*/5 * * * *" (every 5 min).` }],
-                isError: true
-              };
-            }
-          } else if (args.schedule_type === 'interval') {
-            const ms = parseInt(args.schedule_value, 10);
-            if (isNaN(ms) || ms <= 0) {
-              return {
-                content: [{ type: 'text', text: `Invalid interval: "${args.schedule_value}". Must be positive milliseconds (e.g., "300000" for 5 min).` }],
-                isError: true
-              };
-            }
-          } else if (args.schedule_type === 'once') {
-            const date = new Date(args.schedule_value);
-            if (isNaN(date.getTime())) {
-              return {
-                content: [{ type: 'text', text: `Invalid timestamp: "${args.schedule_value}". Use ISO 8601 format like "2026-02-01T15:30:00.000Z".` }],
-                isError: true
-              };
-            }
+          const taskTimezone = args.timezone ?? timezone;
+          let plan: SchedulePlan;
+          try {
+            plan = planSchedule(args.schedule_type, args.schedule_value, taskTimezone, {
+              maxRuns: args.max_runs,
+              endAt: args.end_at,
+              jitterSeconds: args.jitter_seconds,
+              dependsOn: args.depends_on,
+              taskId: null
+            });
+          } catch (err) {
+            return errorResult(err);
           }
+          const { scheduleValue, maxRuns, endAt, preview } = plan;
 
           // Non-main groups can only schedule for themselves
           const targetGroup = isMain && args.target_group ? args.target_group : groupFolder;
@@ -134,74 +518,142 @@ SCHEDULE VALUE FORMAT (all times are LOCAL timezone):
             type: 'schedule_task',
             prompt: args.prompt,
             schedule_type: args.schedule_type,
-            schedule_value: args.schedule_value,
+            schedule_value: scheduleValue,
             context_mode: args.context_mode || 'group',
             groupFolder: targetGroup,
             chatJid,
             createdBy: groupFolder,
-            timestamp: new Date().toISOString()
+            timestamp: new Date().toISOString(),
+            timezone: taskTimezone,
+            ...(maxRuns !== undefined ? { max_runs: maxRuns } : {}),
+            ...(endAt ? { end_at: endAt.toISOString() } : {}),
+            ...(args.jitter_seconds ? { jitter_seconds: args.jitter_seconds } : {}),
+            ...(args.depends_on ? { depends_on: args.depends_on } : {}),
+            ...(args.include_upstream_result !== undefined ? { include_upstream_result: args.include_upstream_result } : {}),
+            ...(args.agent_options ? { agent_options: args.agent_options } : {})
           };
 
-          const filename = writeIpcFile(TASKS_DIR, data);
+          return requestIpc(
+            data,
+            `Task scheduled: ${args.schedule_type} - ${scheduleValue}.\n${preview}`,
+            `Task scheduling requested: ${args.schedule_type} - ${scheduleValue}.\n${preview}`
+          );
+        }
+      ),
 
+      // Reads from current_tasks.json which host keeps updated
+      tool(
+        'list_tasks',
+        `List scheduled tasks, newest first, with triggered tasks shown under the task they run after. From main: shows all tasks. From other groups: shows only that group's tasks.
+Filter by status, group, schedule type or a next-run window, and page through long lists with offset and limit. Use format "json" to get every field of each task instead of a summary line.`,
+        {
+          status: z.enum(['active', 'paused', 'completed']).optional().describe('Only tasks with this status'),
+          group: z.string().optional().describe('Only tasks of this group folder (main only)'),
+          schedule_type: z.enum(['cron', 'interval', 'once', 'rrule', 'trigger']).optional().describe('Only tasks with this schedule type'),
+          next_run_after: z.string().optional().describe(`Only tasks whose next run is at or after this wall-clock time in ${timezone}, e.g. "2026-02-01T00:00:00"`),
+          next_run_before: z.string().optional().describe(`Only tasks whose next run is at or before this wall-clock time in ${timezone}`),
+          offset: z.number().int().nonnegative().default(0).describe('Number of matching tasks to skip'),
+          limit: z.number().int().min(1).max(100).default(20).describe('Maximum number of tasks to return'),
+          format: z.enum(['text', 'json']).default('text').describe('text=one summary line per task, json=full task records with paging info')
+        },
+        async (args) => {
+          if (!isMain && args.group !== undefined && args.group !== groupFolder) {
+            return errorResult('Only the main group can list other groups\' tasks.');
+          }
+
+          let after: Date | undefined;
+          let before: Date | undefined;
+          try {
+            if (args.next_run_after !== undefined) after = parseLocalDateTime(args.next_run_after, timezone);
+            if (args.next_run_before !== undefined) before = parseLocalDateTime(args.next_run_before, timezone);
+          } catch (err) {
+            return errorResult(err);
+          }
+
+          let snapshot: TaskSnapshot;
+          try {
+            snapshot = readTaskSnapshot();
+          } catch (err) {
+            return errorResult(`Error reading tasks: ${err instanceof Error ? err.message : String(err)}`);
+          }
+
+          const inWindow = (t: ScheduledTask): boolean => {
+            if (!after && !before) return true;
+            if (!t.next_run) return false;
+            const next = Date.parse(t.next_run);
+            return (!after || next >= after.getTime()) && (!before || next <= before.getTime());
+          };
+          const matching = snapshot.tasks.filter(t =>
+            (isMain || t.group_folder === groupFolder)
+            && (args.group === undefined || t.group_folder === args.group)
+            && (args.status === undefined || t.status === args.status)
+            && (args.schedule_type === undefined || t.schedule_type === args.schedule_type)
+            && inWindow(t)
+          );
+          const page = matching.slice(args.offset, args.offset + args.limit);
+          const nextOffset = args.offset + page.length < matching.length ? args.offset + page.length : null;
+
+          if (args.format === 'json') {
+            const result = {
+              total: matching.length,
+              offset: args.offset,
+              limit: args.limit,
+              nextOffset,
+              tasks: page,
+              skipped: snapshot.skipped
+            };
+            return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+          }
+
+          const skippedNote = snapshot.skipped.length > 0 ? `\n\n${describeSkippedRows(snapshot.skipped)}` : '';
+          if (matching.length === 0) {
+            return { content: [{ type: 'text', text: `No scheduled tasks found.${skippedNote}` }] };
+          }
+          if (page.length === 0) {
+            return { content: [{ type: 'text', text: `No tasks at offset ${args.offset}; ${matching.length} match.${skippedNote}` }] };
+          }
+
+          // Triggered tasks are indented under the task they run after
+          const formatted = formatTaskTree(page, t => formatTaskLine(t, isMain));
+          const more = nextOffset !== null ? `\nMore tasks: call again with offset ${nextOffset}.` : '';
           return {
             content: [{
               type: 'text',
-              text: `Task scheduled (${filename}): ${args.schedule_type} - ${args.schedule_value}`
+              text: `Scheduled tasks (${args.offset + 1}-${args.offset + page.length} of ${matching.length}):\n${formatted}${more}${skippedNote}`
             }]
           };
         }
       ),
 
-      // Reads from current_tasks.json which host keeps updated
       tool(
-        'list_tasks',
-        'List all scheduled tasks. From main: shows all tasks. From other groups: shows only that group\'s tasks.',
-        {},
-        async () => {
-          const tasksFile = path.join(IPC_DIR, 'current_tasks.json');
+        'search_conversations',
+        `Full-text search over this group's archived conversations (conversations/*.jsonl), including tool calls and results.
 
+All words in the query must appear in a matching message (case-insensitive). Newest archives are searched first.`,
+        {
+          query: z.string().describe('Words to search for (e.g., "invoice march")'),
+          limit: z.number().int().min(1).max(50).default(10).describe('Maximum number of matches to return')
+        },
+        async (args) => {
           try {
-            if (!fs.existsSync(tasksFile)) {
-              return {
-                content: [{
-                  type: 'text',
-                  text: 'No scheduled tasks found.'
-                }]
-              };
-            }
-
-            const allTasks = JSON.parse(fs.readFileSync(tasksFile, 'utf-8'));
-
-            const tasks = isMain
-              ? allTasks
-              : allTasks.filter((t: { groupFolder: string }) => t.groupFolder === groupFolder);
-
-            if (tasks.length === 0) {
-              return {
-                content: [{
-                  type: 'text',
-                  text: 'No scheduled tasks found.'
-                }]
-              };
+            const hits = searchConversations(args.query, args.limit);
+            if (hits.length === 0) {
+              return { content: [{ type: 'text', text: `No archived messages match "${args.query}".` }] };
             }
 
-            const formatted = tasks.map((t: { id: string; prompt: string; schedule_type: string; schedule_value: string; status: string; next_run: string }) =>
-              `- [${t.id}] ${t.prompt.slice(0, 50)}... (${t.schedule_type}: ${t.schedule_value}) - ${t.status}, next: ${t.next_run || 'N/A'}`
-            ).join('\n');
+            const formatted = hits.map(h => {
+              const what = h.kind === 'text' ? h.sender : `${h.sender} ${h.kind} ${h.toolName ?? ''}`.trim();
+              return `- ${h.file} @ ${h.timestamp ?? 'unknown time'} [${what}]: ${h.snippet}`;
+            }).join('\n');
 
-            return {
-              content: [{
-                type: 'text',
-                text: `Scheduled tasks:\n${formatted}`
-              }]
-            };
+            return { content: [{ type: 'text', text: `Matches:\n${formatted}` }] };
           } catch (err) {
             return {
               content: [{
                 type: 'text',
-                text: `Error reading tasks: ${err instanceof Error ? err.message : String(err)}`
-              }]
+                text: `Error searching conversations: ${err instanceof Error ? err.message : String(err)}`
+              }],
+              isError: true
             };
           }
         }
@@ -221,14 +673,7 @@ SCHEDULE VALUE FORMAT (all times are LOCAL timezone):
             timestamp: new Date().toISOString()
           };
 
-          writeIpcFile(TASKS_DIR, data);
-
-          return {
-            content: [{
-              type: 'text',
-              text: `Task ${args.task_id} pause requested.`
-            }]
-          };
+          return requestIpc(data, `Task ${args.task_id} paused.`, `Task ${args.task_id} pause requested.`);
         }
       ),
 
@@ -246,14 +691,7 @@ SCHEDULE VALUE FORMAT (all times are LOCAL timezone):
             timestamp: new Date().toISOString()
           };
 
-          writeIpcFile(TASKS_DIR, data);
-
-          return {
-            content: [{
-              type: 'text',
-              text: `Task ${args.task_id} resume requested.`
-            }]
-          };
+          return requestIpc(data, `Task ${args.task_id} resumed.`, `Task ${args.task_id} resume requested.`);
         }
       ),
 
@@ -271,14 +709,134 @@ SCHEDULE VALUE FORMAT (all times are LOCAL timezone):
             timestamp: new Date().toISOString()
           };
 
-          writeIpcFile(TASKS_DIR, data);
+          return requestIpc(data, `Task ${args.task_id} cancelled.`, `Task ${args.task_id} cancellation requested.`);
+        }
+      ),
 
-          return {
-            content: [{
-              type: 'text',
-              text: `Task ${args.task_id} cancellation requested.`
-            }]
+      tool(
+        'update_task',
+        `Change an existing scheduled task in place; it keeps its ID and run history. Only the fields you pass change.
+A new schedule is validated like schedule_task and its next runs are listed. When changing only the timezone, schedule_value or depends_on, the rest of the schedule is taken from the task's current settings. A change that would make tasks trigger each other in a loop is refused.`,
+        {
+          task_id: z.string().describe('The task ID to update'),
+          prompt: z.string().optional().describe('New prompt for the task'),
+          schedule_type: z.enum(['cron', 'interval', 'once', 'rrule', 'trigger']).optional().describe('New schedule type; requires schedule_value'),
+          schedule_value: z.string().optional().describe('New schedule value, in the same format as schedule_task'),
+          context_mode: z.enum(['group', 'isolated']).optional().describe('group=runs with chat history and memory, isolated=fresh session'),
+          timezone: z.string().optional().describe('New IANA timezone for cron, rrule and once values'),
+          max_runs: z.number().int().positive().optional().describe('Stop after this many runs (counting past runs)'),
+          end_at: z.string().optional().describe('Stop after this wall-clock time in the task\'s timezone'),
+          jitter_seconds: z.number().int().nonnegative().optional().describe('Start each run up to this many seconds late, at random'),
+          depends_on: z.string().optional().describe('New upstream task ID (schedule_type trigger only)'),
+          include_upstream_result: z.boolean().optional().describe('Give this task the upstream task\'s last result as input')
+        },
+        async (args) => {
+          const changesSchedule = [args.schedule_type, args.schedule_value, args.timezone, args.max_runs, args.end_at, args.jitter_seconds, args.depends_on]
+            .some(v => v !== undefined);
+          if (!changesSchedule && args.prompt === undefined && args.context_mode === undefined && args.include_upstream_result === undefined) {
+            return errorResult('Nothing to update: pass at least one field to change.');
+          }
+          if (args.schedule_type !== undefined && args.schedule_value === undefined) {
+            return errorResult('A new schedule_type needs a schedule_value in that format.');
+          }
+
+          let schedule: Partial<IpcUpdateTask> = {};
+          let preview = '';
+          if (changesSchedule) {
+            let current: ScheduledTask | undefined;
+            try {
+              current = findSnapshotTask(args.task_id);
+            } catch (err) {
+              return errorResult(`Could not read current tasks: ${err instanceof Error ? err.message : String(err)}`);
+            }
+            const scheduleType = args.schedule_type ?? current?.schedule_type;
+            const scheduleValue = args.schedule_value ?? current?.schedule_value;
+            if (scheduleType === undefined || scheduleValue === undefined) {
+              return errorResult(`Task ${args.task_id} is not in the current task list; pass schedule_type and schedule_value.`);
+            }
+            const taskTimezone = args.timezone ?? current?.timezone ?? timezone;
+            const dependsOn = scheduleType === 'trigger' ? args.depends_on ?? current?.depends_on ?? undefined : args.depends_on;
+
+            let plan: SchedulePlan;
+            try {
+              plan = planSchedule(scheduleType, scheduleValue, taskTimezone, {
+                maxRuns: args.max_runs,
+                endAt: args.end_at,
+                jitterSeconds: args.jitter_seconds,
+                dependsOn,
+                taskId: args.task_id
+              });
+            } catch (err) {
+              return errorResult(err);
+            }
+
+            schedule = {
+              schedule_type: scheduleType,
+              schedule_value: plan.scheduleValue,
+              timezone: taskTimezone,
+              ...(plan.maxRuns !== undefined ? { max_runs: plan.maxRuns } : {}),
+              ...(plan.endAt ? { end_at: plan.endAt.toISOString() } : {}),
+              ...(args.jitter_seconds !== undefined ? { jitter_seconds: args.jitter_seconds } : {}),
+              ...(dependsOn ? { depends_on: dependsOn } : {})
+            };
+            preview = `\n${plan.preview}`;
+          }
+
+          const data: IpcUpdateTask = {
+            type: 'update_task',
+            taskId: args.task_id,
+            ...(args.prompt !== undefined ? { prompt: args.prompt } : {}),
+            ...(args.context_mode !== undefined ? { context_mode: args.context_mode } : {}),
+            ...(args.include_upstream_result !== undefined ? { include_upstream_result: args.include_upstream_result } : {}),
+            ...schedule,
+            groupFolder,
+            timestamp: new Date().toISOString()
           };
+
+          return requestIpc(data, `Task ${args.task_id} updated.${preview}`, `Task ${args.task_id} update requested.${preview}`);
+        }
+      ),
+
+      // Reads from task_history.json which host keeps updated
+      tool(
+        'task_history',
+        'Show recent runs of scheduled tasks (status, duration, result or error), newest first. Use it to find out why a task failed. From main: all tasks. From other groups: only that group\'s tasks.',
+        {
+          task_id: z.string().optional().describe('Only show runs of this task'),
+          limit: z.number().int().min(1).max(50).default(10).describe('Maximum number of runs to show')
+        },
+        async (args) => {
+          if (!fs.existsSync(TASK_HISTORY_SNAPSHOT)) {
+            return { content: [{ type: 'text', text: 'No task runs recorded.' }] };
+          }
+
+          let decoded;
+          try {
+            decoded = decodeTaskRunLogs(fs.readFileSync(TASK_HISTORY_SNAPSHOT, 'utf-8'), TASK_HISTORY_SNAPSHOT);
+          } catch (err) {
+            return errorResult(`Error reading task history: ${err instanceof Error ? err.message : String(err)}`);
+          }
+          if (decoded._tag === 'Left') {
+            return errorResult(`Error reading task history: ${decoded.left.message}`);
+          }
+
+          const runs = decoded.right
+            .filter(run => args.task_id === undefined || run.task_id === args.task_id)
+            .slice(0, args.limit);
+          if (runs.length === 0) {
+            return {
+              content: [{ type: 'text', text: args.task_id ? `No runs recorded for task ${args.task_id}.` : 'No task runs recorded.' }]
+            };
+          }
+
+          const formatted = runs.map(run => {
+            const outcome = run.status === 'error'
+              ? `error: ${run.error ?? 'unknown'}`
+              : `success${run.result ? `: ${run.result.slice(0, 100)}` : ''}`;
+            return `- [${run.task_id}] ${run.run_at} (${(run.duration_ms / 1000).toFixed(1)}s) ${outcome}`;
+          }).join('\n');
+
+          return { content: [{ type: 'text', text: `Recent task runs:\n${formatted}` }] };
         }
       ),
 
@@ -314,14 +872,12 @@ or omit it to call the owner (default). Unknown contacts are denied by default.`
             timestamp: new Date().toISOString()
           };
 
-          writeIpcFile(TASKS_DIR, data);
-
-          return {
-            content: [{
-              type: 'text',
-              text: `Phone call queued (${args.urgency})${args.contact_id ? ` to ${args.contact_id}` : ''}: ${args.reason}`
-            }]
-          };
+          const target = args.contact_id ? ` to ${args.contact_id}` : '';
+          return requestIpc(
+            data,
+            `Phone call placed (${args.urgency})${target}: ${args.reason}`,
+            `Phone call queued (${args.urgency})${target}: ${args.reason}`
+          );
         }
       ),
 
@@ -354,14 +910,124 @@ Use available_groups.json to find the JID for a group. The folder name should be
             timestamp: new Date().toISOString()
           };
 
-          writeIpcFile(TASKS_DIR, data);
+          return requestIpc(
+            data,
+            `Group "${args.name}" registered. It will start receiving messages immediately.`,
+            `Group "${args.name}" registration requested.`
+          );
+        }
+      ),
 
-          return {
-            content: [{
-              type: 'text',
-              text: `Group "${args.name}" registered. It will start receiving messages immediately.`
-            }]
-          };
+      tool(
+        'seal_templates',
+        `Accept the current persona and policy files (SOUL.md, IDENTITY.md, THREAT_MODEL.json, PROMPT.json and every file PROMPT.json injects) as verified. Main group only.
+
+Template files are checked against a sealed manifest at the start of every run; any file that changed since the last seal is reverted and reported. Call this only after the owner has asked for a template change and the edit is done. USER.md, TOOLS.md and HEARTBEAT.md are memory files you keep up to date yourself; they are never sealed. The shared templates in groups/global are sealed as group "global", memory files included, since every group's prompt starts from them.`,
+        {
+          group_folder: z.string().optional().describe('Folder of another group to seal, or "global" for the shared templates (default: this group)')
+        },
+        async (args) => {
+          if (!isMain) {
+            return {
+              content: [{ type: 'text', text: 'Only the main group can seal templates.' }],
+              isError: true
+            };
+          }
+
+          const dir = templateGroupDir(args.group_folder);
+          if (typeof dir !== 'string') return dir;
+
+          // The host hashes and signs; the owner is told about every seal
+          return requestIpc(
+            sealRequest(args.group_folder),
+            'Templates sealed.',
+            'Template seal requested.'
+          );
+        }
+      ),
+
+      tool(
+        'template_history',
+        'List recorded versions of persona and policy files, newest first. Main group only. Use the version hash with restore_template to roll back.',
+        {
+          file: z.string().optional().describe('Only show versions of this file (e.g., "SOUL.md")'),
+          group_folder: z.string().optional().describe('Folder of another group (default: this group)')
+        },
+        async (args) => {
+          if (!isMain) {
+            return {
+              content: [{ type: 'text', text: 'Only the main group can inspect template history.' }],
+              isError: true
+            };
+          }
+
+          const dir = templateGroupDir(args.group_folder);
+          if (typeof dir !== 'string') return dir;
+
+          const versions = templateHistory(dir, args.file);
+          if (versions.length === 0) {
+            return { content: [{ type: 'text', text: 'No template history recorded.' }] };
+          }
+
+          const current = new Set(templateFilesFor(dir, GLOBAL_DIR).map(f => {
+            const live = path.join(dir, f);
+            return fs.existsSync(live) ? `${f}:${sha256(fs.readFileSync(live))}` : '';
+          }));
+          const formatted = versions.map(v => {
+            const flags = [
+              v.pinned ? 'pinned' : '',
+              current.has(`${v.file}:${v.sha256}`) ? 'current' : ''
+            ].filter(Boolean);
+            return `- ${v.file} ${v.sha256.slice(0, 12)} ${v.recordedAt}${flags.length ? ` (${flags.join(', ')})` : ''}`;
+          }).join('\n');
+
+          return { content: [{ type: 'text', text: `Template history:\n${formatted}` }] };
+        }
+      ),
+
+      tool(
+        'restore_template',
+        'Roll a persona or policy file back to a recorded version, then re-seal the group\'s templates as verified. Main group only.',
+        {
+          file: z.string().describe('Template file to restore (e.g., "SOUL.md")'),
+          version: z.string().min(8).describe('Version hash (or a unique prefix of at least 8 characters) from template_history'),
+          pin: z.boolean().optional().describe('Keep this version regardless of retention'),
+          group_folder: z.string().optional().describe('Folder of another group (default: this group)')
+        },
+        async (args) => {
+          if (!isMain) {
+            return {
+              content: [{ type: 'text', text: 'Only the main group can restore templates.' }],
+              isError: true
+            };
+          }
+
+          const dir = templateGroupDir(args.group_folder);
+          if (typeof dir !== 'string') return dir;
+
+          const files = templateFilesFor(dir, GLOBAL_DIR);
+          if (!files.includes(args.file)) {
+            return {
+              content: [{ type: 'text', text: `Not a template file: ${args.file}. Templates: ${files.join(', ')}` }],
+              isError: true
+            };
+          }
+
+          try {
+            const restored = restoreTemplate(dir, args.file, args.version, args.pin === true);
+            const version = `${restored.sha256.slice(0, 12)}${restored.pinned ? ' (pinned)' : ''}`;
+            // Awaited so a failed seal request is reported by the catch below
+            return await requestIpc(
+              sealRequest(args.group_folder),
+              `Restored ${args.file} to ${version} and sealed templates.`,
+              `Restored ${args.file} to ${version}; template seal requested.`
+            );
+          } catch (err) {
+            return {
+              content: [{ type: 'text', text: err instanceof Error ? err.message : String(err) }],
+              isError: true
+            };
+          }
         }
       )
     ]
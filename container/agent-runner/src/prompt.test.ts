@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  DEFAULT_PROMPT_MANIFEST,
+  assemblePrompt,
+  globalTemplateFilesFor,
+  loadTemplateFiles,
+  readPromptManifest,
+  templateFilesFor
+} from './prompt.js';
+
+let groupDir: string;
+let globalDir: string;
+
+beforeEach(() => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompt-test-'));
+  groupDir = path.join(dir, 'group');
+  globalDir = path.join(dir, 'global');
+  fs.mkdirSync(groupDir);
+  fs.mkdirSync(globalDir);
+});
+
+afterEach(() => {
+  fs.rmSync(path.dirname(groupDir), { recursive: true, force: true });
+});
+
+const write = (dir: string, file: string, content: string) => fs.writeFileSync(path.join(dir, file), content);
+
+describe('readPromptManifest', () => {
+  test('prefers the group manifest, then the global one, then the default', () => {
+    expect(readPromptManifest(groupDir, globalDir).manifest).toEqual(DEFAULT_PROMPT_MANIFEST);
+
+    write(globalDir, 'PROMPT.json', JSON.stringify({ files: [{ file: 'SOUL.md' }] }));
+    expect(readPromptManifest(groupDir, globalDir).manifest.files.map(e => e.file)).toEqual(['SOUL.md']);
+
+    write(groupDir, 'PROMPT.json', JSON.stringify({ files: [{ file: 'BOOT.md' }] }));
+    expect(readPromptManifest(groupDir, globalDir).manifest.files.map(e => e.file)).toEqual(['BOOT.md']);
+  });
+
+  test('falls back to the default manifest with an error when PROMPT.json is invalid', () => {
+    write(groupDir, 'PROMPT.json', '{');
+    const { manifest, error } = readPromptManifest(groupDir);
+    expect(manifest).toEqual(DEFAULT_PROMPT_MANIFEST);
+    expect(error).toStartWith(path.join(groupDir, 'PROMPT.json'));
+  });
+});
+
+describe('template files', () => {
+  test('group seals leave out memory files and paths outside the folder', () => {
+    write(groupDir, 'PROMPT.json', JSON.stringify({
+      files: [{ file: 'USER.md' }, { file: 'extra/RULES.md' }, { file: '../other/SOUL.md' }]
+    }));
+    const files = templateFilesFor(groupDir, globalDir);
+    expect(files).toContain('extra/RULES.md');
+    expect(files).toContain('PROMPT.json');
+    expect(files).not.toContain('USER.md');
+    expect(files).not.toContain('../other/SOUL.md');
+  });
+
+  test('global seals cover memory files too', () => {
+    write(globalDir, 'PROMPT.json', JSON.stringify({ files: [{ file: 'TEAM.md' }] }));
+    const files = globalTemplateFilesFor(globalDir);
+    expect(files).toContain('USER.md');
+    expect(files).toContain('TEAM.md');
+  });
+});
+
+describe('loadTemplateFiles', () => {
+  const manifest = {
+    files: [
+      { file: 'SOUL.md', when: 'always' as const, merge: 'override' as const },
+      { file: 'TOOLS.md', when: 'always' as const, merge: 'append' as const },
+      { file: 'BOOT.md', when: 'scheduled' as const, merge: 'override' as const }
+    ]
+  };
+
+  test('overrides or appends the group layer to the global one', () => {
+    write(globalDir, 'SOUL.md', 'global soul');
+    write(groupDir, 'SOUL.md', 'group soul');
+    write(globalDir, 'TOOLS.md', 'global tools');
+    write(groupDir, 'TOOLS.md', 'group tools');
+    write(globalDir, 'BOOT.md', 'global boot');
+
+    expect(loadTemplateFiles(groupDir, manifest, new Set(), globalDir).map(f => [f.file, f.content, f.layer])).toEqual([
+      ['SOUL.md', 'group soul', 'group'],
+      ['TOOLS.md', 'global tools\n\ngroup tools', 'global+group'],
+      ['BOOT.md', 'global boot', 'global']
+    ]);
+  });
+
+  test('leaves out skipped files in either layer', () => {
+    write(globalDir, 'SOUL.md', 'global soul');
+    write(groupDir, 'SOUL.md', 'group soul');
+    write(globalDir, 'TOOLS.md', 'tampered tools');
+    write(groupDir, 'TOOLS.md', 'group tools');
+
+    const files = loadTemplateFiles(groupDir, manifest, new Set(['SOUL.md']), globalDir, new Set(['SOUL.md', 'TOOLS.md']));
+    expect(files.map(f => [f.file, f.content, f.layer])).toEqual([['TOOLS.md', 'group tools', 'group']]);
+  });
+});
+
+describe('assemblePrompt', () => {
+  test('wraps applicable templates in a context block and trims to budget', () => {
+    const prompt = assemblePrompt({ prompt: 'hello', isScheduledTask: false }, [
+      { file: 'SOUL.md', content: 'x'.repeat(100), layer: 'group', maxTokens: 5, when: 'always' },
+      { file: 'BOOT.md', content: 'boot', layer: 'group', when: 'scheduled' }
+    ]);
+    expect(prompt).toBe(`<context>\n<SOUL.md layer="group">\n${'x'.repeat(20)}\n[... truncated to ~5 tokens]\n</SOUL.md>\n</context>\n\nhello`);
+  });
+
+  test('marks scheduled runs and hands over the upstream result', () => {
+    const prompt = assemblePrompt({
+      prompt: 'report',
+      isScheduledTask: true,
+      upstream: { taskId: 'task-1', status: 'success', result: 'done' }
+    }, []);
+    expect(prompt).toStartWith('[SCHEDULED TASK');
+    expect(prompt).toContain('Task task-1 succeeded and triggered this task. Its result:]\ndone');
+  });
+});
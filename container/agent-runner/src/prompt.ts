@@ -0,0 +1,196 @@
+/**
+ * Prompt assembly for Guardian Core
+ * PROMPT.json lists the template files injected ahead of the user prompt, in
+ * order, with optional token budgets and run conditions. Templates resolve in
+ * two layers: groups/global (read-only at /workspace/global), then the group,
+ * whose copy overrides or appends to the global one. Both layers are sealed;
+ * files that fail verification are left out. Without any PROMPT.json every
+ * standard template is injected in full.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { ContainerInput, PromptManifest, PromptTemplateCondition } from '@guardian/shared';
+import { decodePromptManifest } from '@guardian/shared';
+import { MEMORY_FILES, PROMPT_FILES, TEMPLATE_FILES } from './templates.js';
+
+const GROUP_DIR = '/workspace/group';
+export const GLOBAL_DIR = '/workspace/global';
+export const PROMPT_MANIFEST_FILE = 'PROMPT.json';
+
+// Rough English average; close enough for budgeting context files
+const CHARS_PER_TOKEN = 4;
+
+export const DEFAULT_PROMPT_MANIFEST: PromptManifest = {
+  files: PROMPT_FILES.map(file => ({ file, when: 'always' as const, merge: 'override' as const }))
+};
+
+/** Where an injected section's content came from. */
+export type TemplateLayer = 'global' | 'group' | 'global+group';
+
+export interface PromptTemplateFile {
+  file: string;
+  content: string;
+  layer: TemplateLayer;
+  maxTokens?: number;
+  when: PromptTemplateCondition;
+}
+
+export type PromptInput = Pick<ContainerInput, 'prompt' | 'isScheduledTask' | 'attachments' | 'upstream'>;
+
+export interface LoadedPromptManifest {
+  manifest: PromptManifest;
+  /** Set (prefixed with the file path) when PROMPT.json exists but is invalid; the default manifest is used instead. */
+  error: string | null;
+}
+
+/**
+ * The group's PROMPT.json, else the global one (when `globalDir` is given),
+ * else the default manifest.
+ */
+export function readPromptManifest(groupDir: string, globalDir?: string): LoadedPromptManifest {
+  const candidates = [groupDir, globalDir]
+    .filter((dir): dir is string => dir !== undefined)
+    .map(dir => path.join(dir, PROMPT_MANIFEST_FILE));
+  const manifestPath = candidates.find(p => fs.existsSync(p));
+  if (!manifestPath) {
+    return { manifest: DEFAULT_PROMPT_MANIFEST, error: null };
+  }
+
+  let json: string;
+  try {
+    json = fs.readFileSync(manifestPath, 'utf-8');
+  } catch (err) {
+    return { manifest: DEFAULT_PROMPT_MANIFEST, error: `${manifestPath}: ${err instanceof Error ? err.message : String(err)}` };
+  }
+
+  const decoded = decodePromptManifest(json, manifestPath);
+  return decoded._tag === 'Left'
+    ? { manifest: DEFAULT_PROMPT_MANIFEST, error: `${manifestPath}: ${decoded.left.message}` }
+    : { manifest: decoded.right, error: null };
+}
+
+/** Manifest paths must stay inside the group folder. */
+function isGroupRelative(file: string): boolean {
+  const normalized = path.normalize(file);
+  return !path.isAbsolute(normalized) && normalized !== '..' && !normalized.startsWith(`..${path.sep}`);
+}
+
+/**
+ * Files under integrity protection in a group folder: the standard templates,
+ * PROMPT.json itself, and anything the effective PROMPT.json injects except
+ * the agent's memory files.
+ */
+export function templateFilesFor(groupDir: string, globalDir?: string): string[] {
+  const { manifest } = readPromptManifest(groupDir, globalDir);
+  const declared = manifest.files
+    .map(e => e.file)
+    .filter(file => isGroupRelative(file) && !MEMORY_FILES.includes(path.normalize(file)));
+  return [...new Set([...TEMPLATE_FILES, PROMPT_MANIFEST_FILE, ...declared])];
+}
+
+/**
+ * Files sealed in the global layer: every file it can inject, memory files
+ * included (no agent keeps its memory there), plus its PROMPT.json.
+ */
+export function globalTemplateFilesFor(globalDir: string): string[] {
+  const { manifest } = readPromptManifest(globalDir);
+  const declared = manifest.files.map(e => e.file).filter(isGroupRelative);
+  return [...new Set([...PROMPT_FILES, PROMPT_MANIFEST_FILE, ...declared])];
+}
+
+function readTemplate(dir: string | undefined, file: string): string | null {
+  if (dir === undefined) return null;
+  try {
+    return fs.readFileSync(path.join(dir, file), 'utf-8').trim();
+  } catch {
+    // Missing or unreadable
+    return null;
+  }
+}
+
+/**
+ * Resolve the manifest's files in order across the global and group layers.
+ * Group files listed in `skip` and global files listed in `skipGlobal` (e.g.
+ * failed verification) are treated as absent; files present in neither layer
+ * are left out.
+ */
+export function loadTemplateFiles(
+  groupDir: string,
+  manifest: PromptManifest,
+  skip: Set<string>,
+  globalDir?: string,
+  skipGlobal: Set<string> = new Set()
+): PromptTemplateFile[] {
+  const files: PromptTemplateFile[] = [];
+  for (const entry of manifest.files) {
+    if (!isGroupRelative(entry.file)) continue;
+
+    const global = skipGlobal.has(entry.file) ? null : readTemplate(globalDir, entry.file);
+    const group = skip.has(entry.file) ? null : readTemplate(groupDir, entry.file);
+    const base = { file: entry.file, maxTokens: entry.maxTokens, when: entry.when };
+
+    if (global !== null && group !== null && entry.merge === 'append') {
+      files.push({ ...base, content: `${global}\n\n${group}`, layer: 'global+group' });
+    } else if (group !== null) {
+      files.push({ ...base, content: group, layer: 'group' });
+    } else if (global !== null) {
+      files.push({ ...base, content: global, layer: 'global' });
+    }
+  }
+  return files;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function appliesTo(when: PromptTemplateCondition, input: PromptInput): boolean {
+  if (when === 'scheduled') return input.isScheduledTask === true;
+  if (when === 'interactive') return input.isScheduledTask !== true;
+  return true;
+}
+
+function withinBudget(content: string, maxTokens: number | undefined): string {
+  if (maxTokens === undefined || estimateTokens(content) <= maxTokens) return content;
+  return `${content.slice(0, maxTokens * CHARS_PER_TOKEN)}\n[... truncated to ~${maxTokens} tokens]`;
+}
+
+/**
+ * Build the agent prompt: applicable template files in a `<context>` block,
+ * then the user prompt, the attachment list and the scheduled-task notice.
+ */
+export function assemblePrompt(input: PromptInput, files: PromptTemplateFile[]): string {
+  const sections = files
+    .filter(f => f.content && appliesTo(f.when, input))
+    .map(f => `<${f.file} layer="${f.layer}">\n${withinBudget(f.content, f.maxTokens)}\n</${f.file}>`);
+
+  let prompt = input.prompt;
+
+  if (sections.length > 0) {
+    prompt = `<context>\n${sections.join('\n\n')}\n</context>\n\n${prompt}`;
+  }
+
+  // List inbound media so the agent knows which files to open
+  if (input.attachments && input.attachments.length > 0) {
+    const attachments = input.attachments.map(a => {
+      const caption = a.caption ? ` caption: "${a.caption}"` : '';
+      const name = a.fileName ? ` name: "${a.fileName}"` : '';
+      return `- ${path.join(GROUP_DIR, a.path)} (${a.type}, ${a.mimeType})${name}${caption}`;
+    });
+    prompt = `${prompt}\n\n[ATTACHMENTS - The user sent these files with their messages. They are saved in your workspace; open them with Read or Bash as needed.]\n${attachments.join('\n')}`;
+  }
+
+  // Hand a triggered task the run that triggered it
+  if (input.upstream) {
+    const outcome = input.upstream.status === 'success' ? 'succeeded' : 'failed';
+    prompt = `${prompt}\n\n[UPSTREAM RESULT - Task ${input.upstream.taskId} ${outcome} and triggered this task. Its result:]\n${input.upstream.result ?? '(no result)'}`;
+  }
+
+  // Add context for scheduled tasks
+  if (input.isScheduledTask) {
+    prompt = `[SCHEDULED TASK - You are running automatically, not in response to a user message. Use mcp__guardian_core__send_message if needed to communicate with the user.]\n\n${prompt}`;
+  }
+
+  return prompt;
+}
@@ -0,0 +1,44 @@
+/**
+ * Keyed pseudonymization for redacted logs.
+ * Each distinct secret maps to a stable HMAC-derived token. The key is derived
+ * by the host for this group and arrives in ContainerInput.pseudonymKey; the
+ * token → original vault is kept by the host, and only for contact identifiers.
+ */
+
+import crypto from 'crypto';
+import type { Pseudonymizer } from '@guardian/shared';
+
+// 8 hex chars: short enough to read in a log line, long enough that
+// collisions between the few thousand secrets a group sees are unlikely
+const DIGEST_LENGTH = 8;
+
+// Redaction patterns whose originals the host may keep for reverse lookup;
+// credentials are pseudonymized but never leave the container in the clear
+const VAULT_PATTERNS = new Set(['whatsapp-jid', 'whatsapp-group', 'phone']);
+
+export interface PseudonymRecord {
+  token: string;
+  original: string;
+  pattern: string;
+}
+
+/**
+ * Build an HMAC-SHA256 pseudonymizer. Each new token for a contact
+ * identifier is passed to `onRecord` once.
+ */
+export function createHmacPseudonymizer(
+  secret: string,
+  onRecord?: (record: PseudonymRecord) => void
+): Pseudonymizer {
+  const recorded = new Set<string>();
+
+  return {
+    digest: (value) =>
+      crypto.createHmac('sha256', secret).update(value).digest('hex').slice(0, DIGEST_LENGTH),
+    record: (token, original, pattern) => {
+      if (!onRecord || !VAULT_PATTERNS.has(pattern) || recorded.has(token)) return;
+      recorded.add(token);
+      onRecord({ token, original, pattern });
+    }
+  };
+}
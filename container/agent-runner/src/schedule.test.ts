@@ -0,0 +1,111 @@
+import { describe, expect, test } from 'bun:test';
+import { anchorRrule, isValidTimeZone, nextFireTimes, parseLocalDateTime, rruleLimits } from './schedule.js';
+
+const iso = (dates: Date[]) => dates.map(d => d.toISOString());
+
+describe('anchorRrule', () => {
+  test('pins a rule without DTSTART to the next local minute', () => {
+    const now = new Date('2026-03-10T14:05:30.500Z');
+    expect(anchorRrule('FREQ=DAILY;COUNT=5', 'Europe/Berlin', now)).toBe(
+      'DTSTART:20260310T150600\nRRULE:FREQ=DAILY;COUNT=5'
+    );
+  });
+
+  test('moves on a minute even when now is on the minute', () => {
+    const now = new Date('2026-03-10T14:05:00.000Z');
+    expect(anchorRrule('RRULE:FREQ=HOURLY', 'UTC', now)).toBe('DTSTART:20260310T140600\nRRULE:FREQ=HOURLY');
+  });
+
+  test('keeps an explicit DTSTART', () => {
+    const rule = 'DTSTART:20261020T080000\nRRULE:FREQ=WEEKLY;BYDAY=MO';
+    expect(anchorRrule(rule, 'UTC', new Date('2026-10-01T00:00:00Z'))).toBe(rule);
+  });
+});
+
+describe('rruleLimits', () => {
+  test('COUNT without DTSTART leaves every run, the first included', () => {
+    const now = new Date('2026-03-10T14:05:30Z');
+    const rule = anchorRrule('FREQ=DAILY;COUNT=5', 'UTC', now);
+
+    expect(rruleLimits(rule, 'UTC', now)).toEqual({ maxRuns: 5 });
+    expect(iso(nextFireTimes('rrule', rule, 'UTC', { now, count: 10, maxRuns: 5 }))).toEqual([
+      '2026-03-10T14:06:00.000Z',
+      '2026-03-11T14:06:00.000Z',
+      '2026-03-12T14:06:00.000Z',
+      '2026-03-13T14:06:00.000Z',
+      '2026-03-14T14:06:00.000Z'
+    ]);
+  });
+
+  test('counts only the runs left after now', () => {
+    const rule = 'DTSTART:20260301T090000\nRRULE:FREQ=DAILY;COUNT=5';
+    expect(rruleLimits(rule, 'UTC', new Date('2026-03-03T10:00:00Z'))).toEqual({ maxRuns: 2 });
+  });
+
+  test('reads UNTIL as a local time in the zone', () => {
+    const rule = 'DTSTART:20260301T090000\nRRULE:FREQ=DAILY;UNTIL=20260310T090000';
+    expect(rruleLimits(rule, 'America/New_York', new Date('2026-03-01T00:00:00Z')).endAt?.toISOString())
+      .toBe('2026-03-10T13:00:00.000Z');
+  });
+
+  test('rejects DTSTART with a zone', () => {
+    expect(() => rruleLimits('DTSTART:20260301T090000Z\nRRULE:FREQ=DAILY', 'UTC')).toThrow(/local time/);
+  });
+});
+
+describe('nextFireTimes', () => {
+  test('keeps a daily cron at 9am local time across a DST change', () => {
+    const now = new Date('2026-03-07T12:00:00Z');
+    expect(iso(nextFireTimes('cron', '0 9 * * *', 'America/New_York', { now }))).toEqual([
+      '2026-03-07T14:00:00.000Z',
+      '2026-03-08T13:00:00.000Z',
+      '2026-03-09T13:00:00.000Z'
+    ]);
+  });
+
+  test('fires a cron in a spring-forward gap just after the jump', () => {
+    const now = new Date('2026-03-08T05:00:00Z');
+    expect(iso(nextFireTimes('cron', '30 2 * * *', 'America/New_York', { now, count: 1 }))).toEqual([
+      '2026-03-08T07:30:00.000Z'
+    ]);
+  });
+
+  test('stops at maxRuns and endAt', () => {
+    const now = new Date('2026-01-01T00:00:00Z');
+    expect(nextFireTimes('interval', '3600000', 'UTC', { now, count: 5, maxRuns: 2 })).toHaveLength(2);
+    expect(nextFireTimes('interval', '3600000', 'UTC', { now, count: 5, endAt: new Date('2026-01-01T03:00:00Z') }))
+      .toHaveLength(3);
+  });
+
+  test('never fires triggers on a clock', () => {
+    expect(nextFireTimes('trigger', 'task-1', 'UTC')).toEqual([]);
+  });
+
+  test('rejects a once time in the past', () => {
+    expect(() => nextFireTimes('once', '2026-01-01T09:00', 'UTC', { now: new Date('2026-06-01T00:00:00Z') }))
+      .toThrow(/in the past/);
+  });
+});
+
+describe('parseLocalDateTime', () => {
+  test('reads wall-clock times in the zone and explicit offsets as given', () => {
+    expect(parseLocalDateTime('2026-07-01T09:00', 'Europe/Berlin').toISOString()).toBe('2026-07-01T07:00:00.000Z');
+    expect(parseLocalDateTime('2026-07-01T09:00:00Z', 'Europe/Berlin').toISOString()).toBe('2026-07-01T09:00:00.000Z');
+  });
+
+  test('takes the first of a repeated time and rejects a skipped one', () => {
+    expect(parseLocalDateTime('2026-11-01T01:30', 'America/New_York').toISOString()).toBe('2026-11-01T05:30:00.000Z');
+    expect(() => parseLocalDateTime('2026-03-08T02:30', 'America/New_York')).toThrow(/does not exist/);
+  });
+
+  test('rejects dates that do not exist', () => {
+    expect(() => parseLocalDateTime('2026-02-30T09:00', 'UTC')).toThrow(/not a real date/);
+  });
+});
+
+describe('isValidTimeZone', () => {
+  test('accepts IANA names only', () => {
+    expect(isValidTimeZone('Asia/Kolkata')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+  });
+});
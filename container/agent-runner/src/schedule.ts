@@ -0,0 +1,244 @@
+/**
+ * Timezone-aware schedule resolution for Guardian Core
+ * Cron expressions, RRULEs and `once` wall-clock times are read in the task's
+ * IANA zone, so a "9am" reminder stays at 9am local time across DST changes.
+ */
+
+import type { ScheduleType } from '@guardian/shared';
+import { CronExpressionParser } from 'cron-parser';
+import { RRuleSet, rrulestr } from 'rrule';
+
+export const DEFAULT_TIMEZONE = 'UTC';
+export const PREVIEW_COUNT = 3;
+
+const HOUR_MS = 60 * 60 * 1000;
+const LOCAL_DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/;
+const EXPLICIT_OFFSET_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/i;
+// Safety stop for rules whose occurrences all fall in the past or in DST gaps
+const MAX_RRULE_STEPS = 1000;
+
+export interface ScheduleOptions {
+  count?: number;
+  now?: Date;
+  /** Occurrences beyond this many are dropped. */
+  maxRuns?: number;
+  /** Occurrences after this instant are dropped. */
+  endAt?: Date;
+}
+
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Offset of `timezone` from UTC at `instant`, in milliseconds. */
+function zoneOffsetMs(instant: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit'
+  }).formatToParts(new Date(instant));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Instants whose local time in `timezone` is `wall` (a UTC-encoded wall-clock
+ * time), earliest first: none inside a spring-forward gap, two inside a
+ * fall-back overlap. The offsets either side of any nearby transition are the
+ * only candidates.
+ */
+function wallTimeInstants(wall: number, timezone: string): number[] {
+  const before = wall - zoneOffsetMs(wall - 12 * HOUR_MS, timezone);
+  const after = wall - zoneOffsetMs(wall + 12 * HOUR_MS, timezone);
+  return [...new Set([before, after])]
+    .filter(instant => wall - instant === zoneOffsetMs(instant, timezone))
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Resolve a wall-clock time (`2026-02-01T15:30[:00]`) in `timezone` to an
+ * instant. Values with `Z` or an explicit offset are taken as absolute. A time
+ * repeated by a DST fall-back resolves to its first occurrence; one skipped by
+ * a spring-forward is rejected.
+ */
+export function parseLocalDateTime(value: string, timezone: string): Date {
+  if (EXPLICIT_OFFSET_PATTERN.test(value)) {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) throw new Error(`Invalid timestamp: "${value}"`);
+    return date;
+  }
+
+  const match = LOCAL_DATE_TIME_PATTERN.exec(value);
+  if (!match) {
+    throw new Error(`Invalid timestamp: "${value}". Use local time like "2026-02-01T15:30:00".`);
+  }
+  const [year, month, day, hour, minute, second = 0] = match.slice(1).map(n => Number(n ?? 0));
+  const wall = Date.UTC(year, month - 1, day, hour, minute, second);
+  const check = new Date(wall);
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day || hour > 23 || minute > 59 || second > 59) {
+    throw new Error(`Invalid timestamp: "${value}" is not a real date and time.`);
+  }
+
+  const candidates = wallTimeInstants(wall, timezone);
+  if (candidates.length === 0) {
+    throw new Error(`"${value}" does not exist in ${timezone} (clocks skip forward at that time). Pick another time.`);
+  }
+  return new Date(candidates[0]);
+}
+
+/** Skipped (spring-forward) wall times resolve to the same distance past the jump. */
+function resolveWallTime(wall: number, timezone: string): number {
+  return wallTimeInstants(wall, timezone)[0] ?? wall - zoneOffsetMs(wall - 12 * HOUR_MS, timezone);
+}
+
+function wallClock(instant: number, timezone: string): number {
+  return instant + zoneOffsetMs(instant, timezone);
+}
+
+/**
+ * Cron is evaluated on wall-clock time and each match resolved in the zone:
+ * times repeated by a fall-back fire once, times skipped by a spring-forward
+ * fire just after the jump, as cron daemons do.
+ */
+function cronFireTimes(value: string, timezone: string, count: number, now: Date): Date[] {
+  const nowWall = wallClock(now.getTime(), timezone);
+  let expression;
+  try {
+    expression = CronExpressionParser.parse(value, { tz: 'UTC', currentDate: new Date(nowWall) });
+  } catch {
+    throw new Error(`Invalid cron: "${value}". Use format like "0 9 * * *" (daily 9am) or "*/5 * * * *" (every 5 min).`);
+  }
+
+  const times: Date[] = [];
+  while (times.length < count && expression.hasNext()) {
+    const instant = resolveWallTime(expression.next().getTime(), timezone);
+    if (instant > now.getTime() && instant > (times.at(-1)?.getTime() ?? 0)) {
+      times.push(new Date(instant));
+    }
+  }
+  return times;
+}
+
+function formatBasic(wall: number): string {
+  return new Date(wall).toISOString().slice(0, 19).replace(/[-:]/g, '');
+}
+
+/**
+ * Pin an RRULE without DTSTART to the next whole minute in `timezone`, so every
+ * later evaluation (including the host's) counts from the same start. The
+ * anchor lies after `now`: its own occurrence still runs and counts toward COUNT.
+ */
+export function anchorRrule(value: string, timezone: string, now: Date = new Date()): string {
+  const lines = value.trim().split(/\r?\n/).map(l => l.trim()).filter(Boolean)
+    .map(l => /^(RRULE|DTSTART|EXDATE|RDATE|EXRULE)[:;]/i.test(l) ? l : `RRULE:${l}`);
+  if (lines.some(l => /^DTSTART/i.test(l))) return lines.join('\n');
+  const nextMinute = (Math.floor(wallClock(now.getTime(), timezone) / 60_000) + 1) * 60_000;
+  return [`DTSTART:${formatBasic(nextMinute)}`, ...lines].join('\n');
+}
+
+function parseRrule(value: string): RRuleSet {
+  if (/TZID=/i.test(value) || /DTSTART:\d{8}T\d{6}Z/i.test(value)) {
+    throw new Error('Give DTSTART as a local time without TZID or Z (e.g. "DTSTART:20261020T080000"); the task timezone applies.');
+  }
+  try {
+    return rrulestr(value, { forceset: true }) as RRuleSet;
+  } catch (err) {
+    throw new Error(`Invalid RRULE: ${err instanceof Error ? err.message : String(err)}. Example: "DTSTART:20261020T080000\nRRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR".`);
+  }
+}
+
+/** RRULE occurrences are floating wall times, resolved in the zone like cron matches. */
+function rruleFireTimes(value: string, timezone: string, count: number, now: Date): Date[] {
+  const rules = parseRrule(value);
+  const times: Date[] = [];
+  let cursor = new Date(wallClock(now.getTime(), timezone) - 12 * HOUR_MS);
+  for (let step = 0; times.length < count && step < MAX_RRULE_STEPS; step++) {
+    const next = rules.after(cursor, false);
+    if (!next) break;
+    cursor = next;
+    const instant = resolveWallTime(next.getTime(), timezone);
+    if (instant > now.getTime() && instant > (times.at(-1)?.getTime() ?? 0)) {
+      times.push(new Date(instant));
+    }
+  }
+  return times;
+}
+
+/**
+ * End conditions an RRULE states itself: the runs COUNT leaves after `now`
+ * and the UNTIL instant. The host enforces them as max_runs and end_at.
+ */
+export function rruleLimits(value: string, timezone: string, now: Date = new Date()): { maxRuns?: number; endAt?: Date } {
+  const rules = parseRrule(value);
+  const limits: { maxRuns?: number; endAt?: Date } = {};
+  for (const rule of rules.rrules()) {
+    if (rule.options.count !== null) {
+      const remaining = rule.all().filter(d => resolveWallTime(d.getTime(), timezone) > now.getTime()).length;
+      limits.maxRuns = Math.min(limits.maxRuns ?? remaining, remaining);
+    }
+    if (rule.options.until) {
+      const until = new Date(resolveWallTime(rule.options.until.getTime(), timezone));
+      limits.endAt = limits.endAt && limits.endAt < until ? limits.endAt : until;
+    }
+  }
+  return limits;
+}
+
+function baseFireTimes(type: ScheduleType, value: string, timezone: string, count: number, now: Date): Date[] {
+  // Triggered tasks run after their upstream, not on a clock
+  if (type === 'trigger') {
+    return [];
+  }
+
+  if (type === 'cron') {
+    return cronFireTimes(value, timezone, count, now);
+  }
+
+  if (type === 'rrule') {
+    return rruleFireTimes(value, timezone, count, now);
+  }
+
+  if (type === 'interval') {
+    const ms = parseInt(value, 10);
+    if (isNaN(ms) || ms <= 0) {
+      throw new Error(`Invalid interval: "${value}". Must be positive milliseconds (e.g., "300000" for 5 min).`);
+    }
+    return Array.from({ length: count }, (_, i) => new Date(now.getTime() + ms * (i + 1)));
+  }
+
+  const at = parseLocalDateTime(value, timezone);
+  if (at.getTime() <= now.getTime()) {
+    throw new Error(`"${value}" in ${timezone} is in the past.`);
+  }
+  return [at];
+}
+
+/**
+ * The next fire times of a schedule (default three), evaluated in `timezone`
+ * and cut off by `maxRuns` and `endAt`. Throws an Error with a message fit
+ * for the agent when the value is invalid.
+ */
+export function nextFireTimes(type: ScheduleType, value: string, timezone: string, options: ScheduleOptions = {}): Date[] {
+  const { count = PREVIEW_COUNT, now = new Date(), maxRuns, endAt } = options;
+  return baseFireTimes(type, value, timezone, count, now)
+    .filter(d => endAt === undefined || d.getTime() <= endAt.getTime())
+    .slice(0, maxRuns ?? count);
+}
+
+/** e.g. `Tue, 20 Oct 2026, 09:00 CEST (2026-10-20T07:00:00.000Z)` */
+export function formatInZone(date: Date, timezone: string): string {
+  const local = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    weekday: 'short', day: 'numeric', month: 'short', year: 'numeric',
+    hour: '2-digit', minute: '2-digit', timeZoneName: 'short'
+  }).format(date);
+  return `${local} (${date.toISOString()})`;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, test } from 'bun:test';
+import { findDependencyCycle, formatTaskTree } from './task-chain.js';
+
+const tasks = [
+  { id: 'a', depends_on: null },
+  { id: 'b', depends_on: 'a' },
+  { id: 'c', depends_on: 'b' }
+];
+
+describe('findDependencyCycle', () => {
+  test('accepts a new task anywhere on an acyclic chain', () => {
+    expect(findDependencyCycle(tasks, null, 'c')).toBeNull();
+    expect(findDependencyCycle(tasks, null, 'missing')).toBeNull();
+  });
+
+  test('accepts re-pointing a task at another branch', () => {
+    expect(findDependencyCycle(tasks, 'c', 'a')).toBeNull();
+  });
+
+  test('reports the loop a change would close, from the task back to itself', () => {
+    expect(findDependencyCycle(tasks, 'a', 'c')).toEqual(['a', 'c', 'b', 'a']);
+    expect(findDependencyCycle(tasks, 'b', 'b')).toEqual(['b', 'b']);
+  });
+
+  test('reports a loop already upstream of a new task', () => {
+    const looped = [{ id: 'x', depends_on: 'y' }, { id: 'y', depends_on: 'x' }];
+    expect(findDependencyCycle(looped, null, 'x')).toEqual(['x', 'y', 'x']);
+  });
+});
+
+describe('formatTaskTree', () => {
+  test('indents triggered tasks under their upstream', () => {
+    const list = [...tasks, { id: 'd', depends_on: 'a' }, { id: 'e', depends_on: 'gone' }];
+    expect(formatTaskTree(list, t => t.id)).toBe(['- a', '  ↳ b', '    ↳ c', '  ↳ d', '- e'].join('\n'));
+  });
+
+  test('lists tasks on a loop flat instead of dropping them', () => {
+    const looped = [{ id: 'x', depends_on: 'y' }, { id: 'y', depends_on: 'x' }];
+    expect(formatTaskTree(looped, t => t.id)).toBe(['- x', '  ↳ y'].join('\n'));
+  });
+});
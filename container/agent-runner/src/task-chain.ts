@@ -0,0 +1,63 @@
+/**
+ * Task chains for Guardian Core
+ * `trigger` tasks run after their `depends_on` task; these helpers keep the
+ * chains acyclic and lay them out as trees for list_tasks.
+ */
+
+export interface ChainTask {
+  id: string;
+  depends_on?: string | null;
+}
+
+/**
+ * The loop closed by making `taskId` depend on `dependsOn`, as task IDs from
+ * `taskId` back to itself, or null. A task being created has no ID yet
+ * (`taskId` null) and can only hit a loop already present upstream.
+ */
+export function findDependencyCycle(tasks: readonly ChainTask[], taskId: string | null, dependsOn: string): string[] | null {
+  const upstreamOf = new Map(tasks.map(t => [t.id, t.depends_on ?? null]));
+  if (taskId !== null) upstreamOf.set(taskId, dependsOn);
+
+  const path = taskId !== null ? [taskId] : [];
+  const seen = new Set(path);
+  let current: string | null = dependsOn;
+  while (current !== null) {
+    if (seen.has(current)) {
+      return [...path.slice(path.indexOf(current)), current];
+    }
+    seen.add(current);
+    path.push(current);
+    current = upstreamOf.get(current) ?? null;
+  }
+  return null;
+}
+
+/**
+ * One line per task, with triggered tasks indented under their upstream.
+ * Tasks whose upstream is not listed start their own tree.
+ */
+export function formatTaskTree<T extends ChainTask>(tasks: readonly T[], format: (task: T) => string): string {
+  const ids = new Set(tasks.map(t => t.id));
+  const children = new Map<string, T[]>();
+  for (const task of tasks) {
+    if (task.depends_on && ids.has(task.depends_on)) {
+      children.set(task.depends_on, [...(children.get(task.depends_on) ?? []), task]);
+    }
+  }
+
+  const lines: string[] = [];
+  const visited = new Set<string>();
+  const visit = (task: T, depth: number) => {
+    if (visited.has(task.id)) return;
+    visited.add(task.id);
+    lines.push(depth === 0 ? `- ${format(task)}` : `${'  '.repeat(depth)}↳ ${format(task)}`);
+    for (const child of children.get(task.id) ?? []) visit(child, depth + 1);
+  };
+
+  for (const task of tasks) {
+    if (!task.depends_on || !ids.has(task.depends_on)) visit(task, 0);
+  }
+  // Tasks left over sit on a loop; list them flat rather than drop them
+  for (const task of tasks) visit(task, 0);
+  return lines.join('\n');
+}
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pruneTemplateStore, recordTemplates, restoreTemplate, templateHistory } from './template-store.js';
+import { sha256 } from './templates.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'template-store-test-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const write = (file: string, content: string) => fs.writeFileSync(path.join(dir, file), content);
+const objects = () => fs.readdirSync(path.join(dir, '_templates', 'objects')).sort();
+
+function writeHistory(versions: { file: string; content: string; recordedAt: string; pinned?: boolean }[]): void {
+  fs.mkdirSync(path.join(dir, '_templates', 'objects'), { recursive: true });
+  for (const v of versions) {
+    fs.writeFileSync(path.join(dir, '_templates', 'objects', sha256(v.content)), v.content);
+  }
+  const history = versions.map(({ content, ...v }) => ({ ...v, sha256: sha256(content) }));
+  fs.writeFileSync(path.join(dir, '_templates', 'history.json'), JSON.stringify({ versions: history }));
+}
+
+describe('recordTemplates', () => {
+  test('records changed files once and shares blobs between identical versions', () => {
+    write('SOUL.md', 'v1');
+    write('BOOT.md', 'v1');
+
+    expect(recordTemplates(dir, ['SOUL.md', 'BOOT.md', 'MISSING.md'])).toEqual(['SOUL.md', 'BOOT.md']);
+    expect(recordTemplates(dir, ['SOUL.md', 'BOOT.md'])).toEqual([]);
+
+    write('SOUL.md', 'v2');
+    expect(recordTemplates(dir, ['SOUL.md', 'BOOT.md'])).toEqual(['SOUL.md']);
+
+    expect(templateHistory(dir, 'SOUL.md').map(v => v.sha256)).toEqual([sha256('v2'), sha256('v1')]);
+    expect(objects()).toEqual([sha256('v1'), sha256('v2')].sort());
+  });
+});
+
+describe('pruneTemplateStore', () => {
+  test('keeps the last changes, the newest per recent day and pins, and drops orphaned blobs', () => {
+    writeHistory([
+      { file: 'SOUL.md', content: 'old', recordedAt: '2026-01-01T08:00:00Z' },
+      { file: 'SOUL.md', content: 'pinned', recordedAt: '2026-01-02T08:00:00Z', pinned: true },
+      { file: 'SOUL.md', content: 'morning', recordedAt: '2026-03-01T08:00:00Z' },
+      { file: 'SOUL.md', content: 'evening', recordedAt: '2026-03-01T20:00:00Z' },
+      { file: 'SOUL.md', content: 'latest', recordedAt: '2026-03-02T08:00:00Z' }
+    ]);
+
+    const removed = pruneTemplateStore(dir, { keepLast: 1, dailyDays: 7 }, new Date('2026-03-03T00:00:00Z'));
+
+    expect(removed).toBe(2);
+    expect(templateHistory(dir).map(v => v.recordedAt)).toEqual([
+      '2026-03-02T08:00:00Z',
+      '2026-03-01T20:00:00Z',
+      '2026-01-02T08:00:00Z'
+    ]);
+    expect(objects()).toEqual([sha256('latest'), sha256('evening'), sha256('pinned')].sort());
+  });
+});
+
+describe('restoreTemplate', () => {
+  test('writes the version back, records it as newest and can pin it', () => {
+    write('SOUL.md', 'v1');
+    recordTemplates(dir, ['SOUL.md']);
+    write('SOUL.md', 'v2');
+    recordTemplates(dir, ['SOUL.md']);
+
+    const restored = restoreTemplate(dir, 'SOUL.md', sha256('v1').slice(0, 8), true);
+
+    expect(fs.readFileSync(path.join(dir, 'SOUL.md'), 'utf-8')).toBe('v1');
+    expect(restored).toMatchObject({ file: 'SOUL.md', sha256: sha256('v1'), pinned: true });
+    expect(templateHistory(dir, 'SOUL.md').map(v => [v.sha256, v.pinned === true])).toEqual([
+      [sha256('v1'), true],
+      [sha256('v2'), false],
+      [sha256('v1'), true]
+    ]);
+  });
+
+  test('refuses unknown versions and corrupted blobs', () => {
+    write('SOUL.md', 'v1');
+    recordTemplates(dir, ['SOUL.md']);
+
+    expect(() => restoreTemplate(dir, 'SOUL.md', 'ffffffff')).toThrow(/No recorded version/);
+
+    fs.writeFileSync(path.join(dir, '_templates', 'objects', sha256('v1')), 'tampered');
+    expect(() => restoreTemplate(dir, 'SOUL.md', sha256('v1').slice(0, 8))).toThrow(/corrupted/);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Content-addressed template history for Guardian Core
+ * Each distinct version of a template file is stored once as a blob named by
+ * its SHA-256; a history index records when each file changed. Retention keeps
+ * the last N changes, one version per day for a window of days, and pins.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { sha256 } from './templates.js';
+
+const STORE_DIR = '_templates';
+const OBJECTS_DIR = 'objects';
+const HISTORY_FILE = 'history.json';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TemplateVersion {
+  file: string;
+  sha256: string;
+  recordedAt: string;
+  pinned?: boolean;
+}
+
+interface TemplateHistory {
+  versions: TemplateVersion[];
+}
+
+export interface RetentionPolicy {
+  /** Most recent changes kept per file. */
+  keepLast: number;
+  /** Newest version of each day kept for this many days. */
+  dailyDays: number;
+}
+
+export const DEFAULT_RETENTION: RetentionPolicy = { keepLast: 20, dailyDays: 30 };
+
+function storeDir(groupDir: string): string {
+  return path.join(groupDir, STORE_DIR);
+}
+
+function objectPath(groupDir: string, hash: string): string {
+  return path.join(storeDir(groupDir), OBJECTS_DIR, hash);
+}
+
+function readHistory(groupDir: string): TemplateHistory {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(storeDir(groupDir), HISTORY_FILE), 'utf-8'));
+  } catch {
+    return { versions: [] };
+  }
+}
+
+function writeHistory(groupDir: string, history: TemplateHistory): void {
+  const historyPath = path.join(storeDir(groupDir), HISTORY_FILE);
+  const tempPath = `${historyPath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(history, null, 2) + '\n');
+  fs.renameSync(tempPath, historyPath);
+}
+
+/**
+ * Record the current content of each file, writing a blob only when the file
+ * changed since its last recorded version. Returns the files that changed.
+ */
+export function recordTemplates(groupDir: string, files: string[]): string[] {
+  const history = readHistory(groupDir);
+  const changed: string[] = [];
+
+  fs.mkdirSync(path.join(storeDir(groupDir), OBJECTS_DIR), { recursive: true });
+  for (const file of files) {
+    const src = path.join(groupDir, file);
+    if (!fs.existsSync(src)) continue;
+
+    const content = fs.readFileSync(src);
+    const hash = sha256(content);
+    const latest = history.versions.filter(v => v.file === file).at(-1);
+    if (latest?.sha256 === hash) continue;
+
+    const blob = objectPath(groupDir, hash);
+    if (!fs.existsSync(blob)) fs.writeFileSync(blob, content);
+    history.versions.push({ file, sha256: hash, recordedAt: new Date().toISOString() });
+    changed.push(file);
+  }
+
+  if (changed.length > 0) writeHistory(groupDir, history);
+  return changed;
+}
+
+/**
+ * Drop versions outside the retention policy, then delete blobs no version
+ * references. Returns the number of versions removed.
+ */
+export function pruneTemplateStore(
+  groupDir: string,
+  policy: RetentionPolicy = DEFAULT_RETENTION,
+  now: Date = new Date()
+): number {
+  const history = readHistory(groupDir);
+  const keep = new Set<TemplateVersion>();
+
+  for (const file of new Set(history.versions.map(v => v.file))) {
+    const versions = history.versions.filter(v => v.file === file);
+    for (const v of versions.slice(-policy.keepLast)) keep.add(v);
+
+    // Versions are in recording order, so the last one seen per day wins
+    const newestPerDay = new Map<string, TemplateVersion>();
+    for (const v of versions) {
+      if (now.getTime() - Date.parse(v.recordedAt) <= policy.dailyDays * DAY_MS) {
+        newestPerDay.set(v.recordedAt.slice(0, 10), v);
+      }
+    }
+    for (const v of newestPerDay.values()) keep.add(v);
+  }
+  for (const v of history.versions) {
+    if (v.pinned) keep.add(v);
+  }
+
+  const removed = history.versions.length - keep.size;
+  if (removed === 0) return 0;
+
+  history.versions = history.versions.filter(v => keep.has(v));
+  writeHistory(groupDir, history);
+
+  const referenced = new Set(history.versions.map(v => v.sha256));
+  const objectsDir = path.join(storeDir(groupDir), OBJECTS_DIR);
+  for (const blob of fs.readdirSync(objectsDir)) {
+    if (!referenced.has(blob)) fs.unlinkSync(path.join(objectsDir, blob));
+  }
+
+  return removed;
+}
+
+/** Recorded versions, newest first, optionally for one file. */
+export function templateHistory(groupDir: string, file?: string): TemplateVersion[] {
+  return readHistory(groupDir).versions
+    .filter(v => file === undefined || v.file === file)
+    .reverse();
+}
+
+/**
+ * Find a recorded version of `file` by hash prefix. Throws when the prefix
+ * matches no version or more than one distinct hash.
+ */
+function findVersion(history: TemplateHistory, file: string, hashPrefix: string): TemplateVersion {
+  const matches = history.versions.filter(v => v.file === file && v.sha256.startsWith(hashPrefix));
+  const hashes = new Set(matches.map(v => v.sha256));
+  if (hashes.size === 0) throw new Error(`No recorded version ${hashPrefix} of ${file}`);
+  if (hashes.size > 1) throw new Error(`Version prefix ${hashPrefix} is ambiguous for ${file}`);
+  return matches[matches.length - 1];
+}
+
+/**
+ * Write a recorded version back to the live file and record the rollback as
+ * the newest version. `pin` keeps it through retention.
+ */
+export function restoreTemplate(groupDir: string, file: string, hashPrefix: string, pin = false): TemplateVersion {
+  const history = readHistory(groupDir);
+  const version = findVersion(history, file, hashPrefix);
+
+  const content = fs.readFileSync(objectPath(groupDir, version.sha256));
+  if (sha256(content) !== version.sha256) {
+    throw new Error(`Stored blob for ${file}@${version.sha256.slice(0, 8)} is corrupted`);
+  }
+  fs.writeFileSync(path.join(groupDir, file), content);
+
+  if (pin) {
+    for (const v of history.versions) {
+      if (v.sha256 === version.sha256 && v.file === file) v.pinned = true;
+    }
+  }
+  const restored: TemplateVersion = { file, sha256: version.sha256, recordedAt: new Date().toISOString(), pinned: pin || undefined };
+  history.versions.push(restored);
+  writeHistory(groupDir, history);
+
+  return restored;
+}
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { TemplateManifest } from '@guardian/shared';
+import { createEd25519Verifier, readManifest, sha256, verifyTemplates } from './templates.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'templates-test-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const write = (file: string, content: string) => {
+  fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+  fs.writeFileSync(path.join(dir, file), content);
+};
+const read = (file: string) => fs.readFileSync(path.join(dir, file), 'utf-8');
+
+/** Seal like the host: verified copies plus `_integrity/manifest.json`. */
+function seal(files: Record<string, string>, sign?: crypto.KeyObject): TemplateManifest {
+  const hashes: Record<string, string> = {};
+  for (const [file, content] of Object.entries(files)) {
+    write(file, content);
+    write(path.join('_integrity', 'verified', file), content);
+    hashes[file] = sha256(content);
+  }
+  let manifest: TemplateManifest = { version: 1, sealedAt: '2026-01-01T00:00:00.000Z', files: hashes };
+  if (sign) {
+    const sorted = Object.keys(hashes).sort().map(f => [f, hashes[f]]);
+    const payload = JSON.stringify({ version: 1, sealedAt: manifest.sealedAt, files: sorted });
+    manifest = { ...manifest, algorithm: 'ed25519', signature: crypto.sign(null, Buffer.from(payload), sign).toString('base64') };
+  }
+  write(path.join('_integrity', 'manifest.json'), JSON.stringify(manifest));
+  return manifest;
+}
+
+describe('verifyTemplates', () => {
+  test('restores drifted and deleted files from their verified copies', () => {
+    seal({ 'SOUL.md': 'soul', 'BOOT.md': 'boot' });
+    write('SOUL.md', 'evil');
+    fs.rmSync(path.join(dir, 'BOOT.md'));
+
+    const result = verifyTemplates(dir, ['SOUL.md', 'BOOT.md'], null);
+    expect(result.manifestValid).toBe(true);
+    expect(result.tampered.map(t => [t.file, t.restored])).toEqual([['SOUL.md', true], ['BOOT.md', true]]);
+    expect(read('SOUL.md')).toBe('soul');
+    expect(read('BOOT.md')).toBe('boot');
+  });
+
+  test('reports every file and restores none when the signature does not verify', () => {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+    const raw = publicKey.export({ format: 'jwk' }).x as string;
+    const verifier = createEd25519Verifier(Buffer.from(raw, 'base64url').toString('base64'));
+    const manifest = seal({ 'SOUL.md': 'soul' }, privateKey);
+    expect(verifyTemplates(dir, ['SOUL.md'], verifier).tampered).toEqual([]);
+
+    write('SOUL.md', 'evil');
+    write(path.join('_integrity', 'manifest.json'), JSON.stringify({ ...manifest, files: { 'SOUL.md': sha256('evil') } }));
+
+    const result = verifyTemplates(dir, ['SOUL.md'], verifier);
+    expect(result.manifestValid).toBe(false);
+    expect(result.tampered).toEqual([
+      { file: 'SOUL.md', expectedSha256: sha256('evil'), actualSha256: sha256('evil'), restored: false }
+    ]);
+    expect(read('SOUL.md')).toBe('evil');
+  });
+
+  test('checks against the host record, not a rewritten group manifest', () => {
+    const record = seal({ 'SOUL.md': 'soul' });
+
+    // Rewriting the file, its verified copy and the manifest together vouches for nothing
+    write('SOUL.md', 'evil');
+    write(path.join('_integrity', 'verified', 'SOUL.md'), 'evil');
+    write(path.join('_integrity', 'manifest.json'), JSON.stringify({ ...record, files: { 'SOUL.md': sha256('evil') } }));
+
+    const result = verifyTemplates(dir, ['SOUL.md'], null, record);
+    expect(result).toEqual({
+      manifestMissing: false,
+      manifestValid: false,
+      tampered: [{ file: 'SOUL.md', expectedSha256: sha256('soul'), actualSha256: sha256('evil'), restored: false }]
+    });
+    expect(readManifest(dir)).toEqual(record);
+  });
+
+  test('restores a deleted manifest and the files from the host record', () => {
+    const record = seal({ 'SOUL.md': 'soul' });
+    write('SOUL.md', 'evil');
+    fs.rmSync(path.join(dir, '_integrity', 'manifest.json'));
+
+    const result = verifyTemplates(dir, ['SOUL.md'], null, record);
+    expect(result.manifestMissing).toBe(true);
+    expect(result.tampered.map(t => [t.file, t.restored])).toEqual([['SOUL.md', true]]);
+    expect(read('SOUL.md')).toBe('soul');
+    expect(readManifest(dir)).toEqual(record);
+  });
+
+  test('reports files missing from the manifest without touching them', () => {
+    const record = seal({ 'SOUL.md': 'soul' });
+    write('IDENTITY.md', 'new');
+
+    const result = verifyTemplates(dir, ['SOUL.md', 'IDENTITY.md'], null, record);
+    expect(result.manifestValid).toBe(true);
+    expect(result.tampered).toEqual([
+      { file: 'IDENTITY.md', expectedSha256: null, actualSha256: sha256('new'), restored: false }
+    ]);
+    expect(read('IDENTITY.md')).toBe('new');
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Template file integrity for Guardian Core
+ * The host seals persona and policy files into a per-group manifest of
+ * SHA-256 hashes, signed with its ed25519 key when one is configured; the
+ * container only holds the public key. The host also keeps its own record
+ * of each manifest outside the project root and sends it with every run,
+ * so the copy in the group folder is checked against it rather than trusted.
+ * Files that drift from the manifest are restored from the last verified
+ * copy and reported to the host.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { TemplateManifest, TemplateTamperFile } from '@guardian/shared';
+
+/** Files injected into the prompt when no PROMPT.json says otherwise, in order. */
+export const PROMPT_FILES = ['SOUL.md', 'IDENTITY.md', 'USER.md', 'TOOLS.md', 'HEARTBEAT.md', 'BOOT.md', 'VOICE_PROMPT.md', 'THREAT_MODEL.json'];
+
+/**
+ * Memory the agent keeps up to date itself (after phone calls, on BOOT.md
+ * checks). Injected like templates but never sealed, so its edits are not
+ * reverted as tampering.
+ */
+export const MEMORY_FILES = ['USER.md', 'TOOLS.md', 'HEARTBEAT.md'];
+
+/** Persona and policy files sealed against the manifest. */
+export const TEMPLATE_FILES = PROMPT_FILES.filter(file => !MEMORY_FILES.includes(file));
+
+const INTEGRITY_DIR = '_integrity';
+const MANIFEST_FILE = 'manifest.json';
+const VERIFIED_DIR = 'verified';
+
+export interface ManifestVerifier {
+  algorithm: 'ed25519';
+  verify: (payload: string, signature: string) => boolean;
+}
+
+export interface VerifyResult {
+  /** True when the manifest is gone; without the host's record every file is then reported and none restored. */
+  manifestMissing: boolean;
+  /** False when the manifest is missing, forged or differs from the host's record. */
+  manifestValid: boolean;
+  tampered: TemplateTamperFile[];
+}
+
+export function sha256(content: Buffer | string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/** `publicKey` is the raw 32-byte ed25519 key, base64-encoded (ContainerInput.templatePublicKey). */
+export function createEd25519Verifier(publicKey: string): ManifestVerifier {
+  const key = crypto.createPublicKey({
+    key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(publicKey, 'base64').toString('base64url') },
+    format: 'jwk'
+  });
+  return {
+    algorithm: 'ed25519',
+    verify: (payload, signature) => crypto.verify(null, Buffer.from(payload), key, Buffer.from(signature, 'base64'))
+  };
+}
+
+// Must match the host's signing payload byte for byte
+function signingPayload(manifest: TemplateManifest): string {
+  const files = Object.keys(manifest.files).sort().map(f => [f, manifest.files[f]]);
+  return JSON.stringify({ version: manifest.version, sealedAt: manifest.sealedAt, files });
+}
+
+function manifestPath(groupDir: string): string {
+  return path.join(groupDir, INTEGRITY_DIR, MANIFEST_FILE);
+}
+
+function verifiedPath(groupDir: string, file: string): string {
+  return path.join(groupDir, INTEGRITY_DIR, VERIFIED_DIR, file);
+}
+
+export function readManifest(groupDir: string): TemplateManifest | null {
+  try {
+    return JSON.parse(fs.readFileSync(manifestPath(groupDir), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+function manifestValid(manifest: TemplateManifest, verifier: ManifestVerifier | null): boolean {
+  if (!verifier) return true;
+  if (manifest.algorithm !== verifier.algorithm || !manifest.signature) return false;
+  try {
+    return verifier.verify(signingPayload(manifest), manifest.signature);
+  } catch {
+    return false;
+  }
+}
+
+/** Every existing file, reported as unverifiable and left in place. */
+function reportAll(groupDir: string, files: string[], manifest: TemplateManifest | null): TemplateTamperFile[] {
+  return files
+    .filter(file => fs.existsSync(path.join(groupDir, file)))
+    .map(file => ({
+      file,
+      expectedSha256: manifest?.files[file] ?? null,
+      actualSha256: sha256(fs.readFileSync(path.join(groupDir, file))),
+      restored: false
+    }));
+}
+
+function sameManifest(a: TemplateManifest, b: TemplateManifest): boolean {
+  return signingPayload(a) === signingPayload(b) && a.algorithm === b.algorithm && a.signature === b.signature;
+}
+
+function restoreManifest(groupDir: string, manifest: TemplateManifest): void {
+  try {
+    fs.mkdirSync(path.dirname(manifestPath(groupDir)), { recursive: true });
+    fs.writeFileSync(manifestPath(groupDir), JSON.stringify(manifest, null, 2) + '\n');
+  } catch {
+    // Read-only layers keep the drifted copy; the report still names it
+  }
+}
+
+function restoreVerified(groupDir: string, file: string, expected: string): boolean {
+  try {
+    const content = fs.readFileSync(verifiedPath(groupDir, file));
+    if (sha256(content) !== expected) return false;
+    fs.writeFileSync(path.join(groupDir, file), content);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check every template against the manifest, restoring drifted or deleted
+ * files from their verified copy. Files absent from the manifest are reported
+ * but left in place; callers should not trust them. The host seals a group
+ * before its first run, so a missing manifest is tampering too.
+ *
+ * With the host's `record` the group's manifest only has to match it: the
+ * record is what files are checked against, and a missing or altered group
+ * manifest is rewritten from it.
+ */
+export function verifyTemplates(
+  groupDir: string,
+  files: string[],
+  verifier: ManifestVerifier | null,
+  record: TemplateManifest | null = null
+): VerifyResult {
+  const manifest = readManifest(groupDir);
+  if (record) {
+    const matches = manifest !== null && sameManifest(manifest, record);
+    if (!matches) restoreManifest(groupDir, record);
+    return { manifestMissing: !manifest, manifestValid: matches, tampered: checkFiles(groupDir, files, record) };
+  }
+
+  if (!manifest) {
+    return { manifestMissing: true, manifestValid: false, tampered: reportAll(groupDir, files, null) };
+  }
+
+  // A forged manifest vouches for nothing: report every file, restore none
+  if (!manifestValid(manifest, verifier)) {
+    return { manifestMissing: false, manifestValid: false, tampered: reportAll(groupDir, files, manifest) };
+  }
+
+  return { manifestMissing: false, manifestValid: true, tampered: checkFiles(groupDir, files, manifest) };
+}
+
+function checkFiles(groupDir: string, files: string[], manifest: TemplateManifest): TemplateTamperFile[] {
+  const tampered: TemplateTamperFile[] = [];
+  for (const file of files) {
+    const filePath = path.join(groupDir, file);
+    const expected = manifest.files[file] ?? null;
+    const actual = fs.existsSync(filePath) ? sha256(fs.readFileSync(filePath)) : null;
+    if (actual === expected) continue;
+
+    const restored = expected !== null && restoreVerified(groupDir, file, expected);
+    tampered.push({ file, expectedSha256: expected, actualSha256: actual, restored });
+  }
+  return tampered;
+}
@@ -0,0 +1,269 @@
+/**
+ * Tool call guard for Guardian Core
+ * PreToolUse/PostToolUse hooks that enforce the `enforcement` rules of the
+ * group's THREAT_MODEL.json and hand every tool call, redacted, to an audit
+ * sink. The runner forwards entries to the host on stdout, so the agent
+ * cannot edit the trail.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { HookCallback, PostToolUseHookInput, PreToolUseHookInput } from '@anthropic-ai/claude-agent-sdk';
+import type { Redactor, ThreatModelEnforcement } from '@guardian/shared';
+import { decodeThreatModel } from '@guardian/shared';
+
+const GROUP_DIR = '/workspace/group';
+export const THREAT_MODEL_FILE = 'THREAT_MODEL.json';
+
+// Template stores written only by the runner itself
+const PROTECTED_DIRS = ['_integrity', '_templates'];
+const WRITE_TOOLS: Record<string, string> = { Write: 'file_path', Edit: 'file_path', NotebookEdit: 'notebook_path' };
+const BASH_WRITE_PATTERN = />|\btee\b|\bsed\s+(-\w*\s+)*-i|\bmv\b|\bcp\b|\brm\b|\btruncate\b|\bdd\b|\bchmod\b|\bln\b/;
+const URL_HOST_PATTERN = /\bhttps?:\/\/([^/\s'"`:?#]+)/gi;
+// curl and wget take bare hosts (`curl example.com`), so their arguments are
+// read as URLs; these options consume the next argument
+const FETCH_VALUE_OPTIONS: Record<string, Set<string>> = {
+  curl: new Set([
+    '-A', '-b', '-c', '-d', '-e', '-F', '-H', '-K', '-m', '-o', '-r', '-T', '-u', '-w', '-X', '-z',
+    '--cacert', '--cert', '--config', '--connect-timeout', '--cookie', '--cookie-jar', '--data',
+    '--data-binary', '--data-raw', '--data-urlencode', '--form', '--header', '--key', '--max-time',
+    '--output', '--range', '--referer', '--request', '--resolve', '--retry', '--upload-file', '--user',
+    '--user-agent', '--write-out'
+  ]),
+  wget: new Set([
+    '-a', '-e', '-i', '-l', '-o', '-O', '-P', '-Q', '-t', '-T', '-U', '-w',
+    '--header', '--input-file', '--output-document', '--output-file', '--password', '--post-data',
+    '--post-file', '--timeout', '--tries', '--user', '--user-agent'
+  ])
+};
+const SHELL_SEPARATOR = /[;&|()`\n]/;
+const SHELL_WORD = /"[^"]*"|'[^']*'|\S+/g;
+const AUDIT_RESPONSE_PREVIEW = 1000;
+
+export type GuardRule = 'blocked_commands' | 'blocked_domains' | 'allowed_domains' | 'protect_templates';
+
+/** Returned to the agent as the permission denial reason (JSON-encoded). */
+export interface ToolDenial {
+  denied: true;
+  rule: GuardRule;
+  match: string;
+  message: string;
+}
+
+export interface LoadedEnforcement {
+  enforcement: ThreatModelEnforcement | null;
+  error: string | null;
+}
+
+export interface ToolGuardOptions {
+  enforcement: ThreatModelEnforcement | null;
+  /** Template files (relative to the group folder) covered by protect_templates. */
+  protectedFiles: string[];
+  redactor: Redactor;
+  log: (message: string) => void;
+  /** Receives each redacted audit entry; failures are logged, never fatal. */
+  audit: (entry: Record<string, unknown>) => void;
+}
+
+export interface ToolGuardHooks {
+  preToolUse: HookCallback;
+  postToolUse: HookCallback;
+}
+
+export function loadEnforcement(groupDir: string): LoadedEnforcement {
+  const threatModelPath = path.join(groupDir, THREAT_MODEL_FILE);
+  if (!fs.existsSync(threatModelPath)) return { enforcement: null, error: null };
+
+  let json: string;
+  try {
+    json = fs.readFileSync(threatModelPath, 'utf-8');
+  } catch (err) {
+    return { enforcement: null, error: err instanceof Error ? err.message : String(err) };
+  }
+
+  const decoded = decodeThreatModel(json, threatModelPath);
+  return decoded._tag === 'Left'
+    ? { enforcement: null, error: decoded.left.message }
+    : { enforcement: decoded.right.enforcement ?? null, error: null };
+}
+
+function domainMatches(host: string, domain: string): boolean {
+  const h = host.toLowerCase();
+  const d = domain.toLowerCase().replace(/^\*?\./, '');
+  return h === d || h.endsWith(`.${d}`);
+}
+
+/** The host of a URL, with or without a scheme or credentials. */
+function urlHost(url: string): string | null {
+  const withoutScheme = url.replace(/^[a-z][a-z0-9+.-]*:\/\//i, '');
+  const authority = withoutScheme.split(/[/?#]/)[0];
+  const host = authority.slice(authority.lastIndexOf('@') + 1).replace(/:\d*$/, '');
+  return host || null;
+}
+
+/** URL arguments of curl and wget invocations anywhere in a shell command. */
+function fetchCommandHosts(command: string): string[] {
+  const hosts: string[] = [];
+  for (const segment of command.split(SHELL_SEPARATOR)) {
+    const words = (segment.match(SHELL_WORD) ?? []).map(word => word.replace(/^(['"])(.*)\1$/s, '$2'));
+    const start = words.findIndex(word => path.basename(word) in FETCH_VALUE_OPTIONS);
+    if (start === -1) continue;
+
+    const valueOptions = FETCH_VALUE_OPTIONS[path.basename(words[start])];
+    for (let i = start + 1; i < words.length; i++) {
+      const word = words[i];
+      if (valueOptions.has(word)) {
+        i++;
+      } else if (word && !word.startsWith('-')) {
+        const host = urlHost(word);
+        if (host) hosts.push(host);
+      }
+    }
+  }
+  return hosts;
+}
+
+function outboundHosts(toolName: string, input: Record<string, unknown>): string[] {
+  if (toolName === 'WebFetch') {
+    const host = urlHost(String(input.url ?? ''));
+    return host ? [host] : [];
+  }
+  if (toolName !== 'Bash') return [];
+
+  const command = String(input.command ?? '');
+  const hosts = [...command.matchAll(URL_HOST_PATTERN)].map(m => m[1]);
+  return [...new Set([...hosts, ...fetchCommandHosts(command)])];
+}
+
+function isProtectedPath(filePath: string, protectedFiles: string[]): string | null {
+  const resolved = path.resolve(GROUP_DIR, filePath);
+  for (const file of protectedFiles) {
+    if (resolved === path.join(GROUP_DIR, file)) return file;
+  }
+  for (const dir of PROTECTED_DIRS) {
+    const root = path.join(GROUP_DIR, dir);
+    if (resolved === root || resolved.startsWith(`${root}${path.sep}`)) return dir;
+  }
+  return null;
+}
+
+function deny(rule: GuardRule, match: string, message: string): ToolDenial {
+  return { denied: true, rule, match, message };
+}
+
+/**
+ * Check one tool call against the enforcement rules. Returns the first
+ * violated rule, or null when the call may proceed.
+ */
+export function evaluateToolCall(
+  toolName: string,
+  toolInput: unknown,
+  enforcement: ThreatModelEnforcement,
+  protectedFiles: string[]
+): ToolDenial | null {
+  const input = (toolInput && typeof toolInput === 'object' ? toolInput : {}) as Record<string, unknown>;
+
+  if (toolName === 'Bash') {
+    const command = String(input.command ?? '');
+    // Patterns are validated when the threat model is decoded
+    for (const pattern of enforcement.blocked_commands) {
+      if (new RegExp(pattern, 'i').test(command)) {
+        return deny('blocked_commands', pattern, 'This command is blocked by the group threat model.');
+      }
+    }
+  }
+
+  for (const host of outboundHosts(toolName, input)) {
+    const blocked = enforcement.blocked_domains.find(d => domainMatches(host, d));
+    if (blocked) {
+      return deny('blocked_domains', host, `Outbound requests to ${host} are blocked by the group threat model.`);
+    }
+    if (enforcement.allowed_domains && !enforcement.allowed_domains.some(d => domainMatches(host, d))) {
+      return deny('allowed_domains', host, `${host} is not on the group's outbound domain allowlist.`);
+    }
+  }
+
+  if (enforcement.protect_templates) {
+    const pathKey = WRITE_TOOLS[toolName];
+    if (pathKey && typeof input[pathKey] === 'string') {
+      const hit = isProtectedPath(input[pathKey] as string, protectedFiles);
+      if (hit) {
+        return deny('protect_templates', hit, `${hit} is a protected template; ask the owner to change it.`);
+      }
+    }
+
+    // Heuristic: a write-capable command that names a template file
+    if (toolName === 'Bash') {
+      const command = String(input.command ?? '');
+      const named = [...protectedFiles, ...PROTECTED_DIRS].find(f => command.includes(f));
+      if (named && BASH_WRITE_PATTERN.test(command)) {
+        return deny('protect_templates', named, `Commands that may modify ${named} are blocked; ask the owner to change it.`);
+      }
+    }
+  }
+
+  return null;
+}
+
+function responsePreview(response: unknown): string {
+  const text = typeof response === 'string' ? response : JSON.stringify(response) ?? '';
+  return text.length > AUDIT_RESPONSE_PREVIEW ? `${text.slice(0, AUDIT_RESPONSE_PREVIEW)}...` : text;
+}
+
+/**
+ * Hooks that deny calls violating `enforcement` and audit every call.
+ * Audit failures are logged and never block the tool.
+ */
+export function createToolGuardHooks(options: ToolGuardOptions): ToolGuardHooks {
+  const { enforcement, protectedFiles, redactor, log } = options;
+
+  const audit = (entry: Record<string, unknown>) => {
+    try {
+      options.audit(redactor.redactValue(entry).value as Record<string, unknown>);
+    } catch (err) {
+      log(`Tool audit write failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const preToolUse: HookCallback = async (input) => {
+    const pre = input as PreToolUseHookInput;
+    const denial = enforcement ? evaluateToolCall(pre.tool_name, pre.tool_input, enforcement, protectedFiles) : null;
+
+    audit({
+      timestamp: new Date().toISOString(),
+      phase: 'pre',
+      sessionId: pre.session_id,
+      toolUseId: pre.tool_use_id,
+      toolName: pre.tool_name,
+      input: pre.tool_input,
+      decision: denial ? 'deny' : 'allow',
+      ...(denial ? { rule: denial.rule, match: denial.match } : {})
+    });
+
+    if (!denial) return {};
+
+    log(`Denied ${pre.tool_name} (${denial.rule}: ${denial.match})`);
+    return {
+      hookSpecificOutput: {
+        hookEventName: 'PreToolUse',
+        permissionDecision: 'deny',
+        permissionDecisionReason: JSON.stringify(denial)
+      }
+    };
+  };
+
+  const postToolUse: HookCallback = async (input) => {
+    const post = input as PostToolUseHookInput;
+    audit({
+      timestamp: new Date().toISOString(),
+      phase: 'post',
+      sessionId: post.session_id,
+      toolUseId: post.tool_use_id,
+      toolName: post.tool_name,
+      response: responsePreview(post.tool_response)
+    });
+    return {};
+  };
+
+  return { preToolUse, postToolUse };
+}
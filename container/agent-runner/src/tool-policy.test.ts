@@ -0,0 +1,38 @@
+import { describe, expect, test } from 'bun:test';
+import { DEFAULT_ALLOWED_TOOLS, IPC_TOOLS, resolveToolPolicy } from './tool-policy.js';
+
+describe('resolveToolPolicy', () => {
+  test('keeps the defaults without a policy', () => {
+    expect(resolveToolPolicy(undefined)).toEqual({ allowedTools: DEFAULT_ALLOWED_TOOLS, disallowedTools: [] });
+  });
+
+  test('expands globs against the known tools and disallows the rest', () => {
+    const resolved = resolveToolPolicy({ allowed: ['Read', 'Gl?b', 'mcp__guardian_core__*'] });
+
+    expect(resolved.allowedTools).toEqual(['Read', 'Glob', ...IPC_TOOLS]);
+    expect(resolved.tools).toEqual(['Read', 'Glob']);
+    expect(resolved.disallowedTools).toContain('Bash');
+    expect(resolved.disallowedTools).toContain('WebFetch');
+    expect(resolved.disallowedTools).not.toContain('Read');
+  });
+
+  test('lets denials win over allowances', () => {
+    const resolved = resolveToolPolicy({ allowed: ['*'], denied: ['Web*', 'mcp__guardian_core__register_group'] });
+
+    expect(resolved.allowedTools).not.toContain('WebFetch');
+    expect(resolved.allowedTools).not.toContain('mcp__guardian_core__register_group');
+    expect(resolved.allowedTools).toContain('mcp__guardian_core__send_message');
+    expect(resolved.disallowedTools).toEqual(expect.arrayContaining(['WebSearch', 'WebFetch']));
+  });
+
+  test('passes literal denials of unknown tools through, but not unknown globs', () => {
+    const resolved = resolveToolPolicy({ denied: ['mcp__other__delete', 'mcp__other__*'] });
+
+    expect(resolved.disallowedTools).toContain('mcp__other__delete');
+    expect(resolved.disallowedTools).not.toContain('mcp__other__*');
+  });
+
+  test('treats regex characters in patterns literally', () => {
+    expect(resolveToolPolicy({ allowed: ['Rea.'] }).allowedTools).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Tool policy resolution for Guardian Core
+ * Expands a group's allowed/denied tool patterns against the tools this
+ * runner knows about into the SDK's allowedTools/disallowedTools/tools options.
+ */
+
+import type { ToolPolicy } from '@guardian/shared';
+import { IPC_MCP_SERVER, IPC_TOOL_NAMES } from './ipc-mcp.js';
+
+export const BUILT_IN_TOOLS = [
+  'Bash', 'Read', 'Write', 'Edit', 'NotebookEdit', 'Glob', 'Grep',
+  'WebSearch', 'WebFetch', 'Task', 'TodoWrite'
+];
+
+export const IPC_TOOLS = IPC_TOOL_NAMES.map(name => `mcp__${IPC_MCP_SERVER}__${name}`);
+
+export const DEFAULT_ALLOWED_TOOLS = [
+  'Bash',
+  'Read', 'Write', 'Edit', 'Glob', 'Grep',
+  'WebSearch', 'WebFetch',
+  `mcp__${IPC_MCP_SERVER}__*`
+];
+
+export interface ResolvedToolOptions {
+  allowedTools: string[];
+  disallowedTools: string[];
+  /** Built-in tool set; undefined keeps the SDK default. */
+  tools?: string[];
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+}
+
+function matchesAny(tool: string, patterns: readonly string[]): boolean {
+  return patterns.some(p => globToRegExp(p).test(tool));
+}
+
+/**
+ * Without a policy the defaults apply unchanged. With one, every known tool
+ * that is not allowed, or is denied, is disallowed outright, since
+ * bypassPermissions would otherwise let it run.
+ */
+export function resolveToolPolicy(policy: ToolPolicy | undefined): ResolvedToolOptions {
+  if (!policy) {
+    return { allowedTools: DEFAULT_ALLOWED_TOOLS, disallowedTools: [] };
+  }
+
+  const allowed = policy.allowed ?? DEFAULT_ALLOWED_TOOLS;
+  const denied = policy.denied ?? [];
+  const catalog = [...BUILT_IN_TOOLS, ...IPC_TOOLS];
+
+  const permitted = catalog.filter(t => matchesAny(t, allowed) && !matchesAny(t, denied));
+  const blocked = catalog.filter(t => !permitted.includes(t));
+
+  // Literal denials for tools outside the catalog still go to the SDK
+  const extraDenied = denied.filter(p => !/[*?]/.test(p) && !catalog.includes(p));
+
+  return {
+    allowedTools: permitted,
+    disallowedTools: [...blocked, ...extraDenied],
+    tools: permitted.filter(t => BUILT_IN_TOOLS.includes(t))
+  };
+}
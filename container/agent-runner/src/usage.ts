@@ -0,0 +1,22 @@
+/**
+ * Usage accounting for Guardian Core
+ * Converts the SDK result message into ContainerUsage for ContainerOutput;
+ * the host keeps the per-group usage ledger that daily budgets count against.
+ */
+
+import type { SDKResultMessage } from '@anthropic-ai/claude-agent-sdk';
+import type { ContainerUsage } from '@guardian/shared';
+
+export function usageFromResult(message: SDKResultMessage): ContainerUsage {
+  return {
+    inputTokens: message.usage.input_tokens,
+    outputTokens: message.usage.output_tokens,
+    cacheCreationInputTokens: message.usage.cache_creation_input_tokens,
+    cacheReadInputTokens: message.usage.cache_read_input_tokens,
+    costUsd: message.total_cost_usd,
+    numTurns: message.num_turns,
+    durationMs: message.duration_ms,
+    durationApiMs: message.duration_api_ms,
+    models: Object.keys(message.modelUsage)
+  };
+}
@@ -36,12 +36,75 @@ export class ContainerOutputParseError extends Data.TaggedError('ContainerOutput
 	readonly stdout?: string;
 }> {}
 
+export class ContainerInputParseError extends Data.TaggedError('ContainerInputParseError')<{
+	readonly message: string;
+	readonly cause?: unknown;
+}> {}
+
+export class ContainerProtocolVersionError extends Data.TaggedError('ContainerProtocolVersionError')<{
+	readonly requested: number;
+	readonly minSupported: number;
+	readonly maxSupported: number;
+}> {}
+
 export class ContainerExitError extends Data.TaggedError('ContainerExitError')<{
 	readonly group: string;
 	readonly exitCode: number;
 	readonly stderr?: string;
 }> {}
 
+// --- Agent run errors (reported in ContainerOutput.failure) ---
+export class AgentRateLimitError extends Data.TaggedError('AgentRateLimitError')<{
+	readonly message: string;
+}> {}
+
+export class AgentOverloadedError extends Data.TaggedError('AgentOverloadedError')<{
+	readonly message: string;
+}> {}
+
+export class AgentNetworkError extends Data.TaggedError('AgentNetworkError')<{
+	readonly message: string;
+	readonly cause?: unknown;
+}> {}
+
+export class AgentAuthError extends Data.TaggedError('AgentAuthError')<{
+	readonly message: string;
+}> {}
+
+export class AgentBillingError extends Data.TaggedError('AgentBillingError')<{
+	readonly message: string;
+}> {}
+
+export class AgentSessionNotFoundError extends Data.TaggedError('AgentSessionNotFoundError')<{
+	readonly sessionId: string;
+	readonly message: string;
+}> {}
+
+export class AgentInvalidRequestError extends Data.TaggedError('AgentInvalidRequestError')<{
+	readonly message: string;
+}> {}
+
+export class AgentMaxTurnsError extends Data.TaggedError('AgentMaxTurnsError')<{
+	readonly numTurns: number;
+	readonly message: string;
+}> {}
+
+export class AgentExecutionError extends Data.TaggedError('AgentExecutionError')<{
+	readonly message: string;
+	readonly cause?: unknown;
+}> {}
+
+export type AgentRunError =
+	| AgentRateLimitError
+	| AgentOverloadedError
+	| AgentNetworkError
+	| AgentAuthError
+	| AgentBillingError
+	| AgentSessionNotFoundError
+	| AgentInvalidRequestError
+	| AgentMaxTurnsError
+	| AgentExecutionError;
+
 // --- Mount security errors ---
 export class MountAllowlistNotFoundError extends Data.TaggedError('MountAllowlistNotFoundError')<{
 	readonly path: string;
@@ -91,6 +154,19 @@ export class PhoneContactsParseError extends Data.TaggedError('PhoneContactsPars
 	readonly cause?: unknown;
 }> {}
 
+// --- Template errors ---
+export class PromptManifestParseError extends Data.TaggedError('PromptManifestParseError')<{
+	readonly path: string;
+	readonly message: string;
+	readonly cause?: unknown;
+}> {}
+
+export class ThreatModelParseError extends Data.TaggedError('ThreatModelParseError')<{
+	readonly path: string;
+	readonly message: string;
+	readonly cause?: unknown;
+}> {}
+
 // --- IPC errors ---
 export class IpcReadError extends Data.TaggedError('IpcReadError')<{
 	readonly path: string;
@@ -110,6 +186,13 @@ export class IpcAuthorizationError extends Data.TaggedError('IpcAuthorizationErr
 	readonly message: string;
 }> {}
 
+/** The host has no handler for an IPC action; the request was not carried out. */
+export class IpcUnsupportedActionError extends Data.TaggedError('IpcUnsupportedActionError')<{
+	readonly group: string;
+	readonly action: string;
+	readonly message: string;
+}> {}
+
 // --- File I/O errors ---
 export class FileReadError extends Data.TaggedError('FileReadError')<{
 	readonly path: string;
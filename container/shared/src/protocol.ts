@@ -1,87 +1,639 @@
-import type { RegisteredGroup } from './schemas.js';
+import { Either, ParseResult, Schema } from 'effect';
+import type { AgentRunError } from './errors.js';
+import {
+	ContainerInputParseError,
+	ContainerOutputParseError,
+	ContainerProtocolVersionError,
+	IpcParseError,
+	PromptManifestParseError,
+	ThreatModelParseError,
+} from './errors.js';
+import {
+	AgentOptions,
+	Budget,
+	BudgetSpend,
+	ContainerConfig,
+	ConversationArchiveMode,
+	MessageAttachment,
+	PromptManifest,
+	ScheduleType,
+	ScheduledTask,
+	TaskRunLog,
+	ThreatModel,
+	TimeZone,
+	ToolPolicy,
+} from './schemas.js';
 
 /** IPC sentinel markers for container <-> host communication. */
 export const OUTPUT_START_MARKER = '---GUARDIAN_CORE_OUTPUT_START---';
 export const OUTPUT_END_MARKER = '---GUARDIAN_CORE_OUTPUT_END---';
 
+/** Sentinel markers framing each streamed progress event (streaming mode only). */
+export const EVENT_START_MARKER = '---GUARDIAN_CORE_EVENT_START---';
+export const EVENT_END_MARKER = '---GUARDIAN_CORE_EVENT_END---';
+
 // --- Container I/O protocol ---
 
-export interface ContainerInput {
-	prompt: string;
-	sessionId?: string;
-	groupFolder: string;
-	chatJid: string;
-	isMain: boolean;
-	isScheduledTask?: boolean;
-}
+/**
+ * Version of the container stdin/stdout protocol spoken by this build.
+ * v1: unversioned legacy hosts (no `protocolVersion` field, no streaming).
+ * v2: versioned handshake, streaming ContainerEvents.
+ */
+export const PROTOCOL_VERSION = 2;
+export const MIN_PROTOCOL_VERSION = 1;
 
-export interface ContainerOutput {
-	status: 'success' | 'error';
-	result: string | null;
-	newSessionId?: string;
-	error?: string;
-}
+/** The upstream run handed to a `trigger` task. */
+export const UpstreamResult = Schema.Struct({
+	taskId: Schema.String,
+	status: Schema.Literal('success', 'error'),
+	/** The upstream task's last_result summary. */
+	result: Schema.NullOr(Schema.String),
+});
+export type UpstreamResult = typeof UpstreamResult.Type;
+
+/** A sealed template manifest, as the host records it and writes it to `_integrity/manifest.json`. */
+export const TemplateManifest = Schema.Struct({
+	version: Schema.Literal(1),
+	sealedAt: Schema.String,
+	/** Template file name → SHA-256 hex of its sealed content. */
+	files: Schema.Record({ key: Schema.String, value: Schema.String }),
+	algorithm: Schema.optional(Schema.Literal('ed25519')),
+	signature: Schema.optional(Schema.String),
+});
+export type TemplateManifest = typeof TemplateManifest.Type;
+
+export const ContainerInput = Schema.Struct({
+	protocolVersion: Schema.optionalWith(Schema.Int, { default: () => MIN_PROTOCOL_VERSION }),
+	prompt: Schema.String,
+	sessionId: Schema.optional(Schema.String),
+	groupFolder: Schema.String,
+	chatJid: Schema.String,
+	isMain: Schema.Boolean,
+	isScheduledTask: Schema.optional(Schema.Boolean),
+	/** Emit framed ContainerEvents on stdout while the agent runs (v2+). */
+	stream: Schema.optional(Schema.Boolean),
+	/** Files that arrived with the messages in this prompt, already in the group folder. */
+	attachments: Schema.optional(Schema.Array(MessageAttachment)),
+	/** From the group's ContainerConfig.conversationArchive. */
+	conversationArchive: Schema.optional(ConversationArchiveMode),
+	/** From the group's ContainerConfig.toolPolicy. */
+	toolPolicy: Schema.optional(ToolPolicy),
+	/** From the group's ContainerConfig.budget. */
+	budget: Schema.optional(Budget),
+	/** The group's usage over the last 24 hours from the host's ledger; sent with a daily budget. */
+	dailySpend: Schema.optional(BudgetSpend),
+	/** The group's ContainerConfig.agent merged with the task's agent_options. */
+	agentOptions: Schema.optional(AgentOptions),
+	/** The group's default time zone for scheduling. */
+	timezone: Schema.optional(TimeZone),
+	/** Per-group HMAC key for log pseudonyms, derived by the host from its own key. */
+	pseudonymKey: Schema.optional(Schema.String),
+	/** Raw ed25519 public key (base64) that template manifests are signed with; unsigned without it. */
+	templatePublicKey: Schema.optional(Schema.String),
+	/** The host's own record of the group's manifest; the copy in the group folder must match it. */
+	templateManifest: Schema.optional(TemplateManifest),
+	/** The host's record of the global layer's manifest (groups/global), sealed like a group's. */
+	globalTemplateManifest: Schema.optional(TemplateManifest),
+	/** Scheduled task being run, for usage attribution. */
+	taskId: Schema.optional(Schema.String),
+	/** Run that triggered this task, when it asked for the upstream result. */
+	upstream: Schema.optional(UpstreamResult),
+});
+export type ContainerInput = typeof ContainerInput.Type;
+
+/** Token, cost and timing totals for one agent run, from the SDK result message. */
+export const ContainerUsage = Schema.Struct({
+	inputTokens: Schema.Int,
+	outputTokens: Schema.Int,
+	cacheCreationInputTokens: Schema.Int,
+	cacheReadInputTokens: Schema.Int,
+	costUsd: Schema.Number,
+	/** Set when costUsd was priced from token counts because the run stopped before the SDK's result. */
+	costEstimated: Schema.optional(Schema.Boolean),
+	numTurns: Schema.Int,
+	durationMs: Schema.Number,
+	durationApiMs: Schema.Number,
+	/** Models that served the run. */
+	models: Schema.Array(Schema.String),
+});
+export type ContainerUsage = typeof ContainerUsage.Type;
+
+/** Which budget limit stopped (or refused to start) a run. */
+export const BudgetExceeded = Schema.Struct({
+	scope: Schema.Literal('perRun', 'daily'),
+	metric: Schema.Literal('tokens', 'costUsd', 'turns'),
+	limit: Schema.Number,
+	/** Usage counted against the limit when the run stopped. */
+	used: Schema.Number,
+});
+export type BudgetExceeded = typeof BudgetExceeded.Type;
+
+/** Tags of the errors a container can report in ContainerOutput.failure. */
+export const ContainerFailureCode = Schema.Literal(
+	'AgentRateLimitError',
+	'AgentOverloadedError',
+	'AgentNetworkError',
+	'AgentAuthError',
+	'AgentBillingError',
+	'AgentSessionNotFoundError',
+	'AgentInvalidRequestError',
+	'AgentMaxTurnsError',
+	'AgentExecutionError',
+	'ContainerInputParseError',
+	'ContainerProtocolVersionError',
+);
+export type ContainerFailureCode = typeof ContainerFailureCode.Type;
+
+/**
+ * Why a run failed. `retryable` failures are transient and the same input
+ * may succeed later; AgentSessionNotFoundError asks for a fresh session.
+ */
+export const ContainerFailure = Schema.Struct({
+	code: ContainerFailureCode,
+	retryable: Schema.Boolean,
+	message: Schema.String,
+	/**
+	 * Whether the agent had already asked for a tool that may change things
+	 * (send a message, write a file, run a command). Such a run is never
+	 * `retryable`: running it again would repeat those effects.
+	 */
+	sideEffects: Schema.optional(Schema.Boolean),
+});
+export type ContainerFailure = typeof ContainerFailure.Type;
+
+const RETRYABLE_FAILURES: ReadonlySet<ContainerFailureCode> = new Set<ContainerFailureCode>([
+	'AgentRateLimitError',
+	'AgentOverloadedError',
+	'AgentNetworkError',
+]);
+
+/** Describe a container error for ContainerOutput.failure. */
+export const toContainerFailure = (
+	error: AgentRunError | ContainerInputParseError | ContainerProtocolVersionError,
+	message: string = error.message,
+	sideEffects?: boolean,
+): ContainerFailure => ({
+	code: error._tag,
+	retryable: RETRYABLE_FAILURES.has(error._tag) && sideEffects !== true,
+	message,
+	...(sideEffects !== undefined ? { sideEffects } : {}),
+});
+
+export const ContainerOutput = Schema.Struct({
+	/** Protocol version the container actually spoke (after negotiation). */
+	protocolVersion: Schema.Int,
+	/** `budget_exceeded`: stopped by a budget limit; `result` holds the notice for the user. */
+	status: Schema.Literal('success', 'error', 'budget_exceeded'),
+	result: Schema.NullOr(Schema.String),
+	newSessionId: Schema.optional(Schema.String),
+	error: Schema.optional(Schema.String),
+	/** Absent when the run failed before the SDK reported a result. */
+	usage: Schema.optional(ContainerUsage),
+	/** Set with status `budget_exceeded`. */
+	budgetExceeded: Schema.optional(BudgetExceeded),
+	/** Set with status `error`; `error` keeps the human-readable message. */
+	failure: Schema.optional(ContainerFailure),
+});
+export type ContainerOutput = typeof ContainerOutput.Type;
+
+/** One-line `path: reason` summary of a schema decode failure. */
+const formatParseError = (error: ParseResult.ParseError): string =>
+	ParseResult.ArrayFormatter.formatErrorSync(error)
+		.map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : '<root>'}: ${issue.message}`)
+		.join('; ');
+
+/** Decode raw stdin JSON into a ContainerInput. */
+export const decodeContainerInput = (
+	json: string,
+): Either.Either<ContainerInput, ContainerInputParseError> =>
+	Schema.decodeUnknownEither(Schema.parseJson(ContainerInput))(json).pipe(
+		Either.mapLeft(
+			(error) => new ContainerInputParseError({ message: formatParseError(error), cause: error }),
+		),
+	);
+
+/** Decode the JSON between the output sentinels into a ContainerOutput. */
+export const decodeContainerOutput = (
+	json: string,
+	group: string,
+): Either.Either<ContainerOutput, ContainerOutputParseError> =>
+	Schema.decodeUnknownEither(Schema.parseJson(ContainerOutput))(json).pipe(
+		Either.mapLeft(
+			(error) => new ContainerOutputParseError({ group, message: formatParseError(error), stdout: json }),
+		),
+	);
+
+/** Validate and serialize a ContainerOutput to a single JSON line. */
+export const encodeContainerOutput = (output: ContainerOutput): string =>
+	JSON.stringify(Schema.encodeSync(ContainerOutput)(output));
+
+/**
+ * Pick the protocol version to speak with a host. Newer hosts are downgraded
+ * to PROTOCOL_VERSION; hosts older than MIN_PROTOCOL_VERSION are rejected.
+ */
+export const negotiateProtocolVersion = (
+	requested: number,
+): Either.Either<number, ContainerProtocolVersionError> =>
+	requested < MIN_PROTOCOL_VERSION
+		? Either.left(
+				new ContainerProtocolVersionError({
+					requested,
+					minSupported: MIN_PROTOCOL_VERSION,
+					maxSupported: PROTOCOL_VERSION,
+				}),
+			)
+		: Either.right(Math.min(requested, PROTOCOL_VERSION));
+
+// --- Streaming events (container → host, stdout) ---
+// Each event is one JSON line between EVENT_START_MARKER and EVENT_END_MARKER.
+// The final ContainerOutput is still written once, after the last event.
+
+export const ContainerThinkingEvent = Schema.Struct({
+	type: Schema.Literal('thinking'),
+	timestamp: Schema.String,
+});
+export type ContainerThinkingEvent = typeof ContainerThinkingEvent.Type;
+
+export const ContainerToolStartEvent = Schema.Struct({
+	type: Schema.Literal('tool_start'),
+	toolUseId: Schema.String,
+	toolName: Schema.String,
+	timestamp: Schema.String,
+});
+export type ContainerToolStartEvent = typeof ContainerToolStartEvent.Type;
+
+export const ContainerToolEndEvent = Schema.Struct({
+	type: Schema.Literal('tool_end'),
+	toolUseId: Schema.String,
+	toolName: Schema.String,
+	isError: Schema.Boolean,
+	timestamp: Schema.String,
+});
+export type ContainerToolEndEvent = typeof ContainerToolEndEvent.Type;
+
+export const ContainerTextEvent = Schema.Struct({
+	type: Schema.Literal('text'),
+	text: Schema.String,
+	timestamp: Schema.String,
+});
+export type ContainerTextEvent = typeof ContainerTextEvent.Type;
+
+/**
+ * One redacted tool audit record. Sent whether or not the host asked for a
+ * stream; the host appends it to the group's audit log outside the container.
+ */
+export const ContainerAuditEvent = Schema.Struct({
+	type: Schema.Literal('audit'),
+	entry: Schema.Record({ key: Schema.String, value: Schema.Unknown }),
+	timestamp: Schema.String,
+});
+export type ContainerAuditEvent = typeof ContainerAuditEvent.Type;
+
+/** A contact identifier behind a newly issued log pseudonym, for the host's vault. */
+export const ContainerPseudonymEvent = Schema.Struct({
+	type: Schema.Literal('pseudonym'),
+	token: Schema.String,
+	original: Schema.String,
+	pattern: Schema.String,
+	timestamp: Schema.String,
+});
+export type ContainerPseudonymEvent = typeof ContainerPseudonymEvent.Type;
+
+/** Discriminated on `type`. */
+export const ContainerEvent = Schema.Union(
+	ContainerThinkingEvent,
+	ContainerToolStartEvent,
+	ContainerToolEndEvent,
+	ContainerTextEvent,
+	ContainerAuditEvent,
+	ContainerPseudonymEvent,
+);
+export type ContainerEvent = typeof ContainerEvent.Type;
+
+/** Serialize one streamed event (the line between the event markers). */
+export const encodeContainerEvent = (event: ContainerEvent): string =>
+	JSON.stringify(Schema.encodeSync(ContainerEvent)(event));
 
 // --- IPC message types (file-based, container → host) ---
+// Payloads written to ipc/tasks may carry a `requestId`; the host then answers
+// with an IpcResponse at ipc/responses/{requestId}.json.
 
-export interface IpcMessage {
-	type: 'message';
-	chatJid: string;
-	text: string;
-	groupFolder: string;
-	timestamp: string;
-}
+export const IpcMessage = Schema.Struct({
+	type: Schema.Literal('message'),
+	chatJid: Schema.String,
+	text: Schema.String,
+	groupFolder: Schema.String,
+	timestamp: Schema.String,
+});
+export type IpcMessage = typeof IpcMessage.Type;
 
-export interface IpcScheduleTask {
-	type: 'schedule_task';
-	prompt: string;
-	schedule_type: 'cron' | 'interval' | 'once';
-	schedule_value: string;
-	context_mode: 'group' | 'isolated';
-	groupFolder: string;
-	chatJid: string;
-	createdBy: string;
-	timestamp: string;
-	target_group?: string;
-}
+/** Per-kind size ceilings for outbound media, enforced before the IPC file is written. */
+export const MEDIA_MAX_BYTES = {
+	image: 16 * 1024 * 1024,
+	audio: 16 * 1024 * 1024,
+	video: 16 * 1024 * 1024,
+	document: 100 * 1024 * 1024,
+} as const;
 
-export interface IpcPhoneCall {
-	type: 'phone_call';
-	reason: string;
-	urgency: 'critical' | 'high';
-	contact_id?: string;
-	groupFolder: string;
-	timestamp: string;
-}
+export const MediaKind = Schema.Literal('image', 'audio', 'video', 'document');
+export type MediaKind = typeof MediaKind.Type;
 
-export interface IpcRegisterGroup {
-	type: 'register_group';
-	jid: string;
-	name: string;
-	folder: string;
-	trigger: string;
-	groupFolder: string;
-	timestamp: string;
-	containerConfig?: RegisteredGroup['containerConfig'];
-}
+/** WhatsApp renders image/audio/video inline; everything else goes as a document. */
+export const mediaKindForMime = (mimeType: string): MediaKind => {
+	const [major] = mimeType.toLowerCase().split('/');
+	return major === 'image' || major === 'audio' || major === 'video' ? major : 'document';
+};
+
+export const IpcMedia = Schema.Struct({
+	type: Schema.Literal('media'),
+	chatJid: Schema.String,
+	/** Path relative to the group folder; the host resolves it under groups/{groupFolder}. */
+	file: Schema.String,
+	mimeType: Schema.String,
+	kind: MediaKind,
+	sizeBytes: Schema.Number,
+	caption: Schema.optional(Schema.String),
+	/** Send audio as a push-to-talk voice note. */
+	voiceNote: Schema.optional(Schema.Boolean),
+	groupFolder: Schema.String,
+	timestamp: Schema.String,
+});
+export type IpcMedia = typeof IpcMedia.Type;
+
+export const TemplateTamperFile = Schema.Struct({
+	file: Schema.String,
+	/** Sealed hash; null when the file is not in the manifest. */
+	expectedSha256: Schema.NullOr(Schema.String),
+	/** Current hash; null when the file was deleted. */
+	actualSha256: Schema.NullOr(Schema.String),
+	restored: Schema.Boolean,
+});
+export type TemplateTamperFile = typeof TemplateTamperFile.Type;
+
+/** Template layer a tamper report covers. */
+export const TemplateLayerName = Schema.Literal('group', 'global');
+export type TemplateLayerName = typeof TemplateLayerName.Type;
+
+/** Template files that no longer match the group's (or the global layer's) integrity manifest. */
+export const IpcTemplateTamper = Schema.Struct({
+	type: Schema.Literal('template_tamper'),
+	/** The reporting group's own templates when absent. */
+	layer: Schema.optional(TemplateLayerName),
+	files: Schema.Array(TemplateTamperFile),
+	/** False when the manifest is missing, failed signature verification or differs from the host's record. */
+	manifestValid: Schema.Boolean,
+	/** True when the manifest was deleted; without the host's record nothing can be restored. */
+	manifestMissing: Schema.optional(Schema.Boolean),
+	groupFolder: Schema.String,
+	timestamp: Schema.String,
+});
+export type IpcTemplateTamper = typeof IpcTemplateTamper.Type;
+
+export const IpcScheduleTask = Schema.Struct({
+	type: Schema.Literal('schedule_task'),
+	prompt: Schema.String,
+	schedule_type: ScheduleType,
+	schedule_value: Schema.String,
+	context_mode: Schema.Literal('group', 'isolated'),
+	groupFolder: Schema.String,
+	chatJid: Schema.String,
+	createdBy: Schema.String,
+	timestamp: Schema.String,
+	target_group: Schema.optional(Schema.String),
+	agent_options: Schema.optional(AgentOptions),
+	/** Zone cron, once and rrule values are read in; defaults to the group's. */
+	timezone: Schema.optional(TimeZone),
+	max_runs: Schema.optional(Schema.Int.pipe(Schema.positive())),
+	/** ISO instant (already resolved from the task's zone). */
+	end_at: Schema.optional(Schema.String),
+	jitter_seconds: Schema.optional(Schema.Int.pipe(Schema.nonNegative())),
+	/** Upstream task for schedule_type `trigger`. */
+	depends_on: Schema.optional(Schema.String),
+	include_upstream_result: Schema.optional(Schema.Boolean),
+	requestId: Schema.optional(Schema.String),
+});
+export type IpcScheduleTask = typeof IpcScheduleTask.Type;
+
+/**
+ * Change an existing task in place, keeping its ID. Omitted fields are left
+ * as they are; a schedule change always carries type, value and zone.
+ */
+export const IpcUpdateTask = Schema.Struct({
+	type: Schema.Literal('update_task'),
+	taskId: Schema.String,
+	prompt: Schema.optional(Schema.String),
+	schedule_type: Schema.optional(ScheduleType),
+	schedule_value: Schema.optional(Schema.String),
+	context_mode: Schema.optional(Schema.Literal('group', 'isolated')),
+	timezone: Schema.optional(TimeZone),
+	max_runs: Schema.optional(Schema.Int.pipe(Schema.positive())),
+	/** ISO instant (already resolved from the task's zone). */
+	end_at: Schema.optional(Schema.String),
+	jitter_seconds: Schema.optional(Schema.Int.pipe(Schema.nonNegative())),
+	depends_on: Schema.optional(Schema.String),
+	include_upstream_result: Schema.optional(Schema.Boolean),
+	groupFolder: Schema.String,
+	timestamp: Schema.String,
+	requestId: Schema.optional(Schema.String),
+});
+export type IpcUpdateTask = typeof IpcUpdateTask.Type;
+
+export const IpcPhoneCall = Schema.Struct({
+	type: Schema.Literal('phone_call'),
+	reason: Schema.String,
+	urgency: Schema.Literal('critical', 'high'),
+	contact_id: Schema.optional(Schema.String),
+	groupFolder: Schema.String,
+	timestamp: Schema.String,
+	requestId: Schema.optional(Schema.String),
+});
+export type IpcPhoneCall = typeof IpcPhoneCall.Type;
+
+export const IpcRegisterGroup = Schema.Struct({
+	type: Schema.Literal('register_group'),
+	jid: Schema.String,
+	name: Schema.String,
+	folder: Schema.String,
+	trigger: Schema.String,
+	groupFolder: Schema.String,
+	timestamp: Schema.String,
+	containerConfig: Schema.optional(ContainerConfig),
+	requestId: Schema.optional(Schema.String),
+});
+export type IpcRegisterGroup = typeof IpcRegisterGroup.Type;
+
+export const IpcRefreshGroups = Schema.Struct({
+	type: Schema.Literal('refresh_groups'),
+	groupFolder: Schema.String,
+	timestamp: Schema.String,
+	requestId: Schema.optional(Schema.String),
+});
+export type IpcRefreshGroups = typeof IpcRefreshGroups.Type;
+
+/**
+ * Ask the host to seal a group's templates (main group only). The host hashes
+ * and signs the files itself; the container never holds the signing key.
+ */
+export const IpcSealTemplates = Schema.Struct({
+	type: Schema.Literal('seal_templates'),
+	/** Group whose templates are sealed. */
+	targetFolder: Schema.String,
+	groupFolder: Schema.String,
+	timestamp: Schema.String,
+	requestId: Schema.optional(Schema.String),
+});
+export type IpcSealTemplates = typeof IpcSealTemplates.Type;
+
+const taskAction = <T extends string>(type: T) =>
+	Schema.Struct({
+		type: Schema.Literal(type),
+		taskId: Schema.String,
+		groupFolder: Schema.String,
+		timestamp: Schema.String,
+		requestId: Schema.optional(Schema.String),
+	});
 
-export interface IpcRefreshGroups {
-	type: 'refresh_groups';
-	groupFolder: string;
-	timestamp: string;
+// One member per action so the union stays discriminated on `type`
+export const IpcTaskAction = Schema.Union(
+	taskAction('pause_task'),
+	taskAction('resume_task'),
+	taskAction('cancel_task'),
+);
+export type IpcTaskAction = typeof IpcTaskAction.Type;
+
+/** Discriminated on `type`; every file under /workspace/ipc must decode as one of these. */
+export const IpcPayload = Schema.Union(
+	IpcMessage,
+	IpcMedia,
+	IpcTemplateTamper,
+	IpcScheduleTask,
+	IpcUpdateTask,
+	IpcPhoneCall,
+	IpcRegisterGroup,
+	IpcRefreshGroups,
+	IpcSealTemplates,
+	...IpcTaskAction.members,
+);
+export type IpcPayload = typeof IpcPayload.Type;
+
+/**
+ * Validate a payload and serialize it for an IPC file. `path` is the file the
+ * payload is destined for, reported back in the IpcParseError.
+ */
+export const encodeIpcPayload = (
+	payload: IpcPayload,
+	path: string,
+): Either.Either<string, IpcParseError> =>
+	Schema.encodeEither(IpcPayload)(payload).pipe(
+		Either.map((encoded) => JSON.stringify(encoded, null, 2)),
+		Either.mapLeft((error) => new IpcParseError({ path, message: formatParseError(error), cause: error })),
+	);
+
+/** Decode the contents of an IPC file read from `path`. */
+export const decodeIpcPayload = (
+	json: string,
+	path: string,
+): Either.Either<IpcPayload, IpcParseError> =>
+	Schema.decodeUnknownEither(Schema.parseJson(IpcPayload))(json).pipe(
+		Either.mapLeft((error) => new IpcParseError({ path, message: formatParseError(error), cause: error })),
+	);
+
+// --- IPC responses (file-based, host → container) ---
+
+/** A tagged error raised on the host (e.g. IpcAuthorizationError), flattened to JSON. */
+export const IpcResponseError = Schema.Struct({
+	_tag: Schema.String,
+	message: Schema.String,
+	group: Schema.optional(Schema.String),
+	action: Schema.optional(Schema.String),
+});
+export type IpcResponseError = typeof IpcResponseError.Type;
+
+export const IpcResponse = Schema.Struct({
+	requestId: Schema.String,
+	status: Schema.Literal('ok', 'error'),
+	message: Schema.optional(Schema.String),
+	error: Schema.optional(IpcResponseError),
+	timestamp: Schema.String,
+});
+export type IpcResponse = typeof IpcResponse.Type;
+
+/** Decode a response file read from `path`. */
+export const decodeIpcResponse = (
+	json: string,
+	path: string,
+): Either.Either<IpcResponse, IpcParseError> =>
+	Schema.decodeUnknownEither(Schema.parseJson(IpcResponse))(json).pipe(
+		Either.mapLeft((error) => new IpcParseError({ path, message: formatParseError(error), cause: error })),
+	);
+
+// --- Host snapshots (written to /workspace/ipc before each run) ---
+
+/** A current_tasks.json row that did not decode as a ScheduledTask. */
+export interface SkippedTaskRow {
+	readonly index: number;
+	readonly id?: string;
+	readonly message: string;
 }
 
-export interface IpcTaskAction {
-	type: 'pause_task' | 'resume_task' | 'cancel_task';
-	taskId: string;
-	groupFolder: string;
-	timestamp: string;
+export interface TaskSnapshot {
+	readonly tasks: ReadonlyArray<ScheduledTask>;
+	readonly skipped: ReadonlyArray<SkippedTaskRow>;
 }
 
-export type IpcPayload =
-	| IpcMessage
-	| IpcScheduleTask
-	| IpcPhoneCall
-	| IpcRegisterGroup
-	| IpcRefreshGroups
-	| IpcTaskAction;
+/**
+ * Decode current_tasks.json: the tasks this group can see, newest first.
+ * Rows are decoded one by one so a single bad row is skipped and reported
+ * rather than hiding every task; only a file that is not a JSON array fails.
+ */
+export const decodeTaskSnapshot = (json: string, path: string): Either.Either<TaskSnapshot, IpcParseError> =>
+	Schema.decodeUnknownEither(Schema.parseJson(Schema.Array(Schema.Unknown)))(json).pipe(
+		Either.mapLeft((error) => new IpcParseError({ path, message: formatParseError(error), cause: error })),
+		Either.map((rows) => {
+			const tasks: ScheduledTask[] = [];
+			const skipped: SkippedTaskRow[] = [];
+			rows.forEach((row, index) => {
+				const decoded = Schema.decodeUnknownEither(ScheduledTask)(row);
+				if (Either.isRight(decoded)) {
+					tasks.push(decoded.right);
+					return;
+				}
+				const id = typeof row === 'object' && row !== null && 'id' in row ? row.id : undefined;
+				skipped.push({
+					index,
+					...(typeof id === 'string' ? { id } : {}),
+					message: formatParseError(decoded.left),
+				});
+			});
+			return { tasks, skipped };
+		}),
+	);
+
+/** Decode task_history.json: recent run logs of the tasks this group can see, newest first. */
+export const decodeTaskRunLogs = (
+	json: string,
+	path: string,
+): Either.Either<ReadonlyArray<TaskRunLog>, IpcParseError> =>
+	Schema.decodeUnknownEither(Schema.parseJson(Schema.Array(TaskRunLog)))(json).pipe(
+		Either.mapLeft((error) => new IpcParseError({ path, message: formatParseError(error), cause: error })),
+	);
+
+// --- Group template files ---
+
+/** Decode a group's PROMPT.json read from `path`. */
+export const decodePromptManifest = (
+	json: string,
+	path: string,
+): Either.Either<PromptManifest, PromptManifestParseError> =>
+	Schema.decodeUnknownEither(Schema.parseJson(PromptManifest))(json).pipe(
+		Either.mapLeft((error) => new PromptManifestParseError({ path, message: formatParseError(error), cause: error })),
+	);
+
+/** Decode a group's THREAT_MODEL.json read from `path`. */
+export const decodeThreatModel = (
+	json: string,
+	path: string,
+): Either.Either<ThreatModel, ThreatModelParseError> =>
+	Schema.decodeUnknownEither(Schema.parseJson(ThreatModel))(json).pipe(
+		Either.mapLeft((error) => new ThreatModelParseError({ path, message: formatParseError(error), cause: error })),
+	);
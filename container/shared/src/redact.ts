@@ -1,11 +1,18 @@
 /**
  * Pure secret redaction engine.
  *
- * `redactLine(line)` scrubs secrets (WhatsApp JIDs, phone numbers, API keys,
- * tokens, sensitive paths) from a serialized log line. Replacements are pure
- * ASCII without `"`, `\`, or control chars — cannot break JSON structure.
+ * `createRedactor(config)` builds a Redactor that scrubs secrets (WhatsApp
+ * JIDs, phone numbers, API keys, tokens, sensitive paths) from strings,
+ * arbitrary JSON values and Error objects, and reports per-pattern hit counts
+ * for audit logging. `redactLine(line)` is the string-only shorthand.
  *
- * Zero dependencies. Pure string → string.
+ * With a Pseudonymizer configured, each distinct secret becomes a stable keyed
+ * token (`[JID:7f3a9c01]`) instead of a bare `[JID]`, so one conversation
+ * partner can be followed across logs. Hashing is injected to keep this pure.
+ * Replacements are pure ASCII without `"`, `\`, or control chars — cannot
+ * break JSON structure.
+ *
+ * Zero dependencies. Pure input → output.
  */
 
 export interface RedactPattern {
@@ -17,8 +24,61 @@ export interface RedactPattern {
 export interface RedactConfig {
 	readonly enabled: boolean;
 	readonly extraPatterns?: readonly RedactPattern[];
+	/**
+	 * Object keys whose values are replaced wholesale, matched case-insensitively
+	 * ignoring `-` and `_`. Added to DEFAULT_SENSITIVE_KEYS.
+	 */
+	readonly sensitiveKeys?: readonly string[];
+	/** Known-safe values that are left intact even when a pattern matches them. */
+	readonly allowlist?: readonly (string | RegExp)[];
+	/** Replace pattern matches with stable keyed tokens instead of fixed ones. */
+	readonly pseudonymize?: Pseudonymizer;
+}
+
+export interface Pseudonymizer {
+	/** Keyed digest of a matched secret (e.g. truncated HMAC hex); must be stable per key. */
+	readonly digest: (value: string) => string;
+	/** Called for every token issued, e.g. to keep a reverse lookup for incident response. */
+	readonly record?: (token: string, original: string, pattern: string) => void;
+}
+
+/** Hit counts keyed by pattern name (`sensitive-key` for key-based redactions). */
+export type RedactStats = Readonly<Record<string, number>>;
+
+export interface RedactResult<T> {
+	readonly value: T;
+	readonly hits: RedactStats;
 }
 
+export interface RedactedError {
+	readonly name: string;
+	readonly message: string;
+	readonly stack?: string;
+}
+
+export interface Redactor {
+	readonly redactString: (input: string) => RedactResult<string>;
+	readonly redactValue: (input: unknown) => RedactResult<unknown>;
+	readonly redactError: (error: unknown) => RedactResult<RedactedError>;
+}
+
+export const SENSITIVE_KEY_REPLACEMENT = '[REDACTED]';
+
+export const DEFAULT_SENSITIVE_KEYS: readonly string[] = [
+	'apiKey',
+	'authorization',
+	'password',
+	'secret',
+	'token',
+	'accessToken',
+	'refreshToken',
+	'clientSecret',
+	'privateKey',
+	'cookie',
+	'setCookie',
+	'xApiKey',
+];
+
 const BUILT_IN_PATTERNS: readonly RedactPattern[] = [
 	// WhatsApp JIDs: 1234567890@s.whatsapp.net, 1234567890-1234567890@g.us
 	{ name: 'whatsapp-jid', regex: /\d+@s\.whatsapp\.net/g, replacement: '[JID]' },
@@ -47,18 +107,101 @@ const BUILT_IN_PATTERNS: readonly RedactPattern[] = [
 
 const DEFAULT_CONFIG: RedactConfig = { enabled: true };
 
-export function redactLine(line: string, config?: RedactConfig): string {
+const normalizeKey = (key: string): string => key.toLowerCase().replace(/[-_]/g, '');
+
+/** `[JID]` + `7f3a` → `[JID:7f3a]`; `Bearer [TOKEN]` → `Bearer [TOKEN:7f3a]`. */
+export function pseudonymToken(replacement: string, digest: string): string {
+	const close = replacement.lastIndexOf(']');
+	return close === -1
+		? `${replacement}:${digest}`
+		: `${replacement.slice(0, close)}:${digest}${replacement.slice(close)}`;
+}
+
+export function createRedactor(config?: RedactConfig): Redactor {
 	const cfg = config ?? DEFAULT_CONFIG;
-	if (!cfg.enabled) return line;
-
-	let result = line;
-	for (const p of BUILT_IN_PATTERNS) {
-		result = result.replace(p.regex, p.replacement);
-	}
-	if (cfg.extraPatterns) {
-		for (const p of cfg.extraPatterns) {
-			result = result.replace(p.regex, p.replacement);
+	const patterns = [...BUILT_IN_PATTERNS, ...(cfg.extraPatterns ?? [])];
+	const sensitiveKeys = new Set(
+		[...DEFAULT_SENSITIVE_KEYS, ...(cfg.sensitiveKeys ?? [])].map(normalizeKey),
+	);
+	// `g`/`y` would make `.test` resume from the previous match's lastIndex
+	const allowlist = (cfg.allowlist ?? []).map((entry) =>
+		typeof entry === 'string' ? entry : new RegExp(entry.source, entry.flags.replace(/[gy]/g, '')),
+	);
+
+	const isAllowed = (match: string): boolean =>
+		allowlist.some((entry) => (typeof entry === 'string' ? entry === match : entry.test(match)));
+
+	const scrub = (input: string, hits: Record<string, number>): string => {
+		let result = input;
+		for (const p of patterns) {
+			result = result.replace(p.regex, (match) => {
+				if (isAllowed(match)) return match;
+				hits[p.name] = (hits[p.name] ?? 0) + 1;
+				if (!cfg.pseudonymize) return p.replacement;
+				const token = pseudonymToken(p.replacement, cfg.pseudonymize.digest(match));
+				cfg.pseudonymize.record?.(token, match, p.name);
+				return token;
+			});
 		}
-	}
-	return result;
+		return result;
+	};
+
+	const toRedactedError = (error: Error, hits: Record<string, number>): RedactedError => ({
+		name: error.name,
+		message: scrub(error.message, hits),
+		...(error.stack ? { stack: scrub(error.stack, hits) } : {}),
+	});
+
+	// `ancestors` holds only the objects on the path to `value`: a node shared by
+	// two siblings is redacted twice, only a node containing itself is circular
+	const walk = (value: unknown, hits: Record<string, number>, ancestors: Set<object>): unknown => {
+		if (typeof value === 'string') return scrub(value, hits);
+		if (value === null || typeof value !== 'object') return value;
+		if (value instanceof Error) return toRedactedError(value, hits);
+		if (ancestors.has(value)) return '[Circular]';
+
+		ancestors.add(value);
+		try {
+			if (Array.isArray(value)) return value.map((item) => walk(item, hits, ancestors));
+
+			const out: Record<string, unknown> = {};
+			for (const [key, child] of Object.entries(value)) {
+				if (sensitiveKeys.has(normalizeKey(key)) && child !== null && child !== undefined) {
+					hits['sensitive-key'] = (hits['sensitive-key'] ?? 0) + 1;
+					out[scrub(key, hits)] = SENSITIVE_KEY_REPLACEMENT;
+				} else {
+					out[scrub(key, hits)] = walk(child, hits, ancestors);
+				}
+			}
+			return out;
+		} finally {
+			ancestors.delete(value);
+		}
+	};
+
+	return {
+		redactString: (input) => {
+			if (!cfg.enabled) return { value: input, hits: {} };
+			const hits: Record<string, number> = {};
+			return { value: scrub(input, hits), hits };
+		},
+		redactValue: (input) => {
+			if (!cfg.enabled) return { value: input, hits: {} };
+			const hits: Record<string, number> = {};
+			return { value: walk(input, hits, new Set()), hits };
+		},
+		redactError: (error) => {
+			const err = error instanceof Error ? error : new Error(String(error));
+			if (!cfg.enabled) return { value: { name: err.name, message: err.message, stack: err.stack }, hits: {} };
+			const hits: Record<string, number> = {};
+			return { value: toRedactedError(err, hits), hits };
+		},
+	};
+}
+
+const defaultRedactor = createRedactor(DEFAULT_CONFIG);
+
+export function redactLine(line: string, config?: RedactConfig): string {
+	const redactor = config ? createRedactor(config) : defaultRedactor;
+	return redactor.redactString(line).value;
 }
@@ -25,10 +25,86 @@ export type MountAllowlist = typeof MountAllowlist.Type;
 
 // --- Container ---
 
+/** IANA time zone name, e.g. `Europe/Berlin`. */
+export const TimeZone = Schema.String.pipe(
+	Schema.filter(
+		(timezone) => {
+			try {
+				new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+				return true;
+			} catch {
+				return false;
+			}
+		},
+		{ message: () => 'Expected an IANA time zone name' },
+	),
+);
+
+/** How pre-compaction transcripts are archived to conversations/ (default: redacted). */
+export const ConversationArchiveMode = Schema.Literal('full', 'redacted', 'none');
+export type ConversationArchiveMode = typeof ConversationArchiveMode.Type;
+
+/**
+ * Tools the agent may use. Entries are tool names or `*` globs, including
+ * MCP tools (`mcp__guardian_core__send_message`, `mcp__guardian_core__*`).
+ * `denied` wins over `allowed`; without `allowed` the runner's defaults apply.
+ */
+export const ToolPolicy = Schema.Struct({
+	allowed: Schema.optional(Schema.Array(Schema.String)),
+	denied: Schema.optional(Schema.Array(Schema.String)),
+});
+export type ToolPolicy = typeof ToolPolicy.Type;
+
+/**
+ * Caps on one agent run or on all runs of a group. Tokens count input plus
+ * output tokens; cache reads and writes are covered by the cost limit.
+ */
+export const BudgetLimits = Schema.Struct({
+	maxTokens: Schema.optional(Schema.Int.pipe(Schema.positive())),
+	maxCostUsd: Schema.optional(Schema.Number.pipe(Schema.positive())),
+	maxTurns: Schema.optional(Schema.Int.pipe(Schema.positive())),
+});
+export type BudgetLimits = typeof BudgetLimits.Type;
+
+/** `daily` is a rolling 24-hour window over the group's usage ledger, kept by the host. */
+export const Budget = Schema.Struct({
+	perRun: Schema.optional(BudgetLimits),
+	daily: Schema.optional(BudgetLimits),
+});
+export type Budget = typeof Budget.Type;
+
+/** Usage counted against budget limits. `tokens` is input plus output tokens. */
+export const BudgetSpend = Schema.Struct({
+	tokens: Schema.Number.pipe(Schema.nonNegative()),
+	costUsd: Schema.Number.pipe(Schema.nonNegative()),
+	turns: Schema.Number.pipe(Schema.nonNegative()),
+});
+export type BudgetSpend = typeof BudgetSpend.Type;
+
+/**
+ * Agent settings passed to the SDK. A scheduled task's `agent_options`
+ * override the group's `agent` field by field.
+ */
+export const AgentOptions = Schema.Struct({
+	model: Schema.optional(Schema.NonEmptyString),
+	maxTurns: Schema.optional(Schema.Int.pipe(Schema.positive())),
+	/** Appended to the default system prompt. */
+	systemPromptAppend: Schema.optional(Schema.String),
+	/** Extended thinking budget; 0 disables thinking. */
+	maxThinkingTokens: Schema.optional(Schema.Int.pipe(Schema.nonNegative())),
+});
+export type AgentOptions = typeof AgentOptions.Type;
+
 export const ContainerConfig = Schema.Struct({
 	additionalMounts: Schema.optional(Schema.Array(AdditionalMount)),
 	timeout: Schema.optional(Schema.Number),
 	env: Schema.optional(Schema.Record({ key: Schema.String, value: Schema.String })),
+	conversationArchive: Schema.optional(ConversationArchiveMode),
+	toolPolicy: Schema.optional(ToolPolicy),
+	budget: Schema.optional(Budget),
+	agent: Schema.optional(AgentOptions),
+	/** Default zone for the group's scheduled tasks; the host's TZ when unset. */
+	timezone: Schema.optional(TimeZone),
 });
 export type ContainerConfig = typeof ContainerConfig.Type;
 
@@ -43,6 +119,24 @@ export type RegisteredGroup = typeof RegisteredGroup.Type;
 
 // --- Messages ---
 
+export const MessageAttachment = Schema.Struct({
+	type: Schema.Literal('image', 'video', 'audio', 'document', 'sticker'),
+	mimeType: Schema.String,
+	/** Path relative to the group folder (e.g. `inbox/3EB0C4.jpg`). */
+	path: Schema.String,
+	caption: Schema.optional(Schema.String),
+	fileName: Schema.optional(Schema.String),
+});
+export type MessageAttachment = typeof MessageAttachment.Type;
+
+/** The message being replied to, as WhatsApp quotes it. */
+export const QuotedMessage = Schema.Struct({
+	id: Schema.String,
+	sender: Schema.String,
+	snippet: Schema.String,
+});
+export type QuotedMessage = typeof QuotedMessage.Type;
+
 export const NewMessage = Schema.Struct({
 	id: Schema.String,
 	chat_jid: Schema.String,
@@ -50,6 +144,8 @@ export const NewMessage = Schema.Struct({
 	sender_name: Schema.String,
 	content: Schema.String,
 	timestamp: Schema.String,
+	attachments: Schema.optional(Schema.Array(MessageAttachment)),
+	quoted: Schema.optional(QuotedMessage),
 });
 export type NewMessage = typeof NewMessage.Type;
 
@@ -60,12 +156,24 @@ export type TaskId = typeof TaskId.Type;
 
 // --- Scheduled Tasks ---
 
+/**
+ * `rrule` values are RFC 5545 (DTSTART/RRULE/EXDATE lines) in the task's zone.
+ * `trigger` tasks have no clock: they run when their `depends_on` task
+ * finishes, and their value is the TaskTrigger.
+ */
+export const ScheduleType = Schema.Literal('cron', 'interval', 'once', 'rrule', 'trigger');
+export type ScheduleType = typeof ScheduleType.Type;
+
+/** Upstream outcome that runs a `trigger` task. */
+export const TaskTrigger = Schema.Literal('on_success', 'on_failure');
+export type TaskTrigger = typeof TaskTrigger.Type;
+
 export const ScheduledTask = Schema.Struct({
 	id: TaskId,
 	group_folder: Schema.String,
 	chat_jid: Schema.String,
 	prompt: Schema.String,
-	schedule_type: Schema.Literal('cron', 'interval', 'once'),
+	schedule_type: ScheduleType,
 	schedule_value: Schema.String,
 	context_mode: Schema.Literal('group', 'isolated'),
 	next_run: Schema.NullOr(Schema.String),
@@ -73,6 +181,19 @@ export const ScheduledTask = Schema.Struct({
 	last_result: Schema.NullOr(Schema.String),
 	status: Schema.Literal('active', 'paused', 'completed'),
 	created_at: Schema.String,
+	agent_options: Schema.optional(Schema.NullOr(AgentOptions)),
+	/** Zone cron, once and rrule values are read in; null uses the group default. */
+	timezone: Schema.optional(Schema.NullOr(TimeZone)),
+	/** Complete the task after this many runs. */
+	max_runs: Schema.optional(Schema.NullOr(Schema.Int.pipe(Schema.positive()))),
+	/** ISO instant after which no further runs are scheduled. */
+	end_at: Schema.optional(Schema.NullOr(Schema.String)),
+	/** Random delay of up to this many seconds added to each run. */
+	jitter_seconds: Schema.optional(Schema.NullOr(Schema.Int.pipe(Schema.nonNegative()))),
+	/** Upstream task whose runs trigger this one (schedule_type `trigger`). */
+	depends_on: Schema.optional(Schema.NullOr(TaskId)),
+	/** Pass the upstream's last_result to this task's run. */
+	include_upstream_result: Schema.optional(Schema.NullOr(Schema.Boolean)),
 });
 export type ScheduledTask = typeof ScheduledTask.Type;
 
@@ -106,5 +227,72 @@ export const PhoneContacts = Schema.Struct({
 });
 export type PhoneContacts = typeof PhoneContacts.Type;
 
+// --- Prompt Templates ---
+
+/** When a template is injected: every run, scheduled tasks only, or user messages only. */
+export const PromptTemplateCondition = Schema.Literal('always', 'scheduled', 'interactive');
+export type PromptTemplateCondition = typeof PromptTemplateCondition.Type;
+
+export const PromptTemplateMerge = Schema.Literal('override', 'append');
+export type PromptTemplateMerge = typeof PromptTemplateMerge.Type;
+
+export const PromptTemplateEntry = Schema.Struct({
+	/** Path relative to the group folder. */
+	file: Schema.NonEmptyString,
+	/** Approximate token cap; longer files are truncated. */
+	maxTokens: Schema.optional(Schema.Number.pipe(Schema.int(), Schema.positive())),
+	when: Schema.optionalWith(PromptTemplateCondition, { default: () => 'always' as const }),
+	/** How the group's copy combines with groups/global's: replace it, or follow it. */
+	merge: Schema.optionalWith(PromptTemplateMerge, { default: () => 'override' as const }),
+});
+export type PromptTemplateEntry = typeof PromptTemplateEntry.Type;
+
+/**
+ * PROMPT.json: which files are injected into the prompt, in order. A group's
+ * own manifest wins over groups/global's.
+ */
+export const PromptManifest = Schema.Struct({
+	files: Schema.Array(PromptTemplateEntry),
+});
+export type PromptManifest = typeof PromptManifest.Type;
+
+// --- Threat Model Enforcement ---
+
+/** A case-insensitive regex source; invalid patterns fail the decode instead of being skipped. */
+export const CommandPattern = Schema.String.pipe(
+	Schema.filter(
+		(pattern) => {
+			try {
+				new RegExp(pattern, 'i');
+				return true;
+			} catch {
+				return false;
+			}
+		},
+		{ message: (issue) => `Expected a valid regular expression, got ${JSON.stringify(issue.actual)}` },
+	),
+);
+
+/**
+ * The `enforcement` section of a group's THREAT_MODEL.json, applied to every
+ * tool call. Domains match themselves and their subdomains.
+ */
+export const ThreatModelEnforcement = Schema.Struct({
+	/** Case-insensitive regexes matched against Bash commands. */
+	blocked_commands: Schema.optionalWith(Schema.Array(CommandPattern), { default: () => [] }),
+	blocked_domains: Schema.optionalWith(Schema.Array(Schema.String), { default: () => [] }),
+	/** When set, outbound requests may only reach these domains. */
+	allowed_domains: Schema.optional(Schema.Array(Schema.String)),
+	/** Deny writes to template files and the integrity/history stores. */
+	protect_templates: Schema.optionalWith(Schema.Boolean, { default: () => false }),
+});
+export type ThreatModelEnforcement = typeof ThreatModelEnforcement.Type;
+
+/** Only the machine-enforced part of THREAT_MODEL.json; the rest is prose for the agent. */
+export const ThreatModel = Schema.Struct({
+	enforcement: Schema.optional(ThreatModelEnforcement),
+});
+export type ThreatModel = typeof ThreatModel.Type;
+
 // --- Session (not schema-validated, just a type alias) ---
 export type Session = Record<string, string>;
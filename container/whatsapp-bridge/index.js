@@ -4,10 +4,21 @@
  * Reads JSON commands from stdin (one per line).
  * Writes JSON events to stdout (one per line).
  * Supervised by Elixir Port.
+ *
+ * Inbound media for registered groups is downloaded into
+ * {groupDir}/inbox/ (targets set by the `set_media_targets` command).
  */
 
-import { makeWASocket, useMultiFileAuthState, makeCacheableSignalKeyStore, DisconnectReason } from '@whiskeysockets/baileys';
+import {
+  makeWASocket,
+  useMultiFileAuthState,
+  makeCacheableSignalKeyStore,
+  downloadMediaMessage,
+  DisconnectReason,
+} from '@whiskeysockets/baileys';
 import { createInterface } from 'readline';
+import { mkdir, writeFile } from 'fs/promises';
+import { basename, extname, join } from 'path';
 import pino from 'pino';
 
 const AUTH_DIR = process.env.WHATSAPP_AUTH_DIR || 'store/auth';
@@ -15,12 +26,137 @@ const LOG_LEVEL = process.env.LOG_LEVEL || 'warn';
 
 const logger = pino({ level: LOG_LEVEL });
 
+// Inbound media larger than this is not downloaded (matches the outbound document limit)
+const MAX_INBOUND_MEDIA_BYTES = 100 * 1024 * 1024;
+const QUOTE_SNIPPET_LENGTH = 200;
+
+const MEDIA_FIELDS = {
+  imageMessage: 'image',
+  videoMessage: 'video',
+  audioMessage: 'audio',
+  documentMessage: 'document',
+  stickerMessage: 'sticker',
+};
+
+const MIME_EXTENSIONS = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'video/mp4': '.mp4',
+  'audio/ogg': '.ogg',
+  'audio/mpeg': '.mp3',
+  'audio/mp4': '.m4a',
+  'application/pdf': '.pdf',
+};
+
+// jid → absolute group folder; only these chats get media downloaded
+let mediaTargets = {};
+
 function emit(event) {
   process.stdout.write(JSON.stringify(event) + '\n');
 }
 
 let sock;
 
+function unwrapMessage(message) {
+  return message?.documentWithCaptionMessage?.message
+    || message?.ephemeralMessage?.message
+    || message?.viewOnceMessageV2?.message
+    || message;
+}
+
+function textOf(message) {
+  const m = unwrapMessage(message);
+  if (!m) return '';
+  return m.conversation
+    || m.extendedTextMessage?.text
+    || m.imageMessage?.caption
+    || m.videoMessage?.caption
+    || m.documentMessage?.caption
+    || '';
+}
+
+function quotedOf(message) {
+  const m = unwrapMessage(message);
+  for (const content of Object.values(m || {})) {
+    const ctx = content?.contextInfo;
+    if (ctx?.quotedMessage && ctx.stanzaId) {
+      return {
+        id: ctx.stanzaId,
+        sender: ctx.participant || '',
+        snippet: textOf(ctx.quotedMessage).slice(0, QUOTE_SNIPPET_LENGTH),
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Download media attached to a message into the chat's group folder.
+ * Returns attachments with paths relative to that folder.
+ */
+async function saveAttachments(msg) {
+  const groupDir = mediaTargets[msg.key.remoteJid];
+  if (!groupDir) return [];
+
+  const m = unwrapMessage(msg.message);
+  const attachments = [];
+  for (const [field, type] of Object.entries(MEDIA_FIELDS)) {
+    const media = m?.[field];
+    if (!media) continue;
+
+    if (Number(media.fileLength || 0) > MAX_INBOUND_MEDIA_BYTES) {
+      logger.warn({ id: msg.key.id, size: media.fileLength }, 'Inbound media too large, skipped');
+      continue;
+    }
+
+    const mimeType = (media.mimetype || 'application/octet-stream').split(';')[0];
+    const ext = extname(media.fileName || '') || MIME_EXTENSIONS[mimeType] || '';
+    const relativePath = join('inbox', `${msg.key.id}${ext}`);
+
+    const buffer = await downloadMediaMessage(
+      { key: msg.key, message: m },
+      'buffer',
+      {},
+      { logger, reuploadRequest: sock.updateMediaMessage },
+    );
+    await mkdir(join(groupDir, 'inbox'), { recursive: true });
+    await writeFile(join(groupDir, relativePath), buffer);
+
+    attachments.push({
+      type,
+      mimeType,
+      path: relativePath,
+      ...(media.caption ? { caption: media.caption } : {}),
+      ...(media.fileName ? { fileName: media.fileName } : {}),
+    });
+  }
+  return attachments;
+}
+
+/**
+ * Build a Baileys message for a local file. The host has already resolved
+ * the path inside the group folder and enforced size limits.
+ */
+function buildMediaContent(cmd) {
+  const media = { url: cmd.path };
+  switch (cmd.kind) {
+    case 'image':
+      return { image: media, mimetype: cmd.mimetype, caption: cmd.caption };
+    case 'video':
+      return { video: media, mimetype: cmd.mimetype, caption: cmd.caption };
+    case 'audio':
+      return { audio: media, mimetype: cmd.mimetype, ptt: cmd.ptt === true };
+    default:
+      return {
+        document: media,
+        mimetype: cmd.mimetype,
+        fileName: basename(cmd.path),
+        caption: cmd.caption,
+      };
+  }
+}
+
 async function connect() {
   const { state, saveCreds } = await useMultiFileAuthState(AUTH_DIR);
 
@@ -78,18 +214,27 @@ async function connect() {
     emit({ type: 'creds_update' });
   });
 
-  sock.ev.on('messages.upsert', ({ messages }) => {
+  sock.ev.on('messages.upsert', async ({ messages }) => {
     for (const msg of messages) {
       if (!msg.message) continue;
       const jid = msg.key.remoteJid;
       if (!jid || jid === 'status@broadcast') continue;
 
+      let attachments = [];
+      try {
+        attachments = await saveAttachments(msg);
+      } catch (err) {
+        logger.error({ err: err.message, id: msg.key.id }, 'Failed to download media');
+      }
+
       emit({
         type: 'message',
         key: msg.key,
         message: msg.message,
         messageTimestamp: msg.messageTimestamp,
         pushName: msg.pushName || null,
+        attachments,
+        quoted: quotedOf(msg.message),
       });
     }
   });
@@ -108,12 +253,22 @@ rl.on('line', async (line) => {
         }
         break;
 
+      case 'send_media':
+        if (sock && cmd.jid && cmd.path && cmd.mimetype) {
+          await sock.sendMessage(cmd.jid, buildMediaContent(cmd));
+        }
+        break;
+
       case 'send_presence':
         if (sock && cmd.jid && cmd.presence) {
           await sock.sendPresenceUpdate(cmd.presence, cmd.jid);
         }
         break;
 
+      case 'set_media_targets':
+        mediaTargets = cmd.targets || {};
+        break;
+
       case 'fetch_groups':
         if (sock) {
           const groups = await sock.groupFetchAllParticipating();
@@ -12,6 +12,9 @@ config :guardian,
   ecto_repos: [Guardian.Repo],
   kernel_enabled: false
 
+# IANA zones for scheduled tasks
+config :elixir, :time_zone_database, Tzdata.TimeZoneDatabase
+
 # Ecto SQLite3 — db_path resolved at runtime in config/runtime.exs
 config :guardian, Guardian.Repo,
   database: "store/messages.db"
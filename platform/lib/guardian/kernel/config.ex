@@ -20,6 +20,12 @@ defmodule Guardian.Kernel.Config do
     Path.join(System.user_home!(), ".config/guardian-core/mount-allowlist.json")
   end
 
+  # Host-only state (audit trail etc.) kept outside project_root, which the
+  # main group's container mounts read-write
+  def state_dir do
+    System.get_env("GUARDIAN_STATE_DIR") || Path.join(System.user_home!(), ".local/state/guardian-core")
+  end
+
   def phone_contacts_path do
     Path.join(System.user_home!(), ".config/guardian-core/phone-contacts.json")
   end
@@ -42,6 +48,12 @@ defmodule Guardian.Kernel.Config do
 
   def timezone, do: System.get_env("TZ", "America/New_York")
 
+  # Master key for log pseudonyms; containers only get per-group keys derived from it
+  def pseudonym_key, do: System.get_env("GUARDIAN_PSEUDONYM_KEY")
+
+  # PKCS#8 ed25519 key signing template manifests; containers only get its public half
+  def template_signing_key, do: System.get_env("GUARDIAN_TEMPLATE_ED25519_KEY")
+
   def trigger_pattern do
     escaped = Regex.escape(assistant_name())
     Regex.compile!("^@#{escaped}\\b", "i")
@@ -11,9 +11,24 @@ defmodule Guardian.Kernel.ContainerRunner do
 
   alias Guardian.Kernel.Config
   alias Guardian.Kernel.MountSecurity
+  alias Guardian.Kernel.Pseudonyms
+  alias Guardian.Kernel.TemplateIntegrity
+  alias Guardian.Kernel.UsageLedger
+  alias Guardian.Repo
 
   @output_start_marker "---GUARDIAN_CORE_OUTPUT_START---"
   @output_end_marker "---GUARDIAN_CORE_OUTPUT_END---"
+  @event_start_marker "---GUARDIAN_CORE_EVENT_START---"
+  @event_end_marker "---GUARDIAN_CORE_EVENT_END---"
+
+  # Container protocol version spoken by this host (see PROTOCOL_VERSION in @guardian/shared)
+  @protocol_version 2
+
+  # Pause before retrying a transient (rate limit, overload, network) failure
+  @retry_delay_ms 5_000
+
+  # Runs per task in the task_history.json snapshot
+  @task_history_per_task 20
 
   @type container_input :: %{
           prompt: String.t(),
@@ -21,33 +36,79 @@ defmodule Guardian.Kernel.ContainerRunner do
           group_folder: String.t(),
           chat_jid: String.t(),
           is_main: boolean(),
-          is_scheduled_task: boolean() | nil
+          is_scheduled_task: boolean() | nil,
+          task_id: String.t() | nil,
+          attachments: [map()] | nil,
+          agent_options: map() | nil,
+          upstream: map() | nil
         }
 
   @type container_output :: %{
+          protocol_version: pos_integer(),
           status: String.t(),
           result: String.t() | nil,
           new_session_id: String.t() | nil,
-          error: String.t() | nil
+          error: String.t() | nil,
+          usage: map() | nil,
+          budget_exceeded: map() | nil,
+          failure: map() | nil
         }
 
   @doc """
   Run a container agent for the given group with the provided input.
   Returns {:ok, output} or {:error, reason}.
+
+  With an `:on_event` callback the container is asked to stream progress
+  (`stream: true`) and the callback gets each ContainerEvent map (`"type"`
+  is thinking, tool_start, tool_end or text) as the container prints it.
+
+  Reported usage is recorded in the UsageLedger. A group with a daily budget
+  gets its last 24 hours of spend from the ledger as `dailySpend`.
   """
   @spec run(map(), container_input(), keyword()) :: {:ok, container_output()} | {:error, String.t()}
   def run(group, input, opts \\ []) do
+    folder = group["folder"] || group[:folder]
+    daily_spend_fn = Keyword.get(opts, :daily_spend_fn, &UsageLedger.daily_spend/1)
+    record_usage_fn = Keyword.get(opts, :record_usage_fn, &UsageLedger.record/3)
+
+    with {:ok, daily_spend} <- fetch_daily_spend(group, folder, daily_spend_fn),
+         {:ok, output} <- run_container(group, input, daily_spend, opts) do
+      record_usage_fn.(folder, input, output)
+      {:ok, output}
+    end
+  end
+
+  defp fetch_daily_spend(group, folder, daily_spend_fn) do
+    case container_config_value(group, "budget") do
+      %{} = budget when is_map_key(budget, "daily") or is_map_key(budget, :daily) ->
+        case daily_spend_fn.(folder) do
+          {:ok, spend} -> {:ok, spend}
+          # Refuse the run rather than run past a budget nobody can read
+          {:error, reason} -> {:error, "Usage ledger unavailable for #{folder}: #{inspect(reason)}"}
+        end
+
+      _ ->
+        {:ok, nil}
+    end
+  end
+
+  defp run_container(group, input, daily_spend, opts) do
     project_root = Keyword.get(opts, :project_root, Config.project_root())
     groups_dir = Keyword.get(opts, :groups_dir, Config.groups_dir())
     data_dir = Keyword.get(opts, :data_dir, Config.data_dir())
+    state_dir = Keyword.get(opts, :state_dir, Config.state_dir())
     container_image = Keyword.get(opts, :container_image, Config.container_image())
     container_timeout = Keyword.get(opts, :container_timeout, Config.container_timeout())
     max_output_size = Keyword.get(opts, :max_output_size, Config.container_max_output_size())
-    spawn_fn = Keyword.get(opts, :spawn_fn, &default_spawn/3)
+    on_event = Keyword.get(opts, :on_event)
+    spawn_fn = Keyword.get(opts, :spawn_fn, &default_spawn(&1, &2, &3, on_event))
     mkdir_p = Keyword.get(opts, :mkdir_p, &File.mkdir_p!/1)
     write_file = Keyword.get(opts, :write_file, &File.write!/2)
     exists_fn = Keyword.get(opts, :exists_fn, &File.exists?/1)
     read_file = Keyword.get(opts, :read_file, &File.read/1)
+    append_file = Keyword.get(opts, :append_file, &File.write!(&1, &2, [:append]))
+    pseudonym_key = Keyword.get(opts, :pseudonym_key, Config.pseudonym_key())
+    template_key = Keyword.get(opts, :template_key, TemplateIntegrity.configured_key())
 
     folder = group["folder"] || group[:folder]
     name = group["name"] || group[:name]
@@ -57,6 +118,28 @@ defmodule Guardian.Kernel.ContainerRunner do
     group_dir = Path.join(groups_dir, folder)
     mkdir_p.(group_dir)
 
+    # New groups are sealed before the agent first sees them; after that only
+    # the main group's seal_templates requests re-seal
+    global_dir = Path.join(groups_dir, "global")
+    record_path = TemplateIntegrity.record_path(state_dir, folder)
+    global_record_path = TemplateIntegrity.record_path(state_dir, "global")
+
+    case TemplateIntegrity.ensure_sealed(group_dir, global_dir, record_path, template_key) do
+      :ok -> :ok
+      {:error, reason} -> Logger.error("Sealing templates failed group=#{name}: #{inspect(reason)}")
+    end
+
+    # The global layer is sealed the same way, the first time it exists
+    global_record =
+      if exists_fn.(global_dir) do
+        case TemplateIntegrity.ensure_sealed(global_dir, global_dir, global_record_path, template_key) do
+          :ok -> :ok
+          {:error, reason} -> Logger.error("Sealing global templates failed: #{inspect(reason)}")
+        end
+
+        TemplateIntegrity.read_record(global_record_path)
+      end
+
     # Build volume mounts
     mounts = build_volume_mounts(group, is_main, project_root, groups_dir, data_dir, mkdir_p, write_file, exists_fn, read_file, opts)
 
@@ -71,6 +154,7 @@ defmodule Guardian.Kernel.ContainerRunner do
     # Build JSON input matching TS ContainerInput format
     json_input =
       %{
+        "protocolVersion" => @protocol_version,
         "prompt" => input.prompt,
         "groupFolder" => input.group_folder,
         "chatJid" => input.chat_jid,
@@ -78,6 +162,20 @@ defmodule Guardian.Kernel.ContainerRunner do
       }
       |> maybe_put("sessionId", input[:session_id] || input.session_id)
       |> maybe_put("isScheduledTask", input[:is_scheduled_task] || input.is_scheduled_task)
+      |> maybe_put("stream", if(on_event, do: true))
+      |> maybe_put("taskId", input[:task_id])
+      |> maybe_put("upstream", input[:upstream])
+      |> maybe_put("attachments", if(input[:attachments] in [nil, []], do: nil, else: input[:attachments]))
+      |> maybe_put("conversationArchive", container_config_value(group, "conversationArchive"))
+      |> maybe_put("toolPolicy", container_config_value(group, "toolPolicy"))
+      |> maybe_put("budget", container_config_value(group, "budget"))
+      |> maybe_put("dailySpend", daily_spend)
+      |> maybe_put("agentOptions", agent_options(group, input[:agent_options]))
+      |> maybe_put("timezone", container_config_value(group, "timezone") || Config.timezone())
+      |> maybe_put("pseudonymKey", Pseudonyms.group_key(folder, pseudonym_key))
+      |> maybe_put("templatePublicKey", TemplateIntegrity.public_key(template_key))
+      |> maybe_put("templateManifest", TemplateIntegrity.read_record(record_path))
+      |> maybe_put("globalTemplateManifest", global_record)
       |> Jason.encode!()
 
     # Spawn container
@@ -86,10 +184,21 @@ defmodule Guardian.Kernel.ContainerRunner do
         logs_dir = Path.join([groups_dir, folder, "logs"])
         mkdir_p.(logs_dir)
         write_container_log(logs_dir, name, is_main, exit_code, stdout, stderr, timestamp, write_file)
+        events = parse_container_events(stdout)
+        write_tool_audit(events, Path.join([state_dir, "audit", folder]), mkdir_p, append_file)
+        Pseudonyms.record(Pseudonyms.vault_path(state_dir, folder), events)
 
         if exit_code != 0 do
           Logger.error("Container exited with code #{exit_code} group=#{name}")
-          {:error, "Container exited with code #{exit_code}: #{String.slice(stderr, -200..-1//1) || ""}"}
+
+          # Failed runs still report a classified error when the runner got that far
+          case parse_container_output(stdout, name, max_output_size) do
+            {:ok, %{status: "error", failure: failure} = output} when is_map(failure) ->
+              {:ok, output}
+
+            _ ->
+              {:error, "Container exited with code #{exit_code}: #{String.slice(stderr, -200..-1//1) || ""}"}
+          end
         else
           parse_container_output(stdout, name, max_output_size)
         end
@@ -100,6 +209,86 @@ defmodule Guardian.Kernel.ContainerRunner do
     end
   end
 
+  @doc """
+  Like run/3, but retries once when the container reports a failure the
+  host can recover from: a resume of a missing session is retried in a fresh
+  session, and a `retryable` failure is retried after `:retry_delay_ms`.
+
+  A run is only repeated when the container reports it had no side effects
+  (`sideEffects: false`): once the agent may have sent a message or written
+  a file, retrying would do it twice. Containers that don't report it are
+  not retried on transient failures.
+  """
+  @spec run_with_retry(map(), container_input(), keyword()) ::
+          {:ok, container_output()} | {:error, String.t()}
+  def run_with_retry(group, input, opts \\ []) do
+    run_fn = Keyword.get(opts, :run_fn, &run/3)
+    retry_delay_ms = Keyword.get(opts, :retry_delay_ms, @retry_delay_ms)
+    folder = group["folder"] || group[:folder]
+
+    case run_fn.(group, input, opts) do
+      # The resume fails before the agent gets to act
+      {:ok, %{status: "error", failure: %{"code" => "AgentSessionNotFoundError"} = failure}} = output ->
+        if failure["sideEffects"] == true do
+          output
+        else
+          Logger.warning("Session #{input[:session_id]} not found for group=#{folder}, retrying in a fresh session")
+          run_fn.(group, Map.put(input, :session_id, nil), opts)
+        end
+
+      {:ok, %{status: "error", failure: %{"retryable" => true, "sideEffects" => false, "code" => code}}} ->
+        Logger.warning("Transient failure #{code} for group=#{folder}, retrying in #{retry_delay_ms}ms")
+        Process.sleep(retry_delay_ms)
+        run_fn.(group, input, opts)
+
+      {:ok, %{status: "error", failure: %{"retryable" => true, "code" => code}}} = output ->
+        Logger.warning("Not retrying #{code} for group=#{folder}: the run may have had side effects")
+        output
+
+      other ->
+        other
+    end
+  end
+
+  @doc """
+  A scheduled_tasks row (string keys) in the ScheduledTask shape the container
+  decodes current_tasks.json with.
+  """
+  @spec task_snapshot_entry(map()) :: map()
+  def task_snapshot_entry(task) do
+    [
+      "id",
+      "group_folder",
+      "chat_jid",
+      "prompt",
+      "schedule_type",
+      "schedule_value",
+      "context_mode",
+      "next_run",
+      "last_run",
+      "last_result",
+      "status",
+      "created_at",
+      "timezone",
+      "max_runs",
+      "end_at",
+      "jitter_seconds",
+      "depends_on"
+    ]
+    |> Map.new(&{&1, task[&1]})
+    |> Map.put("agent_options", snapshot_agent_options(task["agent_options"]))
+    |> Map.put("include_upstream_result", task["include_upstream_result"] in [true, 1])
+  end
+
+  defp snapshot_agent_options(nil), do: nil
+
+  defp snapshot_agent_options(json) do
+    case Jason.decode(json) do
+      {:ok, options} when is_map(options) -> options
+      _ -> nil
+    end
+  end
+
   @doc """
   Write a current_tasks.json snapshot to the group's IPC directory.
   """
@@ -118,6 +307,48 @@ defmodule Guardian.Kernel.ContainerRunner do
     :ok
   end
 
+  @doc "The latest #{@task_history_per_task} runs of each task, newest first, for write_task_history_snapshot/4."
+  @spec recent_task_runs() :: [map()]
+  def recent_task_runs do
+    sql = """
+    SELECT task_id, run_at, duration_ms, status, result, error, group_folder FROM (
+      SELECT l.*, t.group_folder,
+             ROW_NUMBER() OVER (PARTITION BY l.task_id ORDER BY l.run_at DESC) AS n
+      FROM task_run_logs l JOIN scheduled_tasks t ON t.id = l.task_id
+    )
+    WHERE n <= ?1
+    ORDER BY run_at DESC
+    """
+
+    case Ecto.Adapters.SQL.query(Repo, sql, [@task_history_per_task]) do
+      {:ok, %{rows: rows, columns: columns}} ->
+        Enum.map(rows, fn row -> Enum.zip(columns, row) |> Map.new() end)
+
+      {:error, _} ->
+        []
+    end
+  end
+
+  @doc """
+  Write a task_history.json snapshot of recent task runs to the group's IPC
+  directory. Runs carry the task's `group_folder`; non-main groups only see
+  their own.
+  """
+  @spec write_task_history_snapshot(String.t(), boolean(), [map()], keyword()) :: :ok
+  def write_task_history_snapshot(group_folder, is_main, runs, opts \\ []) do
+    data_dir = Keyword.get(opts, :data_dir, Config.data_dir())
+    mkdir_p = Keyword.get(opts, :mkdir_p, &File.mkdir_p!/1)
+    write_file = Keyword.get(opts, :write_file, &File.write!/2)
+
+    ipc_dir = Path.join([data_dir, "ipc", group_folder])
+    mkdir_p.(ipc_dir)
+
+    filtered = if is_main, do: runs, else: Enum.filter(runs, &(&1["group_folder"] == group_folder))
+
+    write_file.(Path.join(ipc_dir, "task_history.json"), Jason.encode!(filtered, pretty: true))
+    :ok
+  end
+
   @doc """
   Write an available_groups.json snapshot to the group's IPC directory.
   """
@@ -162,10 +393,15 @@ defmodule Guardian.Kernel.ContainerRunner do
     case Jason.decode(json_line) do
       {:ok, %{"status" => status} = output} ->
         {:ok, %{
+          # Containers predating the handshake omit the field (legacy v1)
+          protocol_version: output["protocolVersion"] || 1,
           status: status,
           result: output["result"],
           new_session_id: output["newSessionId"],
-          error: output["error"]
+          error: output["error"],
+          usage: output["usage"],
+          budget_exceeded: output["budgetExceeded"],
+          failure: output["failure"]
         }}
 
       {:ok, _} ->
@@ -177,8 +413,51 @@ defmodule Guardian.Kernel.ContainerRunner do
     end
   end
 
+  @doc """
+  The ContainerEvents framed in container stdout, in order. Frames that do
+  not hold a JSON object with a `type` are skipped.
+  """
+  @spec parse_container_events(String.t()) :: [map()]
+  def parse_container_events(stdout) do
+    stdout
+    |> String.split("\n")
+    |> Enum.reduce({nil, []}, fn line, {frame, events} ->
+      case scan_event_line(line, frame) do
+        {frame, nil} -> {frame, events}
+        {frame, event} -> {frame, [event | events]}
+      end
+    end)
+    |> elem(1)
+    |> Enum.reverse()
+  end
+
   # --- Private ---
 
+  # One stdout line against the open event frame (nil outside one); returns
+  # the new frame and the event a closing marker completed, if any
+  defp scan_event_line(line, frame) do
+    case {String.trim(line), frame} do
+      {@event_start_marker, _} ->
+        {[], nil}
+
+      {@event_end_marker, lines} when is_list(lines) ->
+        case lines |> Enum.reverse() |> Enum.join("\n") |> Jason.decode() do
+          {:ok, %{"type" => type} = event} when is_binary(type) ->
+            {nil, event}
+
+          _ ->
+            Logger.warning("Skipping malformed container event")
+            {nil, nil}
+        end
+
+      {_, lines} when is_list(lines) ->
+        {[line | lines], nil}
+
+      {_, nil} ->
+        {nil, nil}
+    end
+  end
+
   defp build_volume_mounts(group, is_main, project_root, groups_dir, data_dir, mkdir_p, write_file, exists_fn, read_file, opts) do
     folder = group["folder"] || group[:folder]
     mounts = []
@@ -192,18 +471,29 @@ defmodule Guardian.Kernel.ContainerRunner do
           | mounts
         ]
       else
-        global_dir = Path.join(groups_dir, "global")
-
-        base = [
+        [
           %{host_path: Path.join(groups_dir, folder), container_path: "/workspace/group", readonly: false}
           | mounts
         ]
+      end
 
-        if exists_fn.(global_dir) do
-          [%{host_path: global_dir, container_path: "/workspace/global", readonly: true} | base]
-        else
-          base
-        end
+    # The project's .env holds the host-only master keys (pseudonyms, template
+    # signing); shadow it so main's project mount exposes neither
+    mounts =
+      if is_main and exists_fn.(Path.join(project_root, ".env")) do
+        [%{host_path: "/dev/null", container_path: "/workspace/project/.env", readonly: true} | mounts]
+      else
+        mounts
+      end
+
+    # Shared templates layered under every group's own (main edits them via /workspace/project)
+    global_dir = Path.join(groups_dir, "global")
+
+    mounts =
+      if exists_fn.(global_dir) do
+        [%{host_path: global_dir, container_path: "/workspace/global", readonly: true} | mounts]
+      else
+        mounts
       end
 
     # Sessions mount
@@ -215,6 +505,7 @@ defmodule Guardian.Kernel.ContainerRunner do
     ipc_dir = Path.join([data_dir, "ipc", folder])
     mkdir_p.(Path.join(ipc_dir, "messages"))
     mkdir_p.(Path.join(ipc_dir, "tasks"))
+    mkdir_p.(Path.join(ipc_dir, "responses"))
     mounts = [%{host_path: ipc_dir, container_path: "/workspace/ipc", readonly: false} | mounts]
 
     # Filtered env mount
@@ -226,7 +517,10 @@ defmodule Guardian.Kernel.ContainerRunner do
       if exists_fn.(env_file) do
         case read_file.(env_file) do
           {:ok, content} ->
-            allowed_vars = ["CLAUDE_CODE_OAUTH_TOKEN", "GITHUB_TOKEN"]
+            allowed_vars = [
+              "CLAUDE_CODE_OAUTH_TOKEN",
+              "GITHUB_TOKEN"
+            ]
 
             filtered =
               content
@@ -284,7 +578,7 @@ defmodule Guardian.Kernel.ContainerRunner do
     ["run", "-i", "--rm", "--name", container_name] ++ volume_args ++ [image]
   end
 
-  defp default_spawn(container_args, json_input, timeout_ms) do
+  defp default_spawn(container_args, json_input, timeout_ms, on_event) do
     port =
       Port.open({:spawn_executable, System.find_executable("docker")}, [
         {:args, container_args},
@@ -297,16 +591,15 @@ defmodule Guardian.Kernel.ContainerRunner do
     Port.command(port, json_input)
     Port.command(port, :eof)
 
-    collect_port_output(port, [], timeout_ms)
+    collect_port_output(port, [], timeout_ms, nil, on_event)
   end
 
-  defp collect_port_output(port, lines, timeout_ms) do
+  defp collect_port_output(port, lines, timeout_ms, frame, on_event) do
     receive do
-      {^port, {:data, {:eol, line}}} ->
-        collect_port_output(port, [to_string(line) | lines], timeout_ms)
-
-      {^port, {:data, {:noeol, line}}} ->
-        collect_port_output(port, [to_string(line) | lines], timeout_ms)
+      {^port, {:data, {eol, line}}} when eol in [:eol, :noeol] ->
+        line = to_string(line)
+        frame = dispatch_event_line(line, frame, on_event)
+        collect_port_output(port, [line | lines], timeout_ms, frame, on_event)
 
       {^port, {:exit_status, code}} ->
         stdout = lines |> Enum.reverse() |> Enum.join("\n")
@@ -318,6 +611,33 @@ defmodule Guardian.Kernel.ContainerRunner do
     end
   end
 
+  defp dispatch_event_line(_line, frame, nil), do: frame
+
+  defp dispatch_event_line(line, frame, on_event) do
+    case scan_event_line(line, frame) do
+      {frame, nil} ->
+        frame
+
+      {frame, event} ->
+        on_event.(event)
+        frame
+    end
+  end
+
+  # Tool audit entries arrive as events so the trail lives in the host state
+  # dir, which no container mounts (main's project mount included)
+  defp write_tool_audit(events, audit_dir, mkdir_p, append_file) do
+    entries =
+      for %{"type" => "audit", "entry" => entry} <- events, is_map(entry) do
+        [Jason.encode!(entry), "\n"]
+      end
+
+    if entries != [] do
+      mkdir_p.(audit_dir)
+      append_file.(Path.join(audit_dir, "tools.jsonl"), entries)
+    end
+  end
+
   defp write_container_log(logs_dir, name, is_main, exit_code, _stdout, stderr, timestamp, write_file) do
     ts = DateTime.utc_now() |> DateTime.to_iso8601() |> String.replace(~r/[:.]/u, "-")
     log_file = Path.join(logs_dir, "container-#{ts}.log")
@@ -346,6 +666,21 @@ defmodule Guardian.Kernel.ContainerRunner do
     write_file.(log_file, Enum.join(log_lines, "\n"))
   end
 
+  defp container_config_value(group, key) do
+    case group["containerConfig"] || group[:containerConfig] do
+      config when is_map(config) -> config[key] || config[String.to_atom(key)]
+      _ -> nil
+    end
+  end
+
+  # Task overrides win field by field over the group's agent settings
+  defp agent_options(group, task_options) do
+    case Map.merge(container_config_value(group, "agent") || %{}, task_options || %{}) do
+      options when map_size(options) == 0 -> nil
+      options -> options
+    end
+  end
+
   defp maybe_put(map, _key, nil), do: map
   defp maybe_put(map, key, value), do: Map.put(map, key, value)
 end
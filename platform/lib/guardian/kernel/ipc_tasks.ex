@@ -0,0 +1,424 @@
+defmodule Guardian.Kernel.IpcTasks do
+  @moduledoc """
+  Host side of the task tools: handles the schedule_task, update_task,
+  pause_task, resume_task and cancel_task requests containers write over IPC.
+  Wired into IpcWatcher as its `process_task_fn`.
+
+  The container validates before writing, but none of that is trusted here:
+  - every field is checked again (types, timezone, end conditions, agent_options)
+  - non-main groups may only schedule for themselves and touch their own tasks;
+    the chat comes from the registered group, not from the request
+  - a `trigger` task's upstream must exist, be visible to the requesting group
+    (main sees every task) and not close a loop of tasks triggering each other
+
+  Only then is scheduled_tasks written, with next_run computed by TaskScheduler.
+  """
+
+  require Logger
+
+  alias Guardian.Kernel.Config
+  alias Guardian.Kernel.IpcWatcher
+  alias Guardian.Kernel.State
+  alias Guardian.Kernel.TaskScheduler
+  alias Guardian.Repo
+
+  # Request fields stored as scheduled_tasks columns of the same name
+  @fields ~w(prompt schedule_type schedule_value context_mode timezone max_runs end_at jitter_seconds
+             depends_on include_upstream_result agent_options)
+  # Fields that change when a task runs, so next_run is computed again
+  @schedule_fields ~w(schedule_type schedule_value timezone max_runs end_at jitter_seconds depends_on)
+
+  @schedule_types ~w(cron interval once rrule trigger)
+  @context_modes ~w(group isolated)
+  @triggers ~w(on_success on_failure)
+
+  @doc """
+  Handles one task request from `source_group`, returning what IpcWatcher
+  answers the container with: `:ok`, `{:ok, message}` or `{:error, reason}`.
+
+  Options: `:registered_groups_fn` and `:timezone` (the host default zone).
+  """
+  def process(data, source_group, is_main, opts \\ [])
+
+  def process(%{"type" => "schedule_task"} = data, source_group, is_main, opts) do
+    target = data["target_group"] || data["groupFolder"] || source_group
+
+    with :ok <- authorize_target(target, source_group, is_main),
+         {:ok, chat_jid, group} <- find_group(registered_groups(opts), target),
+         {:ok, fields} <- validate_fields(data),
+         task = Map.merge(%{"group_folder" => target, "context_mode" => "isolated"}, fields),
+         :ok <- require_fields(task, ~w(prompt schedule_type schedule_value)),
+         :ok <- validate_schedule(task),
+         :ok <- check_upstream(task, nil, source_group, is_main),
+         {:ok, next_run} <- plan_next_run(task, group, 0, opts) do
+      id = "task-#{System.system_time(:millisecond)}-#{Base.encode16(:crypto.strong_rand_bytes(3), case: :lower)}"
+      insert_task(id, chat_jid, next_run, task)
+
+      Logger.info("Task scheduled id=#{id} group=#{target} sourceGroup=#{source_group} type=#{task["schedule_type"]}")
+      {:ok, "Task ID: #{id}"}
+    end
+  end
+
+  def process(%{"type" => "update_task", "taskId" => task_id} = data, source_group, is_main, opts)
+      when is_binary(task_id) do
+    with {:ok, task} <- fetch_task(task_id, source_group, is_main, "update_task"),
+         {:ok, fields} <- validate_fields(data),
+         :ok <- require_changes(fields),
+         {:ok, changes} <- plan_update(task, fields, source_group, is_main, opts) do
+      {columns, values} = Enum.unzip(changes)
+      assignments = columns |> Enum.with_index(1) |> Enum.map_join(", ", fn {column, i} -> "#{column} = ?#{i}" end)
+
+      Ecto.Adapters.SQL.query!(
+        Repo,
+        "UPDATE scheduled_tasks SET #{assignments} WHERE id = ?#{length(columns) + 1}",
+        values ++ [task_id]
+      )
+
+      Logger.info("Task updated id=#{task_id} sourceGroup=#{source_group} fields=#{Enum.join(Map.keys(fields), ",")}")
+
+      if task["status"] == "paused", do: {:ok, "It is still paused; resume it to run."}, else: :ok
+    end
+  end
+
+  def process(%{"type" => "pause_task", "taskId" => task_id}, source_group, is_main, _opts) when is_binary(task_id) do
+    with {:ok, task} <- fetch_task(task_id, source_group, is_main, "pause_task"),
+         :ok <- refuse_completed(task) do
+      set_status(task_id, "paused")
+      Logger.info("Task paused id=#{task_id} sourceGroup=#{source_group}")
+      :ok
+    end
+  end
+
+  def process(%{"type" => "resume_task", "taskId" => task_id}, source_group, is_main, _opts) when is_binary(task_id) do
+    with {:ok, task} <- fetch_task(task_id, source_group, is_main, "resume_task"),
+         :ok <- refuse_completed(task) do
+      set_status(task_id, "active")
+      Logger.info("Task resumed id=#{task_id} sourceGroup=#{source_group}")
+      :ok
+    end
+  end
+
+  def process(%{"type" => "cancel_task", "taskId" => task_id}, source_group, is_main, _opts) when is_binary(task_id) do
+    with {:ok, _task} <- fetch_task(task_id, source_group, is_main, "cancel_task"),
+         :ok <- refuse_dependents(task_id) do
+      Ecto.Adapters.SQL.query!(Repo, "DELETE FROM task_run_logs WHERE task_id = ?1", [task_id])
+      Ecto.Adapters.SQL.query!(Repo, "DELETE FROM scheduled_tasks WHERE id = ?1", [task_id])
+      Logger.info("Task cancelled id=#{task_id} sourceGroup=#{source_group}")
+      :ok
+    end
+  end
+
+  def process(%{"type" => type} = data, _source_group, _is_main, _opts)
+      when type in ~w(update_task pause_task resume_task cancel_task) do
+    {:error, "#{type} needs a taskId, got #{inspect(data["taskId"])}"}
+  end
+
+  def process(data, source_group, is_main, _opts) do
+    IpcWatcher.unhandled_task(data, source_group, is_main)
+  end
+
+  # --- Authorization ---
+
+  defp authorize_target(target, source_group, false) when target != source_group do
+    {:error, authorization_error(source_group, "schedule_task", "Cannot schedule tasks for group #{target}")}
+  end
+
+  defp authorize_target(_target, _source_group, _is_main), do: :ok
+
+  defp fetch_task(task_id, source_group, is_main, action) do
+    case query_task(task_id) do
+      nil ->
+        {:error, "Task #{task_id} not found"}
+
+      task ->
+        if is_main or task["group_folder"] == source_group do
+          {:ok, task}
+        else
+          {:error, authorization_error(source_group, action, "Task #{task_id} belongs to another group")}
+        end
+    end
+  end
+
+  defp authorization_error(source_group, action, message) do
+    %{"_tag" => "IpcAuthorizationError", "group" => source_group, "action" => action, "message" => message}
+  end
+
+  defp find_group(registered_groups, folder) do
+    case Enum.find(registered_groups, fn {_jid, g} -> (g["folder"] || g[:folder]) == folder end) do
+      nil -> {:error, "Group #{folder} is not registered"}
+      {jid, group} -> {:ok, jid, group}
+    end
+  end
+
+  defp registered_groups(opts) do
+    Keyword.get(opts, :registered_groups_fn, fn -> State.get_registered_groups() end).()
+  end
+
+  # --- Validation ---
+
+  defp validate_fields(data) do
+    Enum.reduce_while(@fields, {:ok, %{}}, fn field, {:ok, fields} ->
+      case data[field] do
+        nil ->
+          {:cont, {:ok, fields}}
+
+        value ->
+          case validate_field(field, value) do
+            {:ok, value} -> {:cont, {:ok, Map.put(fields, field, value)}}
+            {:error, reason} -> {:halt, {:error, reason}}
+          end
+      end
+    end)
+  end
+
+  defp validate_field("prompt", prompt) when is_binary(prompt) do
+    if String.trim(prompt) == "", do: {:error, "prompt must not be empty"}, else: {:ok, prompt}
+  end
+
+  defp validate_field("schedule_type", type) when type in @schedule_types, do: {:ok, type}
+  defp validate_field("schedule_value", value) when is_binary(value) and value != "", do: {:ok, value}
+  defp validate_field("context_mode", mode) when mode in @context_modes, do: {:ok, mode}
+
+  defp validate_field("timezone", timezone) when is_binary(timezone) do
+    case DateTime.now(timezone) do
+      {:ok, _now} -> {:ok, timezone}
+      {:error, _} -> {:error, "Unknown timezone: #{timezone}"}
+    end
+  end
+
+  defp validate_field("max_runs", max_runs) when is_integer(max_runs) and max_runs > 0, do: {:ok, max_runs}
+
+  defp validate_field("end_at", end_at) when is_binary(end_at) do
+    case DateTime.from_iso8601(end_at) do
+      {:ok, at, _offset} ->
+        if DateTime.compare(at, DateTime.utc_now()) == :gt do
+          {:ok, at |> DateTime.shift_zone!("Etc/UTC") |> DateTime.to_iso8601()}
+        else
+          {:error, "end_at #{end_at} is in the past"}
+        end
+
+      {:error, _} ->
+        {:error, "end_at must be an ISO 8601 instant with an offset, got #{inspect(end_at)}"}
+    end
+  end
+
+  defp validate_field("jitter_seconds", jitter) when is_integer(jitter) and jitter >= 0, do: {:ok, jitter}
+  defp validate_field("depends_on", task_id) when is_binary(task_id) and task_id != "", do: {:ok, task_id}
+  defp validate_field("include_upstream_result", include) when is_boolean(include), do: {:ok, include}
+
+  defp validate_field("agent_options", options) when is_map(options) do
+    invalid =
+      Enum.reject(options, fn
+        {"model", model} -> is_binary(model) and model != ""
+        {"maxTurns", turns} -> is_integer(turns) and turns > 0
+        {"systemPromptAppend", text} -> is_binary(text)
+        {"maxThinkingTokens", tokens} -> is_integer(tokens) and tokens >= 0
+        _ -> false
+      end)
+
+    case invalid do
+      [] -> {:ok, Jason.encode!(options)}
+      [{key, value} | _] -> {:error, "Invalid agent_options.#{key}: #{inspect(value)}"}
+    end
+  end
+
+  defp validate_field(field, value), do: {:error, "Invalid #{field}: #{inspect(value)}"}
+
+  defp require_fields(task, fields) do
+    case Enum.reject(fields, &Map.has_key?(task, &1)) do
+      [] -> :ok
+      missing -> {:error, "Missing #{Enum.join(missing, ", ")}"}
+    end
+  end
+
+  defp require_changes(fields) when map_size(fields) == 0, do: {:error, "Nothing to update"}
+  defp require_changes(_fields), do: :ok
+
+  defp validate_schedule(%{"schedule_type" => "trigger"} = task) do
+    cond do
+      task["schedule_value"] not in @triggers ->
+        {:error, "A trigger schedule_value is on_success or on_failure, got #{inspect(task["schedule_value"])}"}
+
+      is_nil(task["depends_on"]) ->
+        {:error, "A trigger task needs depends_on, the upstream task ID"}
+
+      true ->
+        :ok
+    end
+  end
+
+  defp validate_schedule(%{"depends_on" => upstream_id}) when is_binary(upstream_id) do
+    {:error, "depends_on only applies to trigger tasks"}
+  end
+
+  defp validate_schedule(_task), do: :ok
+
+  defp check_upstream(%{"schedule_type" => "trigger", "depends_on" => upstream_id}, task_id, source_group, is_main) do
+    tasks = query_all_tasks()
+    upstream = Enum.find(tasks, &(&1["id"] == upstream_id))
+
+    cond do
+      # Other groups' tasks are as unknown here as in the group's task list
+      is_nil(upstream) or not (is_main or upstream["group_folder"] == source_group) ->
+        {:error, "Upstream task #{upstream_id} not found"}
+
+      cycle = find_cycle(tasks, task_id, upstream_id) ->
+        {:error, "That would make a dependency loop: #{Enum.join(cycle, " → ")}"}
+
+      true ->
+        :ok
+    end
+  end
+
+  defp check_upstream(_task, _task_id, _source_group, _is_main), do: :ok
+
+  # Port of the container's findDependencyCycle: the loop closed by making
+  # `task_id` depend on `depends_on`, from `task_id` back to itself, or nil.
+  # A task being created (nil ID) can only run into a loop already upstream.
+  defp find_cycle(tasks, task_id, depends_on) do
+    upstream_of = Map.new(tasks, &{&1["id"], &1["depends_on"]})
+
+    if task_id do
+      walk_upstream(depends_on, Map.put(upstream_of, task_id, depends_on), [task_id])
+    else
+      walk_upstream(depends_on, upstream_of, [])
+    end
+  end
+
+  defp walk_upstream(nil, _upstream_of, _path), do: nil
+
+  defp walk_upstream(current, upstream_of, path) do
+    if current in path do
+      Enum.drop_while(path, &(&1 != current)) ++ [current]
+    else
+      walk_upstream(upstream_of[current], upstream_of, path ++ [current])
+    end
+  end
+
+  # --- Scheduling ---
+
+  # A trigger task waits for its upstream; the rest need a run ahead of now
+  # that the end conditions still allow, counting the runs already logged.
+  defp plan_next_run(%{"schedule_type" => "trigger"}, _group, _run_count, _opts), do: {:ok, nil}
+
+  defp plan_next_run(task, group, run_count, opts) do
+    timezone = TaskScheduler.task_timezone(task, group, Keyword.get(opts, :timezone, Config.timezone()))
+
+    case TaskScheduler.first_run(task["schedule_type"], task["schedule_value"], timezone) do
+      {:error, reason} ->
+        {:error, reason}
+
+      nil ->
+        {:error, "#{task["schedule_type"]} schedule #{inspect(task["schedule_value"])} has no upcoming run (#{timezone})"}
+
+      next_run ->
+        case TaskScheduler.apply_end_conditions(next_run, task, run_count) do
+          nil -> {:error, "The schedule has no runs left before its max_runs or end_at"}
+          next_run -> {:ok, TaskScheduler.apply_jitter(next_run, task["jitter_seconds"])}
+        end
+    end
+  end
+
+  # Column changes for update_task; a new schedule is checked like a new task
+  defp plan_update(task, fields, source_group, is_main, opts) do
+    if Enum.any?(@schedule_fields, &Map.has_key?(fields, &1)) do
+      updated = Map.merge(task, fields)
+
+      # Leaving the trigger type drops the old upstream unless a new one is given
+      updated =
+        if updated["schedule_type"] != "trigger" and not Map.has_key?(fields, "depends_on") do
+          Map.put(updated, "depends_on", nil)
+        else
+          updated
+        end
+
+      with :ok <- validate_schedule(updated),
+           :ok <- check_upstream(updated, task["id"], source_group, is_main),
+           {:ok, _jid, group} <- find_group(registered_groups(opts), task["group_folder"]),
+           {:ok, next_run} <- plan_next_run(updated, group, count_task_runs(task["id"]), opts) do
+        # A completed task given a new schedule runs again
+        status = if task["status"] == "completed", do: "active", else: task["status"]
+
+        {:ok,
+         fields
+         |> Map.merge(%{"depends_on" => updated["depends_on"], "next_run" => next_run, "status" => status})
+         |> Enum.to_list()}
+      end
+    else
+      {:ok, Enum.to_list(fields)}
+    end
+  end
+
+  defp refuse_completed(%{"status" => "completed", "id" => task_id}) do
+    {:error, "Task #{task_id} has completed; update its schedule to run it again"}
+  end
+
+  defp refuse_completed(_task), do: :ok
+
+  # Triggered tasks would be left waiting on a task that no longer exists
+  defp refuse_dependents(task_id) do
+    case Ecto.Adapters.SQL.query!(Repo, "SELECT id FROM scheduled_tasks WHERE depends_on = ?1", [task_id]) do
+      %{rows: []} ->
+        :ok
+
+      %{rows: rows} ->
+        {:error, "Task #{task_id} triggers #{rows |> List.flatten() |> Enum.join(", ")}; cancel or update those first"}
+    end
+  end
+
+  # --- DB helpers ---
+
+  defp insert_task(id, chat_jid, next_run, task) do
+    Ecto.Adapters.SQL.query!(
+      Repo,
+      """
+      INSERT INTO scheduled_tasks (id, group_folder, chat_jid, prompt, schedule_type, schedule_value, next_run, status, created_at,
+        context_mode, agent_options, timezone, max_runs, end_at, jitter_seconds, depends_on, include_upstream_result)
+      VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, 'active', ?8, ?9, ?10, ?11, ?12, ?13, ?14, ?15, ?16)
+      """,
+      [
+        id,
+        task["group_folder"],
+        chat_jid,
+        task["prompt"],
+        task["schedule_type"],
+        task["schedule_value"],
+        next_run,
+        DateTime.utc_now() |> DateTime.to_iso8601(),
+        task["context_mode"],
+        task["agent_options"],
+        task["timezone"],
+        task["max_runs"],
+        task["end_at"],
+        task["jitter_seconds"],
+        task["depends_on"],
+        task["include_upstream_result"]
+      ]
+    )
+  end
+
+  defp set_status(task_id, status) do
+    Ecto.Adapters.SQL.query!(Repo, "UPDATE scheduled_tasks SET status = ?1 WHERE id = ?2", [status, task_id])
+  end
+
+  defp query_task(task_id) do
+    case Ecto.Adapters.SQL.query(Repo, "SELECT * FROM scheduled_tasks WHERE id = ?1", [task_id]) do
+      {:ok, %{rows: [row], columns: columns}} -> Enum.zip(columns, row) |> Map.new()
+      _ -> nil
+    end
+  end
+
+  defp query_all_tasks do
+    case Ecto.Adapters.SQL.query(Repo, "SELECT id, group_folder, depends_on FROM scheduled_tasks") do
+      {:ok, %{rows: rows, columns: columns}} -> Enum.map(rows, fn row -> Enum.zip(columns, row) |> Map.new() end)
+      {:error, _} -> []
+    end
+  end
+
+  defp count_task_runs(task_id) do
+    case Ecto.Adapters.SQL.query(Repo, "SELECT COUNT(*) FROM task_run_logs WHERE task_id = ?1", [task_id]) do
+      {:ok, %{rows: [[count]]}} -> count
+      _ -> 0
+    end
+  end
+end
@@ -4,14 +4,37 @@ defmodule Guardian.Kernel.IpcWatcher do
   from agent containers. Port of the startIpcWatcher() function in index.ts.
 
   Scans each registered group's IPC directories:
-  - ipc/{folder}/messages/*.json → decode → send WhatsApp message → delete
+  - ipc/{folder}/messages/*.json → decode → send WhatsApp message or media → delete
+    (template_tamper events are logged and relayed to the main group's chat)
   - ipc/{folder}/tasks/*.json → decode → process task IPC → delete
+
+  Task files carrying a `requestId` are answered with
+  ipc/{folder}/responses/{requestId}.json so the container tool can report
+  the real outcome. `process_task_fn` returns `:ok`, `{:ok, message}`,
+  `{:error, message}` or `{:error, %{_tag: ..., message: ...}}` (a flattened
+  tagged error such as IpcAuthorizationError). Anything else is answered as
+  an error, and without a `process_task_fn` every action is rejected with
+  IpcUnsupportedActionError rather than reported as done. The kernel supervisor
+  wires in IpcTasks.process/3 for the task actions.
+
+  Before dispatch, non-main groups are refused main-only actions and
+  requests made on behalf of another group (IpcAuthorizationError).
+
+  `seal_templates` is handled here rather than by `process_task_fn`: the host
+  hashes and signs the target group's templates with a key the container
+  never sees, and tells the owner in the main chat what was sealed.
   """
 
   use GenServer
   require Logger
 
   alias Guardian.Kernel.Config
+  alias Guardian.Kernel.TemplateIntegrity
+
+  @main_only_actions ~w(register_group refresh_groups seal_templates)
+
+  # Symlinks followed while resolving one media path before giving up (ELOOP)
+  @max_symlinks 40
 
   # --- Public API ---
 
@@ -23,8 +46,13 @@ defmodule Guardian.Kernel.IpcWatcher do
 
   @impl true
   def init(opts) do
+    data_dir = Keyword.get(opts, :data_dir, Config.data_dir())
+    groups_dir = Keyword.get(opts, :groups_dir, Config.groups_dir())
+    state_dir = Keyword.get(opts, :state_dir, Config.state_dir())
+
     state = %{
-      data_dir: Keyword.get(opts, :data_dir, Config.data_dir()),
+      data_dir: data_dir,
+      groups_dir: groups_dir,
       main_group_folder: Keyword.get(opts, :main_group_folder, Config.main_group_folder()),
       poll_interval: Keyword.get(opts, :poll_interval, Config.ipc_poll_interval()),
       list_dir: Keyword.get(opts, :list_dir, &File.ls/1),
@@ -33,10 +61,14 @@ defmodule Guardian.Kernel.IpcWatcher do
       dir_exists: Keyword.get(opts, :dir_exists, &File.dir?/1),
       mkdir_p: Keyword.get(opts, :mkdir_p, &File.mkdir_p!/1),
       rename_file: Keyword.get(opts, :rename_file, &File.rename/2),
+      write_file: Keyword.get(opts, :write_file, &File.write!/2),
       is_dir: Keyword.get(opts, :is_dir, &File.dir?/1),
       # Callbacks for processing — injected for testability
       send_message_fn: Keyword.get(opts, :send_message_fn, fn _jid, _text -> :ok end),
-      process_task_fn: Keyword.get(opts, :process_task_fn, fn _data, _source_group, _is_main -> :ok end),
+      send_media_fn: Keyword.get(opts, :send_media_fn, fn _jid, _media -> {:error, :not_configured} end),
+      real_path: Keyword.get(opts, :real_path, &real_path/1),
+      process_task_fn: Keyword.get(opts, :process_task_fn, &unhandled_task/3),
+      seal_templates_fn: Keyword.get(opts, :seal_templates_fn, &default_seal_templates(&1, groups_dir, state_dir)),
       get_registered_groups_fn: Keyword.get(opts, :get_registered_groups_fn, fn -> %{} end)
     }
 
@@ -79,7 +111,7 @@ defmodule Guardian.Kernel.IpcWatcher do
         for source_group <- group_folders do
           is_main = source_group == state.main_group_folder
           process_messages(source_group, is_main, registered_groups, ipc_base, state)
-          process_tasks(source_group, is_main, ipc_base, state)
+          process_tasks(source_group, is_main, registered_groups, ipc_base, state)
         end
 
       {:error, reason} ->
@@ -104,9 +136,7 @@ defmodule Guardian.Kernel.IpcWatcher do
                   {:ok, %{"type" => "message", "chatJid" => chat_jid, "text" => text}}
                   when is_binary(chat_jid) and is_binary(text) ->
                     # Authorization: verify this group can send to this chatJid
-                    target_group = Map.get(registered_groups, chat_jid)
-
-                    if is_main or (target_group && (target_group["folder"] || target_group[:folder]) == source_group) do
+                    if authorized_for_chat?(chat_jid, source_group, is_main, registered_groups) do
                       assistant_name = Config.assistant_name()
                       state.send_message_fn.(chat_jid, "#{assistant_name}: #{text}")
                       Logger.info("IPC message sent chatJid=#{chat_jid} sourceGroup=#{source_group}")
@@ -116,6 +146,76 @@ defmodule Guardian.Kernel.IpcWatcher do
 
                     state.delete_file.(file_path)
 
+                  {:ok, %{"type" => "media", "chatJid" => chat_jid, "file" => file} = media}
+                  when is_binary(chat_jid) and is_binary(file) ->
+                    host_path = resolve_group_file(state.groups_dir, source_group, file, state.real_path)
+
+                    cond do
+                      not authorized_for_chat?(chat_jid, source_group, is_main, registered_groups) ->
+                        Logger.warning("Unauthorized IPC media attempt blocked chatJid=#{chat_jid} sourceGroup=#{source_group}")
+
+                      host_path == nil ->
+                        Logger.warning("IPC media path missing or outside group folder blocked file=#{file} sourceGroup=#{source_group}")
+
+                      true ->
+                        result =
+                          state.send_media_fn.(chat_jid, %{
+                            path: host_path,
+                            mimetype: media["mimeType"],
+                            kind: media["kind"],
+                            caption: media["caption"],
+                            voice_note: media["voiceNote"] == true
+                          })
+
+                        case result do
+                          :ok ->
+                            Logger.info("IPC media sent chatJid=#{chat_jid} sourceGroup=#{source_group} kind=#{media["kind"]}")
+
+                          {:error, reason} ->
+                            Logger.error("IPC media send failed chatJid=#{chat_jid} sourceGroup=#{source_group}: #{inspect(reason)}")
+                        end
+                    end
+
+                    state.delete_file.(file_path)
+
+                  {:ok, %{"type" => "template_tamper", "files" => files} = event} when is_list(files) ->
+                    summary =
+                      Enum.map_join(files, ", ", fn f ->
+                        if f["restored"], do: "#{f["file"]} (restored)", else: "#{f["file"]}"
+                      end)
+
+                    manifest_note =
+                      cond do
+                        event["manifestMissing"] -> "manifest deleted"
+                        event["manifestValid"] == false -> "manifest altered"
+                        true -> nil
+                      end
+
+                    summary = [manifest_note, summary] |> Enum.reject(&(&1 in [nil, ""])) |> Enum.join("; ")
+
+                    # Every group sees the global layer, so any of them may report it
+                    where =
+                      if event["layer"] == "global",
+                        do: "the global templates (seen by #{source_group})",
+                        else: source_group
+
+                    Logger.warning(
+                      "Template tamper detected sourceGroup=#{source_group} layer=#{event["layer"] || "group"} manifestValid=#{event["manifestValid"]} files=#{summary}"
+                    )
+
+                    case main_chat_jid(registered_groups, state.main_group_folder) do
+                      nil ->
+                        :ok
+
+                      main_jid ->
+                        state.send_message_fn.(
+                          main_jid,
+                          "#{Config.assistant_name()}: Template integrity alert in #{where}: #{summary}"
+                        )
+                    end
+
+                    state.delete_file.(file_path)
+
                   {:ok, _} ->
                     state.delete_file.(file_path)
 
@@ -136,7 +236,7 @@ defmodule Guardian.Kernel.IpcWatcher do
     end
   end
 
-  defp process_tasks(source_group, is_main, ipc_base, state) do
+  defp process_tasks(source_group, is_main, registered_groups, ipc_base, state) do
     tasks_dir = Path.join([ipc_base, source_group, "tasks"])
 
     if state.dir_exists.(tasks_dir) do
@@ -151,7 +251,12 @@ defmodule Guardian.Kernel.IpcWatcher do
               {:ok, content} ->
                 case Jason.decode(content) do
                   {:ok, data} ->
-                    state.process_task_fn.(data, source_group, is_main)
+                    result =
+                      with :ok <- authorize_task(data, source_group, is_main) do
+                        dispatch_task(data, source_group, is_main, registered_groups, state)
+                      end
+
+                    maybe_write_response(data, result, source_group, ipc_base, state)
                     state.delete_file.(file_path)
 
                   {:error, err} ->
@@ -171,6 +276,171 @@ defmodule Guardian.Kernel.IpcWatcher do
     end
   end
 
+  defp authorize_task(%{"type" => type}, source_group, false) when type in @main_only_actions do
+    {:error, authorization_error(source_group, type, "Only the main group can #{type}")}
+  end
+
+  defp authorize_task(%{"groupFolder" => folder} = data, source_group, false)
+       when is_binary(folder) and folder != source_group do
+    {:error, authorization_error(source_group, data["type"], "Cannot act on behalf of group #{folder}")}
+  end
+
+  defp authorize_task(_data, _source_group, _is_main), do: :ok
+
+  defp authorization_error(source_group, action, message) do
+    %{"_tag" => "IpcAuthorizationError", "group" => source_group, "action" => to_string(action), "message" => message}
+  end
+
+  defp dispatch_task(%{"type" => "seal_templates"} = data, source_group, _is_main, registered_groups, state) do
+    target = data["targetFolder"] || source_group
+
+    if is_binary(target) and Regex.match?(~r/^[a-z0-9][a-z0-9-]*$/, target) do
+      case state.seal_templates_fn.(target) do
+        {:ok, manifest} ->
+          files = manifest["files"] |> Map.keys() |> Enum.sort() |> Enum.join(", ")
+          signed = if manifest["signature"], do: "signed", else: "unsigned"
+          Logger.info("Templates sealed group=#{target} sourceGroup=#{source_group} #{signed} files=#{files}")
+
+          # A seal blesses whatever the files hold now, so the owner always hears of it
+          case main_chat_jid(registered_groups, state.main_group_folder) do
+            nil ->
+              :ok
+
+            main_jid ->
+              state.send_message_fn.(
+                main_jid,
+                "#{Config.assistant_name()}: Templates sealed in #{target} (#{signed}): #{files}"
+              )
+          end
+
+          {:ok, "#{map_size(manifest["files"])} file(s), #{signed}: #{files}"}
+
+        {:error, reason} ->
+          {:error, "Sealing templates in #{target} failed: #{inspect(reason)}"}
+      end
+    else
+      {:error, "Invalid group folder: #{inspect(target)}"}
+    end
+  end
+
+  defp dispatch_task(data, source_group, is_main, _registered_groups, state) do
+    state.process_task_fn.(data, source_group, is_main)
+  end
+
+  defp default_seal_templates(folder, groups_dir, state_dir) do
+    TemplateIntegrity.seal_group(
+      Path.join(groups_dir, folder),
+      Path.join(groups_dir, "global"),
+      TemplateIntegrity.record_path(state_dir, folder),
+      TemplateIntegrity.configured_key()
+    )
+  end
+
+  @doc "Answers an action nothing on the host handles with IpcUnsupportedActionError."
+  def unhandled_task(data, source_group, _is_main) do
+    action = to_string(data["type"])
+    Logger.warning("No handler for IPC action=#{action} sourceGroup=#{source_group}")
+
+    {:error,
+     %{
+       "_tag" => "IpcUnsupportedActionError",
+       "group" => source_group,
+       "action" => action,
+       "message" => "The host does not handle #{action} requests"
+     }}
+  end
+
+  defp authorized_for_chat?(chat_jid, source_group, is_main, registered_groups) do
+    target_group = Map.get(registered_groups, chat_jid)
+    is_main or (target_group != nil and (target_group["folder"] || target_group[:folder]) == source_group)
+  end
+
+  defp main_chat_jid(registered_groups, main_group_folder) do
+    Enum.find_value(registered_groups, fn {jid, group} ->
+      if (group["folder"] || group[:folder]) == main_group_folder, do: jid
+    end)
+  end
+
+  # Media paths are relative to the source group's folder. Both sides are
+  # resolved through every symlink on the host before the containment check,
+  # so a link the agent planted inside its folder cannot point the bridge
+  # elsewhere; the resolved path is what gets sent. Missing files are rejected.
+  defp resolve_group_file(groups_dir, source_group, file, real_path_fn) do
+    with {:ok, group_dir} <- real_path_fn.(Path.join(groups_dir, source_group)),
+         {:ok, host_path} <- real_path_fn.(Path.join(group_dir, file)),
+         true <- String.starts_with?(host_path, group_dir <> "/") do
+      host_path
+    else
+      _ -> nil
+    end
+  end
+
+  # realpath(3): `path` with every symlink along it resolved, component by component.
+  defp real_path(path), do: resolve_components(Path.split(Path.expand(path)), "/", 0)
+
+  defp resolve_components(_parts, _resolved, links) when links > @max_symlinks, do: {:error, :eloop}
+  defp resolve_components([], resolved, _links), do: {:ok, resolved}
+  defp resolve_components(["/" | rest], _resolved, links), do: resolve_components(rest, "/", links)
+
+  defp resolve_components([part | rest], resolved, links) do
+    candidate = Path.join(resolved, part)
+
+    case File.lstat(candidate) do
+      {:ok, %File.Stat{type: :symlink}} ->
+        with {:ok, target} <- File.read_link(candidate) do
+          target |> Path.expand(resolved) |> Path.split() |> Kernel.++(rest) |> resolve_components("/", links + 1)
+        end
+
+      {:ok, _stat} ->
+        resolve_components(rest, candidate, links)
+
+      {:error, reason} ->
+        {:error, reason}
+    end
+  end
+
+  defp maybe_write_response(%{"requestId" => request_id}, result, source_group, ipc_base, state)
+       when is_binary(request_id) do
+    if Regex.match?(~r/^[A-Za-z0-9-]{1,64}$/, request_id) do
+      responses_dir = Path.join([ipc_base, source_group, "responses"])
+      state.mkdir_p.(responses_dir)
+
+      # Atomic write: the container polls for the final filename
+      response_path = Path.join(responses_dir, "#{request_id}.json")
+      temp_path = response_path <> ".tmp"
+      state.write_file.(temp_path, Jason.encode!(build_response(request_id, result)))
+      state.rename_file.(temp_path, response_path)
+    else
+      Logger.warning("Invalid IPC requestId, no response written sourceGroup=#{source_group}")
+    end
+  end
+
+  defp maybe_write_response(_data, _result, _source_group, _ipc_base, _state), do: :ok
+
+  defp build_response(request_id, result) do
+    base = %{"requestId" => request_id, "timestamp" => DateTime.utc_now() |> DateTime.to_iso8601()}
+
+    case result do
+      {:ok, message} when is_binary(message) ->
+        Map.merge(base, %{"status" => "ok", "message" => message})
+
+      {:error, %{} = error} ->
+        Map.merge(base, %{"status" => "error", "error" => error})
+
+      {:error, message} when is_binary(message) ->
+        Map.merge(base, %{"status" => "error", "message" => message})
+
+      {:error, reason} ->
+        Map.merge(base, %{"status" => "error", "message" => inspect(reason)})
+
+      :ok ->
+        Map.put(base, "status", "ok")
+
+      other ->
+        Map.merge(base, %{"status" => "error", "message" => "Unexpected handler result: #{inspect(other)}"})
+    end
+  end
+
   defp move_to_errors(file_path, source_group, file, ipc_base, state) do
     error_dir = Path.join(ipc_base, "errors")
     state.mkdir_p.(error_dir)
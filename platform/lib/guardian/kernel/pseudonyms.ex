@@ -0,0 +1,98 @@
+defmodule Guardian.Kernel.Pseudonyms do
+  @moduledoc """
+  Host side of log pseudonymization.
+
+  GUARDIAN_PSEUDONYM_KEY never leaves the host: each container gets a key
+  derived for its group and reports the contact identifiers (JIDs, phone
+  numbers) behind the pseudonyms it issues as `pseudonym` events. They are
+  kept in a per-group vault under the host state dir (Config.state_dir/0),
+  outside the project root the main group's container mounts.
+  """
+
+  @doc "The group's pseudonym key (hex), or nil when no master key is configured."
+  @spec group_key(String.t(), String.t() | nil) :: String.t() | nil
+  def group_key(_folder, nil), do: nil
+  def group_key(_folder, ""), do: nil
+
+  def group_key(folder, master_key) do
+    :crypto.mac(:hmac, :sha256, master_key, "guardian-pseudonym:" <> folder)
+    |> Base.encode16(case: :lower)
+  end
+
+  @spec vault_path(String.t(), String.t()) :: String.t()
+  def vault_path(state_dir, folder), do: Path.join([state_dir, "pseudonyms", folder, "vault.jsonl"])
+
+  @doc """
+  Append the tokens of `pseudonym` events that are not in the vault yet.
+  The vault directory is created 0700 and the file 0600.
+  """
+  @spec record(String.t(), [map()]) :: :ok
+  def record(vault_path, events) do
+    known = vault_path |> read_vault() |> MapSet.new(& &1["token"])
+
+    entries =
+      events
+      |> Enum.filter(&pseudonym_event?/1)
+      |> Enum.uniq_by(& &1["token"])
+      |> Enum.reject(&MapSet.member?(known, &1["token"]))
+
+    if entries != [] do
+      dir = Path.dirname(vault_path)
+      File.mkdir_p!(dir)
+      File.chmod!(dir, 0o700)
+
+      # Restrict the file before the first identifier is written to it
+      unless File.exists?(vault_path), do: File.touch!(vault_path)
+      File.chmod!(vault_path, 0o600)
+
+      lines =
+        Enum.map(entries, fn event ->
+          entry = %{
+            "token" => event["token"],
+            "original" => event["original"],
+            "pattern" => event["pattern"],
+            "firstSeen" => event["timestamp"]
+          }
+
+          [Jason.encode!(entry), "\n"]
+        end)
+
+      File.write!(vault_path, lines, [:append])
+    end
+
+    :ok
+  end
+
+  @doc "Reverse lookup for incident response: every original recorded for a token."
+  @spec lookup(String.t(), String.t()) :: [String.t()]
+  def lookup(vault_path, token) do
+    vault_path
+    |> read_vault()
+    |> Enum.filter(&(&1["token"] == token))
+    |> Enum.map(& &1["original"])
+  end
+
+  defp pseudonym_event?(%{"type" => "pseudonym", "token" => token, "original" => original})
+       when is_binary(token) and is_binary(original),
+       do: true
+
+  defp pseudonym_event?(_), do: false
+
+  defp read_vault(vault_path) do
+    case File.read(vault_path) do
+      {:ok, content} ->
+        content
+        |> String.split("\n", trim: true)
+        |> Enum.flat_map(fn line ->
+          case Jason.decode(line) do
+            {:ok, %{} = entry} -> [entry]
+            # Skip torn writes
+            _ -> []
+          end
+        end)
+
+      {:error, _} ->
+        []
+    end
+  end
+end
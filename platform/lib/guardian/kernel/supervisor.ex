@@ -22,7 +22,13 @@ defmodule Guardian.Kernel.Supervisor do
           {Task.Supervisor, name: Guardian.Kernel.TaskSupervisor},
           {Guardian.Kernel.WhatsApp.Bridge, []},
           {Guardian.Kernel.WhatsApp.MessageRouter, []},
-          {Guardian.Kernel.IpcWatcher, []},
+          {Guardian.Kernel.IpcWatcher,
+           [
+             send_message_fn: &Guardian.Kernel.WhatsApp.Bridge.send_message/2,
+             send_media_fn: &Guardian.Kernel.WhatsApp.Bridge.send_media/2,
+             process_task_fn: &Guardian.Kernel.IpcTasks.process/3,
+             get_registered_groups_fn: &Guardian.Kernel.State.get_registered_groups/0
+           ]},
           {Guardian.Kernel.TaskScheduler, []}
         ]
       else
@@ -3,8 +3,17 @@ defmodule Guardian.Kernel.TaskScheduler do
   GenServer that polls for due scheduled tasks and runs them in containers.
   Port of task-scheduler.ts.
 
-  Supports schedule types: cron, interval, once.
-  Uses Crontab for cron expression parsing.
+  Supports schedule types: cron, interval, once, rrule, trigger.
+  Uses Crontab for cron expressions and Cocktail for RFC 5545 RRULEs; ordinal
+  BYDAY (`-1FR`) and EXDATE are applied here on top of Cocktail's occurrences.
+  A task whose RRULE no longer parses is paused and reported to its chat
+  instead of being marked completed.
+  Any type may stop after `max_runs` runs or at `end_at`, and may start each
+  run up to `jitter_seconds` late.
+
+  A `trigger` task has no clock: when its `depends_on` task finishes with the
+  outcome in its schedule_value (`on_success` / `on_failure`), it is queued
+  for the next poll, optionally with the upstream's last_result as input.
   """
 
   use GenServer
@@ -15,6 +24,10 @@ defmodule Guardian.Kernel.TaskScheduler do
   alias Guardian.Kernel.State
   alias Guardian.Repo
 
+  # Safety stop for rules whose next occurrences all resolve into the past
+  @max_rrule_steps 1000
+  @rrule_weekdays %{"MO" => 1, "TU" => 2, "WE" => 3, "TH" => 4, "FR" => 5, "SA" => 6, "SU" => 7}
+
   # --- Public API ---
 
   def start_link(opts \\ []) do
@@ -30,7 +43,7 @@ defmodule Guardian.Kernel.TaskScheduler do
       main_group_folder: Keyword.get(opts, :main_group_folder, Config.main_group_folder()),
       timezone: Keyword.get(opts, :timezone, Config.timezone()),
       state_server: Keyword.get(opts, :state_server, State),
-      run_container_fn: Keyword.get(opts, :run_container_fn, &ContainerRunner.run/3),
+      run_container_fn: Keyword.get(opts, :run_container_fn, &ContainerRunner.run_with_retry/3),
       send_message_fn: Keyword.get(opts, :send_message_fn, fn _jid, _text -> :ok end),
       enabled: Keyword.get(opts, :enabled, true)
     }
@@ -121,19 +134,11 @@ defmodule Guardian.Kernel.TaskScheduler do
     ContainerRunner.write_tasks_snapshot(
       group_folder,
       is_main,
-      Enum.map(all_tasks, fn t ->
-        %{
-          "id" => t["id"],
-          "group_folder" => t["group_folder"],
-          "prompt" => t["prompt"],
-          "schedule_type" => t["schedule_type"],
-          "schedule_value" => t["schedule_value"],
-          "status" => t["status"],
-          "next_run" => t["next_run"]
-        }
-      end)
+      Enum.map(all_tasks, &ContainerRunner.task_snapshot_entry/1)
     )
 
+    ContainerRunner.write_task_history_snapshot(group_folder, is_main, ContainerRunner.recent_task_runs())
+
     # Determine session ID based on context_mode
     sessions = State.get_sessions(state.state_server)
     session_id = if task["context_mode"] == "group", do: Map.get(sessions, group_folder), else: nil
@@ -144,7 +149,10 @@ defmodule Guardian.Kernel.TaskScheduler do
       group_folder: group_folder,
       chat_jid: task["chat_jid"],
       is_main: is_main,
-      is_scheduled_task: true
+      is_scheduled_task: true,
+      task_id: task_id,
+      agent_options: decode_agent_options(task["agent_options"]),
+      upstream: upstream_result(task)
     }
 
     {status, result, error} =
@@ -152,6 +160,10 @@ defmodule Guardian.Kernel.TaskScheduler do
         {:ok, %{status: "success", result: result}} ->
           {"success", result, nil}
 
+        {:ok, %{status: "budget_exceeded", result: notice}} ->
+          state.send_message_fn.(task["chat_jid"], "#{Config.assistant_name()}: #{notice}")
+          {"error", nil, notice}
+
         {:ok, %{status: "error", error: err}} ->
           {"error", nil, err || "Unknown error"}
 
@@ -163,9 +175,6 @@ defmodule Guardian.Kernel.TaskScheduler do
 
     log_task_run(task_id, start_time, status, result, error)
 
-    # Calculate next_run
-    next_run = compute_next_run(task["schedule_type"], task["schedule_value"], state.timezone)
-
     result_summary =
       cond do
         error -> "Error: #{error}"
@@ -173,22 +182,49 @@ defmodule Guardian.Kernel.TaskScheduler do
         true -> "Completed"
       end
 
-    update_task_after_run(task_id, next_run, result_summary)
+    # Calculate next_run
+    run_count = count_task_runs(task_id)
+
+    case compute_next_run(task["schedule_type"], task["schedule_value"], task_timezone(task, group, state.timezone)) do
+      {:error, reason} ->
+        pause_invalid_schedule(task, reason, state)
+
+      next_run ->
+        next_run =
+          next_run
+          |> apply_end_conditions(task, run_count)
+          |> apply_jitter(task["jitter_seconds"])
+
+        # A triggered task waits for its upstream again until an end condition is met
+        completed =
+          if task["schedule_type"] == "trigger" do
+            DateTime.utc_now() |> DateTime.to_iso8601() |> apply_end_conditions(task, run_count) |> is_nil()
+          else
+            is_nil(next_run)
+          end
+
+        update_task_after_run(task_id, next_run, result_summary, completed)
+    end
+
+    trigger_dependents(task_id, status)
 
     Logger.info("Task completed id=#{task_id} duration=#{duration_ms}ms status=#{status}")
   end
 
   @doc false
-  def compute_next_run("cron", cron_expression, _timezone) do
-    case Crontab.CronExpression.Parser.parse(cron_expression) do
-      {:ok, expr} ->
-        case Crontab.Scheduler.get_next_run_date(expr) do
-          {:ok, next} ->
-            next |> NaiveDateTime.to_string() |> Kernel.<>("Z")
-
-          {:error, _} ->
-            nil
-        end
+  def compute_next_run("cron", cron_expression, timezone) do
+    # Cron fields are wall-clock times in the task's zone
+    with {:ok, expr} <- Crontab.CronExpression.Parser.parse(cron_expression),
+         {:ok, now} <- DateTime.now(timezone),
+         {:ok, next} <- Crontab.Scheduler.get_next_run_date(expr, DateTime.to_naive(now)) do
+      next
+      |> resolve_local_time(timezone)
+      |> DateTime.shift_zone!("Etc/UTC")
+      |> DateTime.to_iso8601()
+    else
+      {:error, :time_zone_not_found} ->
+        Logger.warning("Unknown timezone: #{timezone}")
+        nil
 
       {:error, _} ->
         Logger.warning("Invalid cron expression: #{cron_expression}")
@@ -196,6 +232,39 @@ defmodule Guardian.Kernel.TaskScheduler do
     end
   end
 
+  # Unlike the other types, a rule that cannot be evaluated is `{:error, reason}`
+  # rather than nil, so the task is paused instead of completing.
+  def compute_next_run("rrule", rrule, timezone) do
+    # Occurrences are floating wall times in the task's zone, like cron fields
+    with {:ok, source, filters} <- prepare_rrule(rrule),
+         {:ok, schedule} <- Cocktail.Schedule.from_i_calendar(source),
+         {:ok, now} <- DateTime.now(timezone) do
+      schedule
+      |> Cocktail.Schedule.occurrences(DateTime.to_naive(now))
+      |> Stream.take(@max_rrule_steps)
+      |> Stream.filter(&rrule_occurrence?(&1, filters))
+      |> Stream.map(&resolve_local_time(&1, timezone))
+      |> Enum.find(&(DateTime.compare(&1, now) == :gt))
+      |> case do
+        nil ->
+          nil
+
+        next ->
+          next
+          |> DateTime.shift_zone!("Etc/UTC")
+          |> DateTime.to_iso8601()
+      end
+    else
+      {:error, :time_zone_not_found} ->
+        Logger.error("Unknown timezone for rrule: #{timezone}")
+        {:error, "Unknown timezone: #{timezone}"}
+
+      {:error, reason} ->
+        Logger.error("Invalid rrule #{inspect(rrule)}: #{inspect(reason)}")
+        {:error, "Invalid RRULE: #{if is_binary(reason), do: reason, else: inspect(reason)}"}
+    end
+  end
+
   def compute_next_run("interval", ms_string, _timezone) do
     case Integer.parse(ms_string) do
       {ms, _} when ms > 0 ->
@@ -211,11 +280,291 @@ defmodule Guardian.Kernel.TaskScheduler do
 
   def compute_next_run("once", _value, _timezone), do: nil
 
+  # Queued by trigger_dependents/2 when the upstream finishes
+  def compute_next_run("trigger", _value, _timezone), do: nil
+
   def compute_next_run(type, _value, _timezone) do
     Logger.warning("Unknown schedule type: #{type}")
     nil
   end
 
+  @doc false
+  # First run of a new or rescheduled task. A `once` value is a wall-clock time
+  # in the task's zone, or an instant with an offset; it must lie ahead.
+  def first_run("once", value, timezone) do
+    at =
+      case DateTime.from_iso8601(value) do
+        {:ok, at, _offset} ->
+          {:ok, at}
+
+        {:error, :missing_offset} ->
+          with {:ok, naive} <- NaiveDateTime.from_iso8601(value),
+               {:ok, _now} <- DateTime.now(timezone) do
+            {:ok, naive |> resolve_local_time(timezone) |> DateTime.shift_zone!("Etc/UTC")}
+          end
+
+        error ->
+          error
+      end
+
+    case at do
+      {:ok, at} ->
+        if DateTime.compare(at, DateTime.utc_now()) == :gt do
+          DateTime.to_iso8601(at)
+        else
+          {:error, "#{value} (#{timezone}) is in the past"}
+        end
+
+      {:error, :time_zone_not_found} ->
+        {:error, "Unknown timezone: #{timezone}"}
+
+      {:error, _} ->
+        {:error, "Invalid once time: #{value}"}
+    end
+  end
+
+  def first_run(type, value, timezone), do: compute_next_run(type, value, timezone)
+
+  @doc false
+  # nil (the task completes) once max_runs runs are logged or next_run is past end_at
+  def apply_end_conditions(nil, _task, _run_count), do: nil
+
+  def apply_end_conditions(next_run, task, run_count) do
+    cond do
+      is_integer(task["max_runs"]) and run_count >= task["max_runs"] -> nil
+      task["end_at"] && after_instant?(next_run, task["end_at"]) -> nil
+      true -> next_run
+    end
+  end
+
+  defp after_instant?(iso, limit_iso) do
+    with {:ok, at, _} <- DateTime.from_iso8601(iso),
+         {:ok, limit, _} <- DateTime.from_iso8601(limit_iso) do
+      DateTime.compare(at, limit) == :gt
+    else
+      _ ->
+        Logger.warning("Ignoring malformed end_at: #{inspect(limit_iso)}")
+        false
+    end
+  end
+
+  @doc false
+  def apply_jitter(next_run, jitter) when is_binary(next_run) and is_integer(jitter) and jitter > 0 do
+    {:ok, at, _} = DateTime.from_iso8601(next_run)
+
+    at
+    |> DateTime.add(:rand.uniform(jitter + 1) - 1, :second)
+    |> DateTime.to_iso8601()
+  end
+
+  def apply_jitter(next_run, _jitter), do: next_run
+
+  # A time repeated by a DST fall-back fires at its first occurrence; one
+  # skipped by a spring-forward fires the same distance past the jump
+  # Cocktail knows neither ordinal BYDAY nor comma-separated EXDATE lists, so
+  # both are taken out of the rule it sees and applied to its occurrences.
+  # COUNT is dropped with ordinals, since Cocktail would count the unfiltered
+  # candidates; the container already turned it into the task's max_runs.
+  defp prepare_rrule(rrule) do
+    lines = rrule |> String.split(~r/\r?\n/, trim: true) |> Enum.map(&String.trim/1)
+    {exdate_lines, lines} = Enum.split_with(lines, &String.match?(&1, ~r/^EXDATE[:;]/i))
+
+    with {:ok, exdates} <- parse_exdates(exdate_lines),
+         {:ok, lines, ordinals} <- split_ordinal_byday(lines) do
+      {:ok, Enum.join(lines, "\n"), %{exdates: exdates, ordinals: ordinals}}
+    end
+  end
+
+  defp parse_exdates(lines) do
+    lines
+    |> Enum.flat_map(fn line -> line |> String.split(":", parts: 2) |> List.last() |> String.split(",") end)
+    |> Enum.reduce_while({:ok, MapSet.new()}, fn value, {:ok, acc} ->
+      case Regex.run(~r/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2}))?$/, String.trim(value)) do
+        [_, y, m, d] ->
+          {:cont, {:ok, MapSet.put(acc, Date.new!(to_int(y), to_int(m), to_int(d)))}}
+
+        [_, y, m, d, h, min, sec] ->
+          naive = NaiveDateTime.new!(to_int(y), to_int(m), to_int(d), to_int(h), to_int(min), to_int(sec))
+          {:cont, {:ok, MapSet.put(acc, naive)}}
+
+        _ ->
+          {:halt, {:error, "unreadable EXDATE value #{inspect(value)}"}}
+      end
+    end)
+  rescue
+    ArgumentError -> {:error, "EXDATE is not a valid date"}
+  end
+
+  defp split_ordinal_byday(lines) do
+    Enum.reduce_while(lines, {:ok, [], nil}, fn line, {:ok, acc, ordinals} ->
+      case Regex.run(~r/^RRULE:(.*)$/i, line) do
+        [_, body] ->
+          case rewrite_ordinal_rule(body) do
+            {:ok, body, rule_ordinals} -> {:cont, {:ok, acc ++ ["RRULE:" <> body], rule_ordinals || ordinals}}
+            {:error, _} = error -> {:halt, error}
+          end
+
+        nil ->
+          {:cont, {:ok, acc ++ [line], ordinals}}
+      end
+    end)
+  end
+
+  defp rewrite_ordinal_rule(body) do
+    parts =
+      body
+      |> String.split(";", trim: true)
+      |> Enum.map(fn part ->
+        case String.split(part, "=", parts: 2) do
+          [key, value] -> {key, value}
+          [key] -> {key, ""}
+        end
+      end)
+
+    fields = Map.new(parts, fn {key, value} -> {String.upcase(key), value} end)
+
+    days =
+      (fields["BYDAY"] || "")
+      |> String.split(",", trim: true)
+      |> Enum.map(&Regex.run(~r/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/i, &1))
+
+    cond do
+      Enum.any?(days, &is_nil/1) ->
+        {:error, "invalid BYDAY #{inspect(fields["BYDAY"])}"}
+
+      Enum.all?(days, &(Enum.at(&1, 1, "") == "")) ->
+        {:ok, body, nil}
+
+      String.upcase(fields["FREQ"] || "") not in ["MONTHLY", "YEARLY"] ->
+        {:error, "BYDAY positions like -1FR need FREQ=MONTHLY or FREQ=YEARLY"}
+
+      true ->
+        entries =
+          Enum.map(days, fn [_ | captures] ->
+            [position, day] = if length(captures) == 1, do: ["" | captures], else: captures
+            {if(position == "", do: nil, else: String.to_integer(position)), @rrule_weekdays[String.upcase(day)]}
+          end)
+
+        period = if String.upcase(fields["FREQ"]) == "MONTHLY" or Map.has_key?(fields, "BYMONTH"), do: :month, else: :year
+        weekdays = entries |> Enum.map(fn {_, day} -> day end) |> Enum.uniq()
+        byday = Enum.map_join(weekdays, ",", fn day -> Enum.find_value(@rrule_weekdays, fn {code, n} -> if n == day, do: code end) end)
+
+        rewritten =
+          parts
+          |> Enum.reject(fn {key, _} -> String.upcase(key) == "COUNT" end)
+          |> Enum.map_join(";", fn {key, value} ->
+            if String.upcase(key) == "BYDAY", do: "BYDAY=" <> byday, else: "#{key}=#{value}"
+          end)
+
+        {:ok, rewritten, {period, entries}}
+    end
+  end
+
+  defp rrule_occurrence?(naive, %{exdates: exdates, ordinals: ordinals}) do
+    not MapSet.member?(exdates, naive) and not MapSet.member?(exdates, NaiveDateTime.to_date(naive)) and
+      ordinal_match?(NaiveDateTime.to_date(naive), ordinals)
+  end
+
+  defp ordinal_match?(_date, nil), do: true
+
+  # -1FR: the date is a Friday with no Friday after it in its month (or year)
+  defp ordinal_match?(date, {period, entries}) do
+    {first, last} =
+      case period do
+        :month -> {Date.beginning_of_month(date), Date.end_of_month(date)}
+        :year -> {Date.new!(date.year, 1, 1), Date.new!(date.year, 12, 31)}
+      end
+
+    from_start = div(Date.diff(date, first), 7) + 1
+    from_end = -(div(Date.diff(last, date), 7) + 1)
+    weekday = Date.day_of_week(date)
+
+    Enum.any?(entries, fn {position, day} -> day == weekday and position in [nil, from_start, from_end] end)
+  end
+
+  defp to_int(digits), do: String.to_integer(digits)
+
+  defp pause_invalid_schedule(task, reason, state) do
+    Logger.error("Pausing task id=#{task["id"]}: #{reason}")
+
+    Ecto.Adapters.SQL.query(Repo,
+      "UPDATE scheduled_tasks SET next_run = NULL, last_run = ?1, last_result = ?2, status = 'paused' WHERE id = ?3",
+      [DateTime.utc_now() |> DateTime.to_iso8601(), "Error: #{reason}", task["id"]]
+    )
+
+    state.send_message_fn.(
+      task["chat_jid"],
+      "#{Config.assistant_name()}: Paused task #{task["id"]}, its schedule can no longer be read (#{reason}). Update its schedule, then resume it."
+    )
+  end
+
+  defp resolve_local_time(naive, timezone) do
+    case DateTime.from_naive(naive, timezone) do
+      {:ok, datetime} ->
+        datetime
+
+      {:ambiguous, first, _second} ->
+        first
+
+      {:gap, just_before, _just_after} ->
+        naive
+        |> DateTime.from_naive!("Etc/UTC")
+        |> DateTime.add(-(just_before.utc_offset + just_before.std_offset), :second)
+        |> DateTime.shift_zone!(timezone)
+    end
+  end
+
+  # The run that triggered this task, when the task asked for it
+  defp upstream_result(%{"schedule_type" => "trigger", "include_upstream_result" => include} = task)
+       when include in [true, 1] do
+    case query_task_by_id(task["depends_on"]) do
+      nil ->
+        nil
+
+      upstream ->
+        %{
+          "taskId" => upstream["id"],
+          "status" => if(task["schedule_value"] == "on_failure", do: "error", else: "success"),
+          "result" => upstream["last_result"]
+        }
+    end
+  end
+
+  defp upstream_result(_task), do: nil
+
+  # Queue the active tasks waiting on this outcome for the next poll
+  defp trigger_dependents(task_id, status) do
+    trigger = if status == "success", do: "on_success", else: "on_failure"
+    now = DateTime.utc_now() |> DateTime.to_iso8601()
+
+    sql = """
+    SELECT id, jitter_seconds FROM scheduled_tasks
+    WHERE depends_on = ?1 AND schedule_type = 'trigger' AND schedule_value = ?2 AND status = 'active'
+    """
+
+    case Ecto.Adapters.SQL.query(Repo, sql, [task_id, trigger]) do
+      {:ok, %{rows: rows}} ->
+        for [dependent_id, jitter] <- rows do
+          Logger.info("Task id=#{task_id} #{trigger} triggered task id=#{dependent_id}")
+
+          Ecto.Adapters.SQL.query(Repo, "UPDATE scheduled_tasks SET next_run = ?1 WHERE id = ?2", [
+            apply_jitter(now, jitter),
+            dependent_id
+          ])
+        end
+
+      {:error, _} ->
+        :ok
+    end
+  end
+
+  @doc false
+  # Task zone, else the group's default, else the host's
+  def task_timezone(task, group, default_timezone) do
+    config = group["containerConfig"] || group[:containerConfig] || %{}
+    task["timezone"] || config["timezone"] || config[:timezone] || default_timezone
+  end
+
   # --- DB helpers ---
 
   defp query_due_tasks(now) do
@@ -254,6 +603,26 @@ defmodule Guardian.Kernel.TaskScheduler do
     end
   end
 
+  defp count_task_runs(task_id) do
+    case Ecto.Adapters.SQL.query(Repo, "SELECT COUNT(*) FROM task_run_logs WHERE task_id = ?1", [task_id]) do
+      {:ok, %{rows: [[count]]}} -> count
+      _ -> 0
+    end
+  end
+
+  defp decode_agent_options(nil), do: nil
+
+  defp decode_agent_options(json) do
+    case Jason.decode(json) do
+      {:ok, options} when is_map(options) ->
+        options
+
+      _ ->
+        Logger.warning("Ignoring malformed agent_options: #{inspect(json)}")
+        nil
+    end
+  end
+
   defp log_task_run(task_id, start_time, status, result, error) do
     now = DateTime.utc_now() |> DateTime.to_iso8601()
     duration_ms = System.system_time(:millisecond) - start_time
@@ -264,17 +633,17 @@ defmodule Guardian.Kernel.TaskScheduler do
     )
   end
 
-  defp update_task_after_run(task_id, next_run, result_summary) do
+  defp update_task_after_run(task_id, next_run, result_summary, completed) do
     now = DateTime.utc_now() |> DateTime.to_iso8601()
 
     Ecto.Adapters.SQL.query(Repo,
       """
       UPDATE scheduled_tasks
       SET next_run = ?1, last_run = ?2, last_result = ?3,
-          status = CASE WHEN ?1 IS NULL THEN 'completed' ELSE status END
+          status = CASE WHEN ?5 THEN 'completed' ELSE status END
       WHERE id = ?4
       """,
-      [next_run, now, result_summary, task_id]
+      [next_run, now, result_summary, task_id, completed]
     )
   end
 
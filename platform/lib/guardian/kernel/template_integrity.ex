@@ -0,0 +1,241 @@
+defmodule Guardian.Kernel.TemplateIntegrity do
+  @moduledoc """
+  Host side of template integrity. A group's persona and policy files are
+  sealed into `_integrity/manifest.json` (SHA-256 per file) with a verified
+  copy of each under `_integrity/verified/`; the container checks them at the
+  start of every run and restores drifted files.
+
+  Manifests are signed with the ed25519 key in GUARDIAN_TEMPLATE_ED25519_KEY,
+  which never leaves the host: containers get only the raw public key
+  (ContainerInput.templatePublicKey) to verify with.
+
+  The host seals a group before its first run, then only when the main group
+  asks (seal_templates). A copy of every manifest it writes is kept under
+  integrity/ in the host state dir (Config.state_dir/0), outside the project
+  root the main group's container mounts. That record is sent with every run
+  (ContainerInput.templateManifest) and is what the container verifies
+  against, so a deleted or rewritten group manifest is reported and restored
+  instead of trusted.
+
+  groups/global is sealed the same way, as folder "global", with every file
+  it can inject: the layer sits under every group's prompt and no agent keeps
+  its memory there.
+  """
+
+  require Logger
+
+  # Mirror container/agent-runner/src/templates.ts and prompt.ts
+  @prompt_files ~w(SOUL.md IDENTITY.md USER.md TOOLS.md HEARTBEAT.md BOOT.md VOICE_PROMPT.md THREAT_MODEL.json)
+  @memory_files ~w(USER.md TOOLS.md HEARTBEAT.md)
+  @template_files @prompt_files -- @memory_files
+  @prompt_manifest_file "PROMPT.json"
+
+  @typedoc "Raw ed25519 `{private, public}` key pair."
+  @type key :: {binary(), binary()} | nil
+
+  @doc "The host's signing key from GUARDIAN_TEMPLATE_ED25519_KEY, or nil when manifests are unsigned."
+  @spec configured_key() :: key()
+  def configured_key, do: signing_key(Guardian.Kernel.Config.template_signing_key())
+
+  @doc """
+  Parse a PKCS#8 ed25519 private key (PEM, `\\n` may be escaped). Returns nil,
+  with an error logged, for anything else.
+  """
+  @spec signing_key(String.t() | nil) :: key()
+  def signing_key(nil), do: nil
+  def signing_key(""), do: nil
+
+  def signing_key(pem) do
+    pem = String.replace(pem, "\\n", "\n")
+
+    # The ECPrivateKey record gained a field in OTP 25, so match on positions
+    with [entry | _] <- :public_key.pem_decode(pem),
+         record
+         when is_tuple(record) and elem(record, 0) == :ECPrivateKey and
+                elem(record, 3) == {:namedCurve, {1, 3, 101, 112}} <- :public_key.pem_entry_decode(entry) do
+      private = elem(record, 2)
+      {public, _} = :crypto.generate_key(:eddsa, :ed25519, private)
+      {private, public}
+    else
+      _ ->
+        Logger.error("GUARDIAN_TEMPLATE_ED25519_KEY is not a PKCS#8 ed25519 private key; manifests stay unsigned")
+        nil
+    end
+  rescue
+    e ->
+      Logger.error("GUARDIAN_TEMPLATE_ED25519_KEY could not be read: #{Exception.message(e)}")
+      nil
+  end
+
+  @doc "Base64 of the raw public key, as ContainerInput.templatePublicKey expects."
+  @spec public_key(key()) :: String.t() | nil
+  def public_key(nil), do: nil
+  def public_key({_private, public}), do: Base.encode64(public)
+
+  @spec record_path(String.t(), String.t()) :: String.t()
+  def record_path(state_dir, folder), do: Path.join([state_dir, "integrity", folder, "manifest.json"])
+
+  @doc "The host's record of a sealed manifest, or nil when there is none or it cannot be read."
+  @spec read_record(String.t()) :: map() | nil
+  def read_record(record_path) do
+    with {:ok, json} <- File.read(record_path),
+         {:ok, %{"version" => 1, "files" => files} = manifest} when is_map(files) <- Jason.decode(json) do
+      manifest
+    else
+      {:error, :enoent} ->
+        nil
+
+      other ->
+        Logger.error("Template integrity record #{record_path} is unreadable: #{inspect(other)}")
+        nil
+    end
+  end
+
+  @doc """
+  Files under integrity protection: the standard templates, PROMPT.json and
+  whatever the effective PROMPT.json (the group's, else the global one)
+  injects, except the agent's memory files.
+  """
+  @spec template_files(String.t(), String.t()) :: [String.t()]
+  def template_files(group_dir, global_dir) do
+    declared =
+      for %{"file" => file} when is_binary(file) <- prompt_entries(group_dir, global_dir),
+          group_relative?(file),
+          Path.relative_to(Path.expand(file, "/"), "/") not in @memory_files,
+          do: file
+
+    Enum.uniq(@template_files ++ [@prompt_manifest_file] ++ declared)
+  end
+
+  @doc "Files under integrity protection in the global layer: every prompt file, PROMPT.json and what it injects."
+  @spec global_template_files(String.t()) :: [String.t()]
+  def global_template_files(global_dir) do
+    declared =
+      for %{"file" => file} when is_binary(file) <- prompt_entries(global_dir, global_dir),
+          group_relative?(file),
+          do: file
+
+    Enum.uniq(@prompt_files ++ [@prompt_manifest_file] ++ declared)
+  end
+
+  @doc "Seal the group unless the host has sealed it before."
+  @spec ensure_sealed(String.t(), String.t(), String.t(), key()) :: :ok | {:error, term()}
+  def ensure_sealed(group_dir, global_dir, record_path, key) do
+    if File.exists?(record_path) do
+      :ok
+    else
+      with {:ok, manifest} <- seal_group(group_dir, global_dir, record_path, key) do
+        Logger.info("Sealed #{map_size(manifest["files"])} template file(s) in #{group_dir}")
+        :ok
+      end
+    end
+  end
+
+  @doc """
+  Seal the group's current template files and keep the host's copy of the
+  manifest. Sealing `global_dir` itself seals the global layer.
+  """
+  @spec seal_group(String.t(), String.t(), String.t(), key()) :: {:ok, map()} | {:error, term()}
+  def seal_group(group_dir, global_dir, record_path, key) do
+    files =
+      if Path.expand(group_dir) == Path.expand(global_dir),
+        do: global_template_files(global_dir),
+        else: template_files(group_dir, global_dir)
+
+    if File.dir?(group_dir) do
+      with {:ok, manifest} <- seal(group_dir, files, key) do
+        File.mkdir_p!(Path.dirname(record_path))
+        File.write!(record_path, Jason.encode!(manifest, pretty: true) <> "\n")
+        {:ok, manifest}
+      end
+    else
+      {:error, :enoent}
+    end
+  rescue
+    e in File.Error -> {:error, Exception.message(e)}
+  end
+
+  @doc """
+  Hash `files` into a fresh manifest, signed when `key` is set, and keep a
+  verified copy of each. Missing files and symlinks are left out.
+  """
+  @spec seal(String.t(), [String.t()], key()) :: {:ok, map()} | {:error, term()}
+  def seal(group_dir, files, key) do
+    integrity_dir = Path.join(group_dir, "_integrity")
+
+    hashes =
+      for file <- files, regular_file?(Path.join(group_dir, file)), into: %{} do
+        content = File.read!(Path.join(group_dir, file))
+        verified = Path.join([integrity_dir, "verified", file])
+        File.mkdir_p!(Path.dirname(verified))
+        File.write!(verified, content)
+        {file, :crypto.hash(:sha256, content) |> Base.encode16(case: :lower)}
+      end
+
+    manifest = %{
+      "version" => 1,
+      "sealedAt" => DateTime.utc_now() |> DateTime.to_iso8601(),
+      "files" => hashes
+    }
+
+    manifest =
+      case key do
+        {private, _public} ->
+          signature = :crypto.sign(:eddsa, :none, signing_payload(manifest), [private, :ed25519])
+          Map.merge(manifest, %{"algorithm" => "ed25519", "signature" => Base.encode64(signature)})
+
+        nil ->
+          manifest
+      end
+
+    File.mkdir_p!(integrity_dir)
+    File.write!(Path.join(integrity_dir, "manifest.json"), Jason.encode!(manifest, pretty: true) <> "\n")
+    {:ok, manifest}
+  rescue
+    e in File.Error -> {:error, Exception.message(e)}
+  end
+
+  @doc """
+  The bytes a manifest signature covers. Must match `signingPayload` in the
+  container's templates.ts byte for byte.
+  """
+  @spec signing_payload(map()) :: String.t()
+  def signing_payload(manifest) do
+    files =
+      manifest["files"]
+      |> Enum.sort_by(&elem(&1, 0))
+      |> Enum.map(fn {file, hash} -> [file, hash] end)
+
+    Jason.OrderedObject.new([
+      {"version", manifest["version"]},
+      {"sealedAt", manifest["sealedAt"]},
+      {"files", files}
+    ])
+    |> Jason.encode!()
+  end
+
+  # --- Private ---
+
+  defp prompt_entries(group_dir, global_dir) do
+    [group_dir, global_dir]
+    |> Enum.map(&Path.join(&1, @prompt_manifest_file))
+    |> Enum.find(&File.exists?/1)
+    |> case do
+      nil ->
+        Enum.map(@prompt_files, &%{"file" => &1})
+
+      path ->
+        # An invalid PROMPT.json falls back to the default files, as in the container
+        with {:ok, json} <- File.read(path),
+             {:ok, %{"files" => entries}} when is_list(entries) <- Jason.decode(json) do
+          entries
+        else
+          _ -> Enum.map(@prompt_files, &%{"file" => &1})
+        end
+    end
+  end
+
+  defp group_relative?(file), do: Path.type(file) == :relative and ".." not in Path.split(file)
+
+  defp regular_file?(path), do: match?({:ok, %File.Stat{type: :regular}}, File.lstat(path))
+end
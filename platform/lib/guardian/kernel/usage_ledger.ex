@@ -0,0 +1,78 @@
+defmodule Guardian.Kernel.UsageLedger do
+  @moduledoc """
+  Per-group usage ledger: one row for every container run that reported usage.
+
+  Rolling daily budgets count against this ledger. It lives in the host
+  database, out of the agent's reach; the container only sees the spend
+  passed to it as ContainerInput.dailySpend.
+  """
+
+  require Logger
+
+  alias Guardian.Repo
+
+  @day_seconds 86_400
+
+  @doc "Record the usage a container run reported."
+  @spec record(String.t(), map(), map()) :: :ok
+  def record(group_folder, input, %{usage: usage} = output) when is_map(usage) do
+    result =
+      Ecto.Adapters.SQL.query(Repo,
+        """
+        INSERT INTO usage_ledger (group_folder, chat_jid, task_id, session_id, status, recorded_at,
+          input_tokens, output_tokens, cost_usd, num_turns, usage)
+        VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11)
+        """,
+        [
+          group_folder,
+          input[:chat_jid],
+          input[:task_id],
+          output[:new_session_id] || input[:session_id],
+          output.status,
+          DateTime.utc_now() |> DateTime.to_iso8601(),
+          usage["inputTokens"] || 0,
+          usage["outputTokens"] || 0,
+          usage["costUsd"] || 0,
+          usage["numTurns"] || 0,
+          Jason.encode!(usage)
+        ]
+      )
+
+    case result do
+      {:ok, _} -> :ok
+      {:error, err} -> Logger.error("Usage ledger write failed group=#{group_folder}: #{inspect(err)}")
+    end
+
+    :ok
+  end
+
+  def record(_group_folder, _input, _output), do: :ok
+
+  @doc """
+  The group's usage over the 24 hours before `now`, in the BudgetSpend shape
+  (`tokens` is input plus output tokens).
+  """
+  @spec daily_spend(String.t(), DateTime.t()) :: {:ok, map()} | {:error, term()}
+  def daily_spend(group_folder, now \\ DateTime.utc_now()) do
+    since = now |> DateTime.add(-@day_seconds, :second) |> DateTime.to_iso8601()
+
+    result =
+      Ecto.Adapters.SQL.query(Repo,
+        """
+        SELECT COALESCE(SUM(input_tokens + output_tokens), 0), COALESCE(SUM(cost_usd), 0), COALESCE(SUM(num_turns), 0)
+        FROM usage_ledger
+        WHERE group_folder = ?1 AND recorded_at >= ?2
+        """,
+        [group_folder, since]
+      )
+
+    case result do
+      {:ok, %{rows: [[tokens, cost_usd, turns]]}} ->
+        {:ok, %{"tokens" => tokens, "costUsd" => cost_usd, "turns" => turns}}
+
+      {:error, err} ->
+        Logger.error("Usage ledger read failed group=#{group_folder}: #{inspect(err)}")
+        {:error, err}
+    end
+  end
+end
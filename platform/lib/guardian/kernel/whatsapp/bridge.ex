@@ -29,11 +29,27 @@ defmodule Guardian.Kernel.WhatsApp.Bridge do
     GenServer.call(server, {:send_message, jid, text})
   end
 
+  @doc """
+  Send a WhatsApp media message from a local file.
+  `media` has `:path`, `:mimetype`, `:kind` and optional `:caption` / `:voice_note`.
+  """
+  def send_media(jid, media, server \\ __MODULE__) do
+    GenServer.call(server, {:send_media, jid, media})
+  end
+
   @doc "Send typing presence indicator."
   def send_presence(jid, presence, server \\ __MODULE__) do
     GenServer.cast(server, {:send_presence, jid, presence})
   end
 
+  @doc """
+  Tell the bridge where to download inbound media: a map of chat JID to the
+  absolute group folder. Chats without a target get no media downloaded.
+  """
+  def set_media_targets(targets, server \\ __MODULE__) do
+    GenServer.cast(server, {:set_media_targets, targets})
+  end
+
   @doc "Request group metadata fetch from WhatsApp."
   def fetch_groups(server \\ __MODULE__) do
     GenServer.cast(server, :fetch_groups)
@@ -49,6 +65,7 @@ defmodule Guardian.Kernel.WhatsApp.Bridge do
       node_path: Keyword.get(opts, :node_path, find_node()),
       bridge_script: Keyword.get(opts, :bridge_script, bridge_script_path()),
       project_root: Keyword.get(opts, :project_root, Config.project_root()),
+      groups_dir: Keyword.get(opts, :groups_dir, Config.groups_dir()),
       auth_dir: Keyword.get(opts, :auth_dir, Config.auth_dir()),
       state_server: Keyword.get(opts, :state_server, State),
       # Callback for message storage — injected for testability
@@ -75,6 +92,26 @@ defmodule Guardian.Kernel.WhatsApp.Bridge do
     {:reply, {:error, :not_connected}, state}
   end
 
+  def handle_call({:send_media, jid, media}, _from, %{port: port} = state) when port != nil do
+    cmd =
+      Jason.encode!(%{
+        type: "send_media",
+        jid: jid,
+        path: media.path,
+        mimetype: media.mimetype,
+        kind: media.kind,
+        caption: media[:caption],
+        ptt: media[:voice_note] == true
+      })
+
+    Port.command(port, cmd <> "\n")
+    {:reply, :ok, state}
+  end
+
+  def handle_call({:send_media, _jid, _media}, _from, state) do
+    {:reply, {:error, :not_connected}, state}
+  end
+
   @impl true
   def handle_cast({:send_presence, jid, presence}, %{port: port} = state) when port != nil do
     cmd = Jason.encode!(%{type: "send_presence", jid: jid, presence: presence})
@@ -86,6 +123,16 @@ defmodule Guardian.Kernel.WhatsApp.Bridge do
     {:noreply, state}
   end
 
+  def handle_cast({:set_media_targets, targets}, %{port: port} = state) when port != nil do
+    cmd = Jason.encode!(%{type: "set_media_targets", targets: targets})
+    Port.command(port, cmd <> "\n")
+    {:noreply, state}
+  end
+
+  def handle_cast({:set_media_targets, _targets}, state) do
+    {:noreply, state}
+  end
+
   def handle_cast(:fetch_groups, %{port: port} = state) when port != nil do
     cmd = Jason.encode!(%{type: "fetch_groups"})
     Port.command(port, cmd <> "\n")
@@ -172,6 +219,14 @@ defmodule Guardian.Kernel.WhatsApp.Bridge do
     if status == "open" do
       # Fetch groups after connection
       if state.port, do: fetch_groups(self())
+
+      # Registered groups get inbound media saved into their folder
+      targets =
+        for {jid, group} <- State.get_registered_groups(state.state_server), into: %{} do
+          {jid, Path.join(state.groups_dir, group["folder"] || group[:folder])}
+        end
+
+      if state.port, do: set_media_targets(targets, self())
     end
   end
 
@@ -242,8 +297,13 @@ defmodule Guardian.Kernel.WhatsApp.Bridge do
             get_in(msg, ["extendedTextMessage", "text"]) ||
             get_in(msg, ["imageMessage", "caption"]) ||
             get_in(msg, ["videoMessage", "caption"]) ||
+            get_in(msg, ["documentMessage", "caption"]) ||
             ""
 
+        # Attachments and quote context arrive pre-extracted from the bridge
+        attachments = if event["attachments"] in [nil, []], do: nil, else: Jason.encode!(event["attachments"])
+        quoted = if event["quoted"], do: Jason.encode!(event["quoted"]), else: nil
+
         sender = key["participant"] || key["remoteJid"] || ""
         push_name = event["pushName"] || String.split(sender, "@") |> hd()
         msg_id = key["id"] || ""
@@ -251,8 +311,8 @@ defmodule Guardian.Kernel.WhatsApp.Bridge do
 
         try do
           Ecto.Adapters.SQL.query!(Repo,
-            "INSERT OR REPLACE INTO messages (id, chat_jid, sender, sender_name, content, timestamp, is_from_me) VALUES (?, ?, ?, ?, ?, ?, ?)",
-            [msg_id, translated_jid, sender, push_name, content, timestamp, is_from_me]
+            "INSERT OR REPLACE INTO messages (id, chat_jid, sender, sender_name, content, timestamp, is_from_me, attachments, quoted) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)",
+            [msg_id, translated_jid, sender, push_name, content, timestamp, is_from_me, attachments, quoted]
           )
         rescue
           e -> Logger.error("Failed to store message: #{inspect(e)}")
@@ -34,7 +34,7 @@ defmodule Guardian.Kernel.WhatsApp.MessageRouter do
       main_group_folder: Keyword.get(opts, :main_group_folder, Config.main_group_folder()),
       state_server: Keyword.get(opts, :state_server, State),
       bridge_server: Keyword.get(opts, :bridge_server, Bridge),
-      run_agent_fn: Keyword.get(opts, :run_agent_fn, &default_run_agent/5),
+      run_agent_fn: Keyword.get(opts, :run_agent_fn, &default_run_agent/6),
       enabled: Keyword.get(opts, :enabled, true)
     }
 
@@ -121,10 +121,11 @@ defmodule Guardian.Kernel.WhatsApp.MessageRouter do
       Enum.map(context_messages, fn m ->
         sender = escape_xml(m.sender_name || "")
         content = escape_xml(m.content || "")
-        ~s(<message sender="#{sender}" time="#{m.timestamp}">#{content}</message>)
+        ~s(<message sender="#{sender}" time="#{m.timestamp}">#{format_quoted(m.quoted)}#{content}</message>)
       end)
 
     prompt = "<messages>\n#{Enum.join(lines, "\n")}\n</messages>"
+    attachments = Enum.flat_map(context_messages, & &1.attachments)
 
     Logger.info("Processing message group=#{group_name} messageCount=#{length(context_messages)}")
 
@@ -132,7 +133,7 @@ defmodule Guardian.Kernel.WhatsApp.MessageRouter do
     Bridge.send_presence(msg.chat_jid, "composing", state.bridge_server)
 
     # Run the agent
-    response = state.run_agent_fn.(group, prompt, msg.chat_jid, is_main, state)
+    response = state.run_agent_fn.(group, prompt, attachments, msg.chat_jid, is_main, state)
 
     Bridge.send_presence(msg.chat_jid, "paused", state.bridge_server)
 
@@ -142,26 +143,16 @@ defmodule Guardian.Kernel.WhatsApp.MessageRouter do
     end
   end
 
-  defp default_run_agent(group, prompt, chat_jid, is_main, state) do
+  defp default_run_agent(group, prompt, attachments, chat_jid, is_main, state) do
     folder = group["folder"] || group[:folder]
     session_id = State.get_sessions(state.state_server) |> Map.get(folder)
 
     # Write snapshots for the container
     tasks = query_all_tasks()
 
-    ContainerRunner.write_tasks_snapshot(folder, is_main,
-      Enum.map(tasks, fn t ->
-        %{
-          "id" => t.id,
-          "group_folder" => t.group_folder,
-          "prompt" => t.prompt,
-          "schedule_type" => t.schedule_type,
-          "schedule_value" => t.schedule_value,
-          "status" => t.status,
-          "next_run" => t.next_run
-        }
-      end)
-    )
+    ContainerRunner.write_tasks_snapshot(folder, is_main, Enum.map(tasks, &ContainerRunner.task_snapshot_entry/1))
+
+    ContainerRunner.write_task_history_snapshot(folder, is_main, ContainerRunner.recent_task_runs())
 
     all_chats = query_all_chats()
     registered_groups = State.get_registered_groups(state.state_server)
@@ -187,10 +178,14 @@ defmodule Guardian.Kernel.WhatsApp.MessageRouter do
       group_folder: folder,
       chat_jid: chat_jid,
       is_main: is_main,
-      is_scheduled_task: nil
+      is_scheduled_task: nil,
+      attachments: attachments
     }
 
-    case ContainerRunner.run(group, input) do
+    # Streamed progress keeps the typing indicator up through long tool runs
+    on_event = fn _event -> Bridge.send_presence(chat_jid, "composing", state.bridge_server) end
+
+    case ContainerRunner.run_with_retry(group, input, on_event: on_event) do
       {:ok, %{status: "success", result: result, new_session_id: new_session_id}} ->
         if new_session_id do
           State.set_session(folder, new_session_id, state.state_server)
@@ -198,6 +193,16 @@ defmodule Guardian.Kernel.WhatsApp.MessageRouter do
 
         result
 
+      # The result is the short budget notice for the user
+      {:ok, %{status: "budget_exceeded", result: notice, new_session_id: new_session_id}} ->
+        Logger.warning("Budget reached for group #{folder}")
+
+        if new_session_id do
+          State.set_session(folder, new_session_id, state.state_server)
+        end
+
+        notice
+
       {:ok, %{status: "error", error: error}} ->
         Logger.error("Container error for group #{folder}: #{error}")
         nil
@@ -240,7 +245,7 @@ defmodule Guardian.Kernel.WhatsApp.MessageRouter do
 
   defp query_messages_since(chat_jid, since_timestamp, bot_prefix) do
     sql = """
-    SELECT id, chat_jid, sender, sender_name, content, timestamp
+    SELECT id, chat_jid, sender, sender_name, content, timestamp, attachments, quoted
     FROM messages
     WHERE chat_jid = ?1 AND timestamp > ?2 AND content NOT LIKE ?3
     ORDER BY timestamp
@@ -285,10 +290,27 @@ defmodule Guardian.Kernel.WhatsApp.MessageRouter do
       sender: map["sender"],
       sender_name: map["sender_name"],
       content: map["content"],
-      timestamp: map["timestamp"]
+      timestamp: map["timestamp"],
+      attachments: decode_json(map["attachments"], []),
+      quoted: decode_json(map["quoted"], nil)
     }
   end
 
+  defp decode_json(nil, default), do: default
+
+  defp decode_json(json, default) do
+    case Jason.decode(json) do
+      {:ok, value} -> value
+      {:error, _} -> default
+    end
+  end
+
+  defp format_quoted(%{"sender" => sender, "snippet" => snippet}) do
+    ~s(<quoted sender="#{escape_xml(sender || "")}">#{escape_xml(snippet || "")}</quoted>)
+  end
+
+  defp format_quoted(_), do: ""
+
   defp escape_xml(s) do
     s
     |> String.replace("&", "&amp;")
@@ -11,11 +11,14 @@ defmodule Guardian.Repo.Message do
     field :content, :string
     field :timestamp, :string
     field :is_from_me, :integer
+    # JSON-encoded MessageAttachment list / QuotedMessage (see @guardian/shared schemas)
+    field :attachments, :string
+    field :quoted, :string
   end
 
   def changeset(message, attrs) do
     message
-    |> cast(attrs, [:id, :chat_jid, :sender, :sender_name, :content, :timestamp, :is_from_me])
+    |> cast(attrs, [:id, :chat_jid, :sender, :sender_name, :content, :timestamp, :is_from_me, :attachments, :quoted])
     |> validate_required([:id, :chat_jid])
     |> validate_inclusion(:is_from_me, [0, 1])
   end
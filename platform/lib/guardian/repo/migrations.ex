@@ -81,6 +81,27 @@ defmodule Guardian.Repo.Migrations do
     Ecto.Adapters.SQL.query!(repo, """
     CREATE INDEX IF NOT EXISTS idx_task_run_logs ON task_run_logs(task_id, run_at)
     """)
+
+    Ecto.Adapters.SQL.query!(repo, """
+    CREATE TABLE IF NOT EXISTS usage_ledger (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      group_folder TEXT NOT NULL,
+      chat_jid TEXT,
+      task_id TEXT,
+      session_id TEXT,
+      status TEXT NOT NULL,
+      recorded_at TEXT NOT NULL,
+      input_tokens INTEGER NOT NULL,
+      output_tokens INTEGER NOT NULL,
+      cost_usd REAL NOT NULL,
+      num_turns INTEGER NOT NULL,
+      usage TEXT
+    )
+    """)
+
+    Ecto.Adapters.SQL.query!(repo, """
+    CREATE INDEX IF NOT EXISTS idx_usage_ledger ON usage_ledger(group_folder, recorded_at)
+    """)
   end
 
   defp alter_tables(repo) do
@@ -100,5 +121,48 @@ defmodule Guardian.Repo.Migrations do
     rescue
       _ -> :ok
     end
+
+    # Migration 3: messages.attachments / messages.quoted (JSON, may already exist)
+    for column <- ["attachments", "quoted"] do
+      try do
+        Ecto.Adapters.SQL.query!(repo, "ALTER TABLE messages ADD COLUMN #{column} TEXT")
+      rescue
+        _ -> :ok
+      end
+    end
+
+    # Migration 4: scheduled_tasks.agent_options (JSON, may already exist)
+    try do
+      Ecto.Adapters.SQL.query!(repo, "ALTER TABLE scheduled_tasks ADD COLUMN agent_options TEXT")
+    rescue
+      _ -> :ok
+    end
+
+    # Migration 5: scheduled_tasks.timezone (IANA name, may already exist)
+    try do
+      Ecto.Adapters.SQL.query!(repo, "ALTER TABLE scheduled_tasks ADD COLUMN timezone TEXT")
+    rescue
+      _ -> :ok
+    end
+
+    # Migration 6: scheduled_tasks end conditions and jitter (may already exist)
+    for column <- ["max_runs INTEGER", "end_at TEXT", "jitter_seconds INTEGER"] do
+      try do
+        Ecto.Adapters.SQL.query!(repo, "ALTER TABLE scheduled_tasks ADD COLUMN #{column}")
+      rescue
+        _ -> :ok
+      end
+    end
+
+    # Migration 7: scheduled_tasks trigger chains (may already exist)
+    for column <- ["depends_on TEXT", "include_upstream_result INTEGER"] do
+      try do
+        Ecto.Adapters.SQL.query!(repo, "ALTER TABLE scheduled_tasks ADD COLUMN #{column}")
+      rescue
+        _ -> :ok
+      end
+    end
+
+    Ecto.Adapters.SQL.query!(repo, "CREATE INDEX IF NOT EXISTS idx_depends_on ON scheduled_tasks(depends_on)")
   end
 end
@@ -15,6 +15,19 @@ defmodule Guardian.Repo.ScheduledTask do
     field :last_result, :string
     field :status, :string, default: "active"
     field :created_at, :string
+    # JSON-encoded AgentOptions overriding the group's agent settings
+    field :agent_options, :string
+    # IANA zone for cron/once/rrule values; nil uses the group default
+    field :timezone, :string
+    # End conditions: stop after this many runs / after this UTC ISO instant
+    field :max_runs, :integer
+    field :end_at, :string
+    # Each run starts up to this many seconds late, at random
+    field :jitter_seconds, :integer
+    # Upstream task of a "trigger" task; schedule_value is on_success/on_failure
+    field :depends_on, :string
+    # Hand the upstream's last_result to the triggered run
+    field :include_upstream_result, :boolean
   end
 
   def changeset(task, attrs) do
@@ -31,10 +44,19 @@ defmodule Guardian.Repo.ScheduledTask do
       :last_run,
       :last_result,
       :status,
-      :created_at
+      :created_at,
+      :agent_options,
+      :timezone,
+      :max_runs,
+      :end_at,
+      :jitter_seconds,
+      :depends_on,
+      :include_upstream_result
     ])
     |> validate_required([:id, :group_folder, :chat_jid, :prompt, :schedule_type, :schedule_value, :created_at])
-    |> validate_inclusion(:schedule_type, ["cron", "interval", "once"])
+    |> validate_inclusion(:schedule_type, ["cron", "interval", "once", "rrule", "trigger"])
+    |> validate_number(:max_runs, greater_than: 0)
+    |> validate_number(:jitter_seconds, greater_than_or_equal_to: 0)
     |> validate_inclusion(:context_mode, ["group", "isolated"])
     |> validate_inclusion(:status, ["active", "paused", "completed"])
   end
@@ -50,6 +50,8 @@ defmodule Guardian.MixProject do
       {:jose, "~> 1.11"},
       {:ecto_sqlite3, "~> 0.17"},
       {:crontab, "~> 1.1"},
+      {:cocktail, "~> 0.10"},
+      {:tzdata, "~> 1.1"},
       {:credo, "~> 1.7", only: [:dev, :test], runtime: false},
       {:dialyxir, "~> 1.4", only: [:dev, :test], runtime: false}
     ]
@@ -67,6 +67,143 @@ defmodule Guardian.Kernel.ContainerRunnerTest do
       assert output.error == "something went wrong"
       assert output.result == nil
     end
+
+    test "reads protocol version and treats unversioned output as v1" do
+      stdout = """
+      ---GUARDIAN_CORE_OUTPUT_START---
+      {"protocolVersion": 2, "status": "success", "result": "ok"}
+      ---GUARDIAN_CORE_OUTPUT_END---
+      """
+
+      assert {:ok, output} = ContainerRunner.parse_container_output(stdout, "test-group")
+      assert output.protocol_version == 2
+
+      assert {:ok, legacy} = ContainerRunner.parse_container_output(~s({"status": "success"}), "test-group")
+      assert legacy.protocol_version == 1
+    end
+
+    test "passes usage through" do
+      stdout = """
+      ---GUARDIAN_CORE_OUTPUT_START---
+      {"status": "success", "result": "ok", "usage": {"inputTokens": 120, "outputTokens": 40, "costUsd": 0.01}}
+      ---GUARDIAN_CORE_OUTPUT_END---
+      """
+
+      assert {:ok, output} = ContainerRunner.parse_container_output(stdout, "test-group")
+      assert output.usage["inputTokens"] == 120
+      assert output.usage["costUsd"] == 0.01
+
+      assert {:ok, no_usage} = ContainerRunner.parse_container_output(~s({"status": "error"}), "test-group")
+      assert no_usage.usage == nil
+    end
+
+    test "parses budget_exceeded output" do
+      stdout = """
+      ---GUARDIAN_CORE_OUTPUT_START---
+      {"status": "budget_exceeded", "result": "Budget reached", "budgetExceeded": {"scope": "daily", "metric": "costUsd", "limit": 5, "used": 5.2}}
+      ---GUARDIAN_CORE_OUTPUT_END---
+      """
+
+      assert {:ok, output} = ContainerRunner.parse_container_output(stdout, "test-group")
+      assert output.status == "budget_exceeded"
+      assert output.result == "Budget reached"
+      assert output.budget_exceeded["metric"] == "costUsd"
+    end
+  end
+
+  describe "parse_container_events/1" do
+    test "returns framed events in order and skips malformed frames" do
+      stdout = """
+      log line
+      ---GUARDIAN_CORE_EVENT_START---
+      {"type":"thinking","timestamp":"2026-01-01T00:00:00.000Z"}
+      ---GUARDIAN_CORE_EVENT_END---
+      ---GUARDIAN_CORE_EVENT_START---
+      not json
+      ---GUARDIAN_CORE_EVENT_END---
+      ---GUARDIAN_CORE_EVENT_START---
+      {"type":"tool_start","toolUseId":"tu-1","toolName":"Bash","timestamp":"2026-01-01T00:00:01.000Z"}
+      ---GUARDIAN_CORE_EVENT_END---
+      ---GUARDIAN_CORE_OUTPUT_START---
+      {"status":"success","result":"done"}
+      ---GUARDIAN_CORE_OUTPUT_END---
+      """
+
+      assert [%{"type" => "thinking"}, %{"type" => "tool_start", "toolName" => "Bash"}] =
+               ContainerRunner.parse_container_events(stdout)
+
+      # Events don't get in the way of the final output
+      assert {:ok, %{result: "done"}} = ContainerRunner.parse_container_output(stdout, "test-group")
+    end
+  end
+
+  describe "run_with_retry/3" do
+    test "retries a missing session in a fresh session" do
+      test_pid = self()
+
+      run_fn = fn _group, input, _opts ->
+        send(test_pid, {:ran, input.session_id})
+
+        if input.session_id do
+          {:ok, %{status: "error", failure: %{"code" => "AgentSessionNotFoundError", "retryable" => false}}}
+        else
+          {:ok, %{status: "success", result: "fresh"}}
+        end
+      end
+
+      input = %{prompt: "hi", session_id: "gone"}
+      assert {:ok, %{result: "fresh"}} = ContainerRunner.run_with_retry(%{"folder" => "g"}, input, run_fn: run_fn)
+      assert_received {:ran, "gone"}
+      assert_received {:ran, nil}
+    end
+
+    test "retries retryable failures once and leaves others alone" do
+      test_pid = self()
+
+      run_fn = fn _group, _input, _opts ->
+        send(test_pid, :ran)
+        {:ok, %{status: "error", failure: %{"code" => "AgentRateLimitError", "retryable" => true, "sideEffects" => false}}}
+      end
+
+      input = %{prompt: "hi", session_id: nil}
+      assert {:ok, %{status: "error"}} =
+               ContainerRunner.run_with_retry(%{"folder" => "g"}, input, run_fn: run_fn, retry_delay_ms: 0)
+
+      assert_received :ran
+      assert_received :ran
+      refute_received :ran
+
+      auth_fn = fn _group, _input, _opts ->
+        send(test_pid, :auth)
+        {:ok, %{status: "error", failure: %{"code" => "AgentAuthError", "retryable" => false}}}
+      end
+
+      assert {:ok, %{status: "error"}} = ContainerRunner.run_with_retry(%{"folder" => "g"}, input, run_fn: auth_fn)
+      assert_received :auth
+      refute_received :auth
+    end
+
+    test "does not re-run a failed run that may have had side effects" do
+      test_pid = self()
+      input = %{prompt: "hi", session_id: nil}
+
+      for failure <- [
+            %{"code" => "AgentOverloadedError", "retryable" => true, "sideEffects" => true},
+            # Older containers don't say, so nothing is assumed
+            %{"code" => "AgentOverloadedError", "retryable" => true}
+          ] do
+        run_fn = fn _group, _input, _opts ->
+          send(test_pid, :ran)
+          {:ok, %{status: "error", failure: failure}}
+        end
+
+        assert {:ok, %{status: "error"}} =
+                 ContainerRunner.run_with_retry(%{"folder" => "g"}, input, run_fn: run_fn, retry_delay_ms: 0)
+
+        assert_received :ran
+        refute_received :ran
+      end
+    end
   end
 
   describe "write_tasks_snapshot/4" do
@@ -108,6 +245,42 @@ defmodule Guardian.Kernel.ContainerRunnerTest do
     end
   end
 
+  describe "task_snapshot_entry/1" do
+    test "decodes JSON columns and SQLite booleans and keeps missing columns as null" do
+      row = %{
+        "id" => "t1",
+        "group_folder" => "main",
+        "schedule_type" => "trigger",
+        "agent_options" => ~s({"model": "haiku"}),
+        "include_upstream_result" => 1
+      }
+
+      entry = ContainerRunner.task_snapshot_entry(row)
+      assert entry["agent_options"] == %{"model" => "haiku"}
+      assert entry["include_upstream_result"] == true
+      assert Map.has_key?(entry, "next_run")
+      assert entry["next_run"] == nil
+    end
+  end
+
+  describe "write_task_history_snapshot/4" do
+    test "non-main groups only see runs of their own tasks", %{test_dir: test_dir} do
+      runs = [
+        %{"task_id" => "t1", "group_folder" => "main", "status" => "success"},
+        %{"task_id" => "t2", "group_folder" => "other", "status" => "error", "error" => "boom"}
+      ]
+
+      :ok = ContainerRunner.write_task_history_snapshot("other", false, runs,
+        data_dir: test_dir,
+        mkdir_p: &File.mkdir_p!/1,
+        write_file: &File.write!/2
+      )
+
+      path = Path.join([test_dir, "ipc", "other", "task_history.json"])
+      assert [%{"task_id" => "t2", "error" => "boom"}] = File.read!(path) |> Jason.decode!()
+    end
+  end
+
   describe "write_groups_snapshot/4" do
     test "writes groups for main, empty for non-main", %{test_dir: test_dir} do
       groups = [%{"jid" => "abc@g.us", "name" => "ABC"}]
@@ -166,6 +339,7 @@ defmodule Guardian.Kernel.ContainerRunnerTest do
                  project_root: test_dir,
                  groups_dir: groups_dir,
                  data_dir: data_dir,
+                 state_dir: Path.join(test_dir, "state"),
                  exists_fn: fn _ -> false end,
                  read_file: fn _ -> {:error, :enoent} end
                )
@@ -174,6 +348,395 @@ defmodule Guardian.Kernel.ContainerRunnerTest do
       assert output.result == "hello"
     end
 
+    test "asks for a stream only when there is an event callback", %{test_dir: test_dir} do
+      test_pid = self()
+      output_json = Jason.encode!(%{"status" => "success", "result" => "hello"})
+
+      mock_spawn = fn _args, json_input, _timeout ->
+        send(test_pid, {:input, Jason.decode!(json_input)})
+        {:ok, 0, "---GUARDIAN_CORE_OUTPUT_START---\n#{output_json}\n---GUARDIAN_CORE_OUTPUT_END---\n", ""}
+      end
+
+      group = %{"folder" => "test", "name" => "Test Group"}
+
+      input = %{
+        prompt: "say hello",
+        session_id: nil,
+        group_folder: "test",
+        chat_jid: "123@g.us",
+        is_main: true,
+        is_scheduled_task: nil
+      }
+
+      opts = [
+        spawn_fn: mock_spawn,
+        project_root: test_dir,
+        groups_dir: Path.join(test_dir, "groups"),
+        data_dir: Path.join(test_dir, "data"),
+        state_dir: Path.join(test_dir, "state"),
+        exists_fn: fn _ -> false end,
+        read_file: fn _ -> {:error, :enoent} end
+      ]
+
+      assert {:ok, _} = ContainerRunner.run(group, input, [{:on_event, fn _ -> :ok end} | opts])
+      assert_received {:input, %{"stream" => true, "protocolVersion" => 2}}
+
+      assert {:ok, _} = ContainerRunner.run(group, input, opts)
+      assert_received {:input, plain}
+      refute Map.has_key?(plain, "stream")
+    end
+
+    test "passes the ledger's daily spend and records the run's usage", %{test_dir: test_dir} do
+      test_pid = self()
+      usage = %{"inputTokens" => 120, "outputTokens" => 40, "costUsd" => 0.01, "numTurns" => 2}
+      output_json = Jason.encode!(%{"status" => "success", "result" => "hello", "usage" => usage})
+
+      mock_spawn = fn _args, json_input, _timeout ->
+        send(test_pid, {:input, Jason.decode!(json_input)})
+        {:ok, 0, "---GUARDIAN_CORE_OUTPUT_START---\n#{output_json}\n---GUARDIAN_CORE_OUTPUT_END---\n", ""}
+      end
+
+      group = %{
+        "folder" => "test",
+        "name" => "Test Group",
+        "containerConfig" => %{"budget" => %{"daily" => %{"costUsd" => 5}}}
+      }
+
+      input = %{
+        prompt: "say hello",
+        session_id: nil,
+        group_folder: "test",
+        chat_jid: "123@g.us",
+        is_main: true,
+        is_scheduled_task: nil
+      }
+
+      spend = %{"tokens" => 900, "costUsd" => 1.5, "turns" => 4}
+
+      opts = [
+        spawn_fn: mock_spawn,
+        project_root: test_dir,
+        groups_dir: Path.join(test_dir, "groups"),
+        data_dir: Path.join(test_dir, "data"),
+        state_dir: Path.join(test_dir, "state"),
+        exists_fn: fn _ -> false end,
+        read_file: fn _ -> {:error, :enoent} end,
+        daily_spend_fn: fn "test" -> {:ok, spend} end,
+        record_usage_fn: fn folder, _input, output -> send(test_pid, {:recorded, folder, output.usage}) end
+      ]
+
+      assert {:ok, _} = ContainerRunner.run(group, input, opts)
+      assert_received {:input, %{"dailySpend" => ^spend}}
+      assert_received {:recorded, "test", ^usage}
+
+      # Without a daily budget the ledger is not read
+      no_daily = put_in(group, ["containerConfig", "budget"], %{"run" => %{"turns" => 10}})
+      no_read = Keyword.put(opts, :daily_spend_fn, fn _ -> flunk("read the ledger") end)
+      assert {:ok, _} = ContainerRunner.run(no_daily, input, no_read)
+      assert_received {:input, plain}
+      refute Map.has_key?(plain, "dailySpend")
+    end
+
+    test "refuses the run when the ledger cannot be read", %{test_dir: test_dir} do
+      mock_spawn = fn _args, _input, _timeout -> flunk("spawned without a daily spend") end
+
+      group = %{
+        "folder" => "test",
+        "name" => "Test Group",
+        "containerConfig" => %{"budget" => %{"daily" => %{"costUsd" => 5}}}
+      }
+
+      input = %{
+        prompt: "say hello",
+        session_id: nil,
+        group_folder: "test",
+        chat_jid: "123@g.us",
+        is_main: true,
+        is_scheduled_task: nil
+      }
+
+      assert {:error, msg} =
+               ContainerRunner.run(group, input,
+                 spawn_fn: mock_spawn,
+                 project_root: test_dir,
+                 groups_dir: Path.join(test_dir, "groups"),
+                 data_dir: Path.join(test_dir, "data"),
+                 state_dir: Path.join(test_dir, "state"),
+                 daily_spend_fn: fn _ -> {:error, :busy} end
+               )
+
+      assert msg =~ "Usage ledger unavailable"
+    end
+
+    test "appends audit events to the group's audit log on the host", %{test_dir: test_dir} do
+      output_json = Jason.encode!(%{"status" => "success", "result" => "hello"})
+      audit = Jason.encode!(%{"type" => "audit", "entry" => %{"toolName" => "Bash"}, "timestamp" => "t"})
+      text = Jason.encode!(%{"type" => "text", "text" => "hi", "timestamp" => "t"})
+
+      mock_spawn = fn _args, _input, _timeout ->
+        {:ok, 0,
+         "---GUARDIAN_CORE_EVENT_START---\n#{audit}\n---GUARDIAN_CORE_EVENT_END---\n" <>
+           "---GUARDIAN_CORE_EVENT_START---\n#{text}\n---GUARDIAN_CORE_EVENT_END---\n" <>
+           "---GUARDIAN_CORE_OUTPUT_START---\n#{output_json}\n---GUARDIAN_CORE_OUTPUT_END---\n", ""}
+      end
+
+      group = %{"folder" => "test", "name" => "Test Group"}
+
+      input = %{
+        prompt: "say hello",
+        session_id: nil,
+        group_folder: "test",
+        chat_jid: "123@g.us",
+        is_main: true,
+        is_scheduled_task: nil
+      }
+
+      project_root = Path.join(test_dir, "project")
+      state_dir = Path.join(test_dir, "state")
+
+      opts = [
+        spawn_fn: mock_spawn,
+        project_root: project_root,
+        groups_dir: Path.join(project_root, "groups"),
+        data_dir: Path.join(project_root, "data"),
+        state_dir: state_dir,
+        exists_fn: fn _ -> false end,
+        read_file: fn _ -> {:error, :enoent} end
+      ]
+
+      assert {:ok, _} = ContainerRunner.run(group, input, opts)
+      assert {:ok, _} = ContainerRunner.run(group, input, opts)
+
+      lines = Path.join([state_dir, "audit", "test", "tools.jsonl"]) |> File.read!() |> String.split("\n", trim: true)
+      assert Enum.map(lines, &Jason.decode!/1) == [%{"toolName" => "Bash"}, %{"toolName" => "Bash"}]
+      refute File.exists?(Path.join([project_root, "data", "audit"]))
+    end
+
+    test "mounts nothing from the host state dir into the main container", %{test_dir: test_dir} do
+      test_pid = self()
+      output_json = Jason.encode!(%{"status" => "success", "result" => "hello"})
+
+      mock_spawn = fn args, _input, _timeout ->
+        send(test_pid, {:args, args})
+        {:ok, 0, "---GUARDIAN_CORE_OUTPUT_START---\n#{output_json}\n---GUARDIAN_CORE_OUTPUT_END---\n", ""}
+      end
+
+      group = %{"folder" => "main", "name" => "Main"}
+
+      input = %{
+        prompt: "say hello",
+        session_id: nil,
+        group_folder: "main",
+        chat_jid: "123@g.us",
+        is_main: true,
+        is_scheduled_task: nil
+      }
+
+      project_root = Path.join(test_dir, "project")
+      data_dir = Path.join(project_root, "data")
+      state_dir = Path.join(test_dir, "state")
+
+      assert {:ok, _} =
+               ContainerRunner.run(group, input,
+                 spawn_fn: mock_spawn,
+                 project_root: project_root,
+                 groups_dir: Path.join(project_root, "groups"),
+                 data_dir: data_dir,
+                 state_dir: state_dir,
+                 exists_fn: fn _ -> false end,
+                 read_file: fn _ -> {:error, :enoent} end
+               )
+
+      assert_received {:args, args}
+
+      mounts =
+        args
+        |> Enum.chunk_every(2, 1, :discard)
+        |> Enum.flat_map(fn
+          ["-v", mount] -> [mount]
+          _ -> []
+        end)
+
+      assert Enum.sort(mounts) ==
+               Enum.sort([
+                 "#{project_root}:/workspace/project",
+                 "#{project_root}/groups/main:/workspace/group",
+                 "#{data_dir}/sessions/main/.claude:/home/node/.claude",
+                 "#{data_dir}/ipc/main:/workspace/ipc"
+               ])
+
+      refute Enum.any?(mounts, &String.starts_with?(&1, state_dir))
+    end
+
+    test "passes a derived pseudonym key and vaults reported identifiers on the host", %{test_dir: test_dir} do
+      test_pid = self()
+      output_json = Jason.encode!(%{"status" => "success", "result" => "hello"})
+
+      pseudonym =
+        Jason.encode!(%{
+          "type" => "pseudonym",
+          "token" => "[JID:0a1b2c3d]",
+          "original" => "15551234567@s.whatsapp.net",
+          "pattern" => "whatsapp-jid",
+          "timestamp" => "t"
+        })
+
+      mock_spawn = fn _args, json_input, _timeout ->
+        send(test_pid, {:input, Jason.decode!(json_input)})
+
+        {:ok, 0,
+         "---GUARDIAN_CORE_EVENT_START---\n#{pseudonym}\n---GUARDIAN_CORE_EVENT_END---\n" <>
+           "---GUARDIAN_CORE_OUTPUT_START---\n#{output_json}\n---GUARDIAN_CORE_OUTPUT_END---\n", ""}
+      end
+
+      group = %{"folder" => "test", "name" => "Test Group"}
+
+      input = %{
+        prompt: "say hello",
+        session_id: nil,
+        group_folder: "test",
+        chat_jid: "123@g.us",
+        is_main: true,
+        is_scheduled_task: nil
+      }
+
+      project_root = Path.join(test_dir, "project")
+      state_dir = Path.join(test_dir, "state")
+
+      assert {:ok, _} =
+               ContainerRunner.run(group, input,
+                 spawn_fn: mock_spawn,
+                 project_root: project_root,
+                 groups_dir: Path.join(project_root, "groups"),
+                 data_dir: Path.join(project_root, "data"),
+                 state_dir: state_dir,
+                 exists_fn: fn _ -> false end,
+                 read_file: fn _ -> {:error, :enoent} end,
+                 pseudonym_key: "master-secret"
+               )
+
+      assert_received {:input, %{"pseudonymKey" => key}}
+      assert key == Guardian.Kernel.Pseudonyms.group_key("test", "master-secret")
+      refute key =~ "master-secret"
+
+      vault = Guardian.Kernel.Pseudonyms.vault_path(state_dir, "test")
+      assert Guardian.Kernel.Pseudonyms.lookup(vault, "[JID:0a1b2c3d]") == ["15551234567@s.whatsapp.net"]
+      refute File.exists?(Path.join([project_root, "data", "pseudonyms"]))
+    end
+
+    test "keeps the pseudonym and template keys out of the container env file", %{test_dir: test_dir} do
+      File.write!(Path.join(test_dir, ".env"), """
+      CLAUDE_CODE_OAUTH_TOKEN=oauth
+      GUARDIAN_PSEUDONYM_KEY=pseudonym-master
+      GUARDIAN_TEMPLATE_KEY=template-hmac
+      GUARDIAN_TEMPLATE_ED25519_KEY=template-ed25519
+      """)
+
+      test_pid = self()
+      output_json = Jason.encode!(%{"status" => "success", "result" => "hello"})
+
+      mock_spawn = fn args, _input, _timeout ->
+        send(test_pid, {:args, args})
+        {:ok, 0, "---GUARDIAN_CORE_OUTPUT_START---\n#{output_json}\n---GUARDIAN_CORE_OUTPUT_END---\n", ""}
+      end
+
+      group = %{"folder" => "test", "name" => "Test Group"}
+
+      input = %{
+        prompt: "say hello",
+        session_id: nil,
+        group_folder: "test",
+        chat_jid: "123@g.us",
+        is_main: true,
+        is_scheduled_task: nil
+      }
+
+      data_dir = Path.join(test_dir, "data")
+
+      assert {:ok, _} =
+               ContainerRunner.run(group, input,
+                 spawn_fn: mock_spawn,
+                 project_root: test_dir,
+                 groups_dir: Path.join(test_dir, "groups"),
+                 data_dir: data_dir,
+                 state_dir: Path.join(test_dir, "state")
+               )
+
+      env = File.read!(Path.join([data_dir, "env", "env"]))
+      assert env =~ "CLAUDE_CODE_OAUTH_TOKEN=oauth"
+      refute env =~ "GUARDIAN_PSEUDONYM_KEY"
+      refute env =~ "GUARDIAN_TEMPLATE"
+
+      # Main mounts the project read-write, so its .env is shadowed
+      assert_received {:args, args}
+      assert Enum.find_index(args, &(&1 == "/dev/null:/workspace/project/.env:ro")) >
+               Enum.find_index(args, &(&1 == "#{test_dir}:/workspace/project"))
+    end
+
+    test "seals a new group before its first run and passes only the public key", %{test_dir: test_dir} do
+      test_pid = self()
+      output_json = Jason.encode!(%{"status" => "success", "result" => "hello"})
+
+      mock_spawn = fn _args, json_input, _timeout ->
+        send(test_pid, {:input, Jason.decode!(json_input)})
+        {:ok, 0, "---GUARDIAN_CORE_OUTPUT_START---\n#{output_json}\n---GUARDIAN_CORE_OUTPUT_END---\n", ""}
+      end
+
+      groups_dir = Path.join(test_dir, "groups")
+      data_dir = Path.join(test_dir, "data")
+      File.mkdir_p!(Path.join(groups_dir, "test"))
+      File.write!(Path.join([groups_dir, "test", "SOUL.md"]), "soul")
+      File.mkdir_p!(Path.join(groups_dir, "global"))
+      File.write!(Path.join([groups_dir, "global", "USER.md"]), "shared")
+
+      group = %{"folder" => "test", "name" => "Test Group"}
+
+      input = %{
+        prompt: "say hello",
+        session_id: nil,
+        group_folder: "test",
+        chat_jid: "123@g.us",
+        is_main: false,
+        is_scheduled_task: nil
+      }
+
+      {public, private} = :crypto.generate_key(:eddsa, :ed25519)
+
+      opts = [
+        spawn_fn: mock_spawn,
+        project_root: test_dir,
+        groups_dir: groups_dir,
+        data_dir: data_dir,
+        state_dir: Path.join(test_dir, "state"),
+        exists_fn: &(&1 == Path.join(groups_dir, "global")),
+        read_file: fn _ -> {:error, :enoent} end,
+        template_key: {private, public}
+      ]
+
+      assert {:ok, _} = ContainerRunner.run(group, input, opts)
+      assert_received {:input, json_input}
+      assert json_input["templatePublicKey"] == Base.encode64(public)
+      refute json_input |> Jason.encode!() |> String.contains?(Base.encode64(private))
+
+      manifest_path = Path.join([groups_dir, "test", "_integrity", "manifest.json"])
+      manifest = manifest_path |> File.read!() |> Jason.decode!()
+      assert %{"files" => %{"SOUL.md" => _}, "algorithm" => "ed25519"} = manifest
+
+      # The host's record lives outside the project and goes out with every run
+      refute File.exists?(Path.join([data_dir, "integrity"]))
+      assert json_input["templateManifest"] == manifest
+
+      # The global layer is sealed too, memory files included
+      assert %{"files" => %{"USER.md" => _}, "algorithm" => "ed25519"} = json_input["globalTemplateManifest"]
+
+      # Later runs leave a deleted manifest for the container to report and
+      # restore from the record
+      File.rm!(manifest_path)
+      assert {:ok, _} = ContainerRunner.run(group, input, opts)
+      refute File.exists?(manifest_path)
+      assert_received {:input, %{"templateManifest" => ^manifest}}
+    end
+
     test "handles non-zero exit code", %{test_dir: test_dir} do
       mock_spawn = fn _args, _input, _timeout ->
         {:ok, 1, "", "some error"}
@@ -201,6 +764,7 @@ defmodule Guardian.Kernel.ContainerRunnerTest do
                  project_root: test_dir,
                  groups_dir: groups_dir,
                  data_dir: data_dir,
+                 state_dir: Path.join(test_dir, "state"),
                  exists_fn: fn _ -> false end,
                  read_file: fn _ -> {:error, :enoent} end
                )
@@ -235,6 +799,7 @@ defmodule Guardian.Kernel.ContainerRunnerTest do
                  project_root: test_dir,
                  groups_dir: groups_dir,
                  data_dir: data_dir,
+                 state_dir: Path.join(test_dir, "state"),
                  exists_fn: fn _ -> false end,
                  read_file: fn _ -> {:error, :enoent} end
                )
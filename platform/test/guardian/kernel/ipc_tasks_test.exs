@@ -0,0 +1,204 @@
+defmodule Guardian.Kernel.IpcTasksTest do
+  use ExUnit.Case, async: false
+
+  alias Guardian.Kernel.IpcTasks
+  alias Guardian.Repo
+  alias Guardian.Repo.Migrations
+
+  @groups %{
+    "123@g.us" => %{"folder" => "main", "name" => "Main"},
+    "456@g.us" => %{"folder" => "other", "name" => "Other", "containerConfig" => %{"timezone" => "Asia/Tokyo"}}
+  }
+
+  setup do
+    Migrations.run!()
+    Ecto.Adapters.SQL.query!(Repo, "DELETE FROM task_run_logs")
+    Ecto.Adapters.SQL.query!(Repo, "DELETE FROM scheduled_tasks")
+    :ok
+  end
+
+  defp process(data, source_group, is_main) do
+    IpcTasks.process(data, source_group, is_main, registered_groups_fn: fn -> @groups end, timezone: "America/New_York")
+  end
+
+  defp schedule(source_group, fields) do
+    data = Map.merge(%{"type" => "schedule_task", "prompt" => "check in", "groupFolder" => source_group}, fields)
+
+    case process(data, source_group, source_group == "main") do
+      {:ok, "Task ID: " <> id} -> {:ok, id}
+      other -> other
+    end
+  end
+
+  defp get_task(id) do
+    %{rows: [row], columns: columns} = Ecto.Adapters.SQL.query!(Repo, "SELECT * FROM scheduled_tasks WHERE id = ?1", [id])
+    Enum.zip(columns, row) |> Map.new()
+  end
+
+  describe "schedule_task" do
+    test "persists every field with the registered group's chat" do
+      end_at = DateTime.utc_now() |> DateTime.add(30, :day) |> DateTime.to_iso8601()
+
+      {:ok, id} =
+        schedule("other", %{
+          "schedule_type" => "cron",
+          "schedule_value" => "0 9 * * *",
+          "context_mode" => "group",
+          "chatJid" => "999@g.us",
+          "timezone" => "Europe/Berlin",
+          "max_runs" => 5,
+          "end_at" => end_at,
+          "jitter_seconds" => 30,
+          "agent_options" => %{"model" => "haiku", "maxTurns" => 3}
+        })
+
+      task = get_task(id)
+      assert task["group_folder"] == "other"
+      assert task["chat_jid"] == "456@g.us"
+      assert task["status"] == "active"
+      assert {task["context_mode"], task["timezone"], task["max_runs"], task["jitter_seconds"]} == {"group", "Europe/Berlin", 5, 30}
+      assert task["end_at"] == end_at
+      assert Jason.decode!(task["agent_options"]) == %{"model" => "haiku", "maxTurns" => 3}
+
+      {:ok, next_run, _} = DateTime.from_iso8601(task["next_run"])
+      local = next_run |> DateTime.add(-30, :second) |> DateTime.shift_zone!("Europe/Berlin")
+      assert local.hour in [8, 9]
+    end
+
+    test "reads a once time in the group's default timezone" do
+      local = DateTime.now!("Asia/Tokyo") |> DateTime.add(1, :day) |> DateTime.to_naive() |> NaiveDateTime.truncate(:second)
+
+      {:ok, id} = schedule("other", %{"schedule_type" => "once", "schedule_value" => NaiveDateTime.to_iso8601(local)})
+
+      {:ok, next_run, _} = DateTime.from_iso8601(get_task(id)["next_run"])
+      assert DateTime.shift_zone!(next_run, "Asia/Tokyo") |> DateTime.to_naive() == local
+    end
+
+    test "refuses invalid fields without writing a task" do
+      assert {:error, "Unknown timezone: Mars/Olympus_Mons"} =
+               schedule("other", %{"schedule_type" => "cron", "schedule_value" => "0 9 * * *", "timezone" => "Mars/Olympus_Mons"})
+
+      assert {:error, "Invalid max_runs: 0"} =
+               schedule("other", %{"schedule_type" => "cron", "schedule_value" => "0 9 * * *", "max_runs" => 0})
+
+      assert {:error, "Invalid agent_options.maxTurns: -1"} =
+               schedule("other", %{"schedule_type" => "interval", "schedule_value" => "60000", "agent_options" => %{"maxTurns" => -1}})
+
+      assert {:error, "2020-01-01T09:00:00 (America/New_York) is in the past"} =
+               schedule("main", %{"schedule_type" => "once", "schedule_value" => "2020-01-01T09:00:00"})
+
+      assert %{rows: [[0]]} = Ecto.Adapters.SQL.query!(Repo, "SELECT COUNT(*) FROM scheduled_tasks")
+    end
+
+    test "lets only main schedule for another group" do
+      fields = %{"schedule_type" => "interval", "schedule_value" => "60000", "target_group" => "main"}
+
+      assert {:error, %{"_tag" => "IpcAuthorizationError", "group" => "other", "action" => "schedule_task"}} =
+               schedule("other", fields)
+
+      assert {:ok, id} = schedule("main", %{fields | "target_group" => "other"})
+      assert get_task(id)["chat_jid"] == "456@g.us"
+    end
+
+    test "needs an upstream the group can see for a trigger" do
+      {:ok, main_task} = schedule("main", %{"schedule_type" => "interval", "schedule_value" => "60000"})
+      trigger = %{"schedule_type" => "trigger", "schedule_value" => "on_success"}
+
+      assert {:error, "A trigger task needs depends_on, the upstream task ID"} = schedule("other", trigger)
+      assert {:error, "Upstream task missing not found"} = schedule("other", Map.put(trigger, "depends_on", "missing"))
+      assert {:error, "Upstream task " <> _} = schedule("other", Map.put(trigger, "depends_on", main_task))
+
+      assert {:ok, id} = schedule("main", Map.merge(trigger, %{"depends_on" => main_task, "include_upstream_result" => true}))
+      task = get_task(id)
+      assert {task["depends_on"], task["include_upstream_result"], task["next_run"]} == {main_task, 1, nil}
+    end
+  end
+
+  describe "update_task" do
+    test "refuses a change that closes a dependency loop" do
+      {:ok, a} = schedule("main", %{"schedule_type" => "interval", "schedule_value" => "60000"})
+      {:ok, b} = schedule("main", %{"schedule_type" => "trigger", "schedule_value" => "on_success", "depends_on" => a})
+      {:ok, c} = schedule("main", %{"schedule_type" => "trigger", "schedule_value" => "on_failure", "depends_on" => b})
+
+      update = %{"type" => "update_task", "taskId" => a, "schedule_type" => "trigger", "schedule_value" => "on_success", "depends_on" => c}
+      assert {:error, "That would make a dependency loop: " <> loop} = process(update, "main", true)
+      assert loop == Enum.join([a, c, b, a], " → ")
+      assert get_task(a)["schedule_type"] == "interval"
+    end
+
+    test "recomputes next_run and drops the upstream when leaving the trigger type" do
+      {:ok, a} = schedule("main", %{"schedule_type" => "interval", "schedule_value" => "60000"})
+      {:ok, b} = schedule("main", %{"schedule_type" => "trigger", "schedule_value" => "on_success", "depends_on" => a})
+
+      assert :ok = process(%{"type" => "update_task", "taskId" => b, "schedule_type" => "interval", "schedule_value" => "3600000"}, "main", true)
+
+      task = get_task(b)
+      assert {task["schedule_type"], task["depends_on"]} == {"interval", nil}
+      assert task["next_run"] != nil
+    end
+
+    test "counts past runs against a new max_runs" do
+      {:ok, id} = schedule("other", %{"schedule_type" => "interval", "schedule_value" => "60000"})
+
+      for _ <- 1..2 do
+        Ecto.Adapters.SQL.query!(
+          Repo,
+          "INSERT INTO task_run_logs (task_id, run_at, duration_ms, status) VALUES (?1, ?2, 10, 'success')",
+          [id, DateTime.utc_now() |> DateTime.to_iso8601()]
+        )
+      end
+
+      assert {:error, "The schedule has no runs left" <> _} =
+               process(%{"type" => "update_task", "taskId" => id, "max_runs" => 2}, "other", false)
+
+      assert :ok = process(%{"type" => "update_task", "taskId" => id, "max_runs" => 3, "prompt" => "check twice"}, "other", false)
+      assert {get_task(id)["max_runs"], get_task(id)["prompt"]} == {3, "check twice"}
+    end
+  end
+
+  describe "pause, resume and cancel" do
+    test "only touch the group's own tasks" do
+      {:ok, id} = schedule("main", %{"schedule_type" => "interval", "schedule_value" => "60000"})
+
+      for type <- ~w(pause_task resume_task cancel_task update_task) do
+        assert {:error, %{"_tag" => "IpcAuthorizationError", "action" => ^type}} =
+                 process(%{"type" => type, "taskId" => id, "prompt" => "mine now"}, "other", false)
+      end
+
+      assert get_task(id)["status"] == "active"
+      assert {:error, "Task nope not found"} = process(%{"type" => "pause_task", "taskId" => "nope"}, "main", true)
+    end
+
+    test "pause and resume a task, and cancel it with its run history" do
+      {:ok, id} = schedule("other", %{"schedule_type" => "interval", "schedule_value" => "60000"})
+
+      assert :ok = process(%{"type" => "pause_task", "taskId" => id}, "other", false)
+      assert get_task(id)["status"] == "paused"
+      assert :ok = process(%{"type" => "resume_task", "taskId" => id}, "other", false)
+      assert get_task(id)["status"] == "active"
+
+      Ecto.Adapters.SQL.query!(
+        Repo,
+        "INSERT INTO task_run_logs (task_id, run_at, duration_ms, status) VALUES (?1, ?2, 10, 'success')",
+        [id, DateTime.utc_now() |> DateTime.to_iso8601()]
+      )
+
+      assert :ok = process(%{"type" => "cancel_task", "taskId" => id}, "other", false)
+      assert %{rows: []} = Ecto.Adapters.SQL.query!(Repo, "SELECT id FROM scheduled_tasks WHERE id = ?1", [id])
+      assert %{rows: []} = Ecto.Adapters.SQL.query!(Repo, "SELECT id FROM task_run_logs WHERE task_id = ?1", [id])
+    end
+
+    test "refuse to cancel a task others are triggered by" do
+      {:ok, a} = schedule("main", %{"schedule_type" => "interval", "schedule_value" => "60000"})
+      {:ok, b} = schedule("main", %{"schedule_type" => "trigger", "schedule_value" => "on_success", "depends_on" => a})
+
+      assert {:error, message} = process(%{"type" => "cancel_task", "taskId" => a}, "main", true)
+      assert message =~ b
+    end
+  end
+
+  test "answers other actions as unsupported" do
+    assert {:error, %{"_tag" => "IpcUnsupportedActionError", "action" => "launch_rocket"}} =
+             process(%{"type" => "launch_rocket"}, "main", true)
+  end
+end
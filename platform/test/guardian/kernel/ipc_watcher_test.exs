@@ -134,6 +134,130 @@ defmodule Guardian.Kernel.IpcWatcherTest do
     assert jid == "456@g.us"
   end
 
+  test "sends media from the group folder and blocks paths outside it", ctx do
+    media = %{
+      "type" => "media",
+      "chatJid" => "456@g.us",
+      "file" => "charts/weekly.png",
+      "mimeType" => "image/png",
+      "kind" => "image",
+      "groupFolder" => "other"
+    }
+
+    escaping = Map.put(media, "file", "../main/SOUL.md")
+    linked = Map.put(media, "file", "charts/soul.png")
+
+    groups_dir = Path.join(ctx.test_dir, "groups")
+    File.mkdir_p!(Path.join([groups_dir, "other", "charts"]))
+    File.mkdir_p!(Path.join(groups_dir, "main"))
+    File.write!(Path.join([groups_dir, "other", "charts", "weekly.png"]), "png")
+    File.write!(Path.join([groups_dir, "main", "SOUL.md"]), "soul")
+    # A symlink planted inside the group folder must not reach outside it
+    File.ln_s!(Path.join([groups_dir, "main", "SOUL.md"]), Path.join([groups_dir, "other", "charts", "soul.png"]))
+
+    File.write!(Path.join([ctx.ipc_base, "other", "messages", "media1.json"]), Jason.encode!(media))
+    File.write!(Path.join([ctx.ipc_base, "other", "messages", "media2.json"]), Jason.encode!(escaping))
+    File.write!(Path.join([ctx.ipc_base, "other", "messages", "media3.json"]), Jason.encode!(linked))
+
+    watcher =
+      start_watcher(ctx,
+        groups_dir: groups_dir,
+        send_media_fn: fn jid, media ->
+          Agent.update(ctx.sent, fn list -> [{jid, media} | list] end)
+          :ok
+        end
+      )
+
+    send(watcher.pid, :poll)
+    Process.sleep(50)
+
+    sent = Agent.get(ctx.sent, & &1)
+    assert [{"456@g.us", sent_media}] = sent
+    # The tmp dir itself may sit behind a symlink (macOS), so compare the tail
+    assert String.ends_with?(sent_media.path, "/groups/other/charts/weekly.png")
+    assert sent_media.kind == "image"
+  end
+
+  test "relays template tamper events to the main group's chat", ctx do
+    event = %{
+      "type" => "template_tamper",
+      "files" => [
+        %{"file" => "SOUL.md", "expectedSha256" => "aa", "actualSha256" => "bb", "restored" => true}
+      ],
+      "manifestValid" => true,
+      "groupFolder" => "other"
+    }
+
+    event_path = Path.join([ctx.ipc_base, "other", "messages", "tamper1.json"])
+    File.write!(event_path, Jason.encode!(event))
+
+    watcher = start_watcher(ctx)
+    send(watcher.pid, :poll)
+    Process.sleep(50)
+
+    assert [{"123@g.us", text}] = Agent.get(ctx.sent, & &1)
+    assert text =~ "other"
+    assert text =~ "SOUL.md (restored)"
+    refute File.exists?(event_path)
+  end
+
+  test "reports a deleted manifest in the tamper alert", ctx do
+    event = %{
+      "type" => "template_tamper",
+      "files" => [%{"file" => "SOUL.md", "expectedSha256" => nil, "actualSha256" => "bb", "restored" => false}],
+      "manifestValid" => false,
+      "manifestMissing" => true,
+      "groupFolder" => "other"
+    }
+
+    File.write!(Path.join([ctx.ipc_base, "other", "messages", "tamper1.json"]), Jason.encode!(event))
+
+    watcher = start_watcher(ctx)
+    send(watcher.pid, :poll)
+    Process.sleep(50)
+
+    assert [{"123@g.us", text}] = Agent.get(ctx.sent, & &1)
+    assert text =~ "manifest deleted; SOUL.md"
+  end
+
+  test "names the global layer in its tamper alert", ctx do
+    event = %{
+      "type" => "template_tamper",
+      "layer" => "global",
+      "files" => [%{"file" => "SOUL.md", "expectedSha256" => "aa", "actualSha256" => "bb", "restored" => false}],
+      "manifestValid" => true,
+      "groupFolder" => "other"
+    }
+
+    File.write!(Path.join([ctx.ipc_base, "other", "messages", "tamper1.json"]), Jason.encode!(event))
+
+    watcher = start_watcher(ctx)
+    send(watcher.pid, :poll)
+    Process.sleep(50)
+
+    assert [{"123@g.us", text}] = Agent.get(ctx.sent, & &1)
+    assert text =~ "the global templates (seen by other): SOUL.md"
+  end
+
+  test "reports a manifest that differs from the host's record", ctx do
+    event = %{
+      "type" => "template_tamper",
+      "files" => [],
+      "manifestValid" => false,
+      "manifestMissing" => false,
+      "groupFolder" => "other"
+    }
+
+    File.write!(Path.join([ctx.ipc_base, "other", "messages", "tamper1.json"]), Jason.encode!(event))
+
+    watcher = start_watcher(ctx)
+    send(watcher.pid, :poll)
+    Process.sleep(50)
+
+    assert [{"123@g.us", text}] = Agent.get(ctx.sent, & &1)
+    assert text =~ "manifest altered"
+  end
+
   test "processes IPC task files", ctx do
     task = %{
       "type" => "schedule_task",
@@ -160,6 +284,159 @@ defmodule Guardian.Kernel.IpcWatcherTest do
     refute File.exists?(task_path)
   end
 
+  test "writes a response file for task requests with a requestId", ctx do
+    task = %{
+      "type" => "cancel_task",
+      "taskId" => "task-1",
+      "groupFolder" => "other",
+      "requestId" => "req-123"
+    }
+
+    File.write!(Path.join([ctx.ipc_base, "other", "tasks", "task1.json"]), Jason.encode!(task))
+
+    watcher =
+      start_watcher(ctx,
+        process_task_fn: fn _data, source, _is_main ->
+          {:error,
+           %{
+             "_tag" => "IpcAuthorizationError",
+             "group" => source,
+             "action" => "cancel_task",
+             "message" => "Task task-1 belongs to another group"
+           }}
+        end
+      )
+
+    send(watcher.pid, :poll)
+    Process.sleep(50)
+
+    response_path = Path.join([ctx.ipc_base, "other", "responses", "req-123.json"])
+    response = response_path |> File.read!() |> Jason.decode!()
+    assert response["requestId"] == "req-123"
+    assert response["status"] == "error"
+    assert response["error"]["_tag"] == "IpcAuthorizationError"
+    refute File.exists?(response_path <> ".tmp")
+  end
+
+  test "answers task requests with an error when no handler is configured", ctx do
+    task = %{
+      "type" => "pause_task",
+      "taskId" => "task-1",
+      "groupFolder" => "other",
+      "requestId" => "req-unhandled"
+    }
+
+    File.write!(Path.join([ctx.ipc_base, "other", "tasks", "task1.json"]), Jason.encode!(task))
+
+    {:ok, pid} =
+      IpcWatcher.start_link(
+        name: :"ipc_watcher_#{System.unique_integer([:positive])}",
+        data_dir: ctx.test_dir,
+        main_group_folder: "main",
+        poll_interval: 100_000,
+        get_registered_groups_fn: fn -> %{} end
+      )
+
+    send(pid, :poll)
+    Process.sleep(50)
+
+    response =
+      [ctx.ipc_base, "other", "responses", "req-unhandled.json"]
+      |> Path.join()
+      |> File.read!()
+      |> Jason.decode!()
+
+    assert response["status"] == "error"
+    assert response["error"]["_tag"] == "IpcUnsupportedActionError"
+    assert response["error"]["action"] == "pause_task"
+  end
+
+  test "refuses main-only and cross-group task requests from other groups", ctx do
+    register = %{
+      "type" => "register_group",
+      "jid" => "789@g.us",
+      "name" => "New",
+      "folder" => "new",
+      "trigger" => "@Andy",
+      "groupFolder" => "other",
+      "requestId" => "req-register"
+    }
+
+    spoofed = %{
+      "type" => "cancel_task",
+      "taskId" => "task-1",
+      "groupFolder" => "main",
+      "requestId" => "req-spoofed"
+    }
+
+    File.write!(Path.join([ctx.ipc_base, "other", "tasks", "task1.json"]), Jason.encode!(register))
+    File.write!(Path.join([ctx.ipc_base, "other", "tasks", "task2.json"]), Jason.encode!(spoofed))
+
+    watcher = start_watcher(ctx)
+    send(watcher.pid, :poll)
+    Process.sleep(50)
+
+    assert Agent.get(ctx.tasks_processed, & &1) == []
+
+    for request_id <- ["req-register", "req-spoofed"] do
+      response =
+        [ctx.ipc_base, "other", "responses", "#{request_id}.json"]
+        |> Path.join()
+        |> File.read!()
+        |> Jason.decode!()
+
+      assert response["status"] == "error"
+      assert response["error"]["_tag"] == "IpcAuthorizationError"
+      assert response["error"]["group"] == "other"
+    end
+  end
+
+  test "seals templates on the host for the main group only and tells the owner", ctx do
+    main_request = %{
+      "type" => "seal_templates",
+      "targetFolder" => "other",
+      "groupFolder" => "main",
+      "requestId" => "req-seal"
+    }
+
+    other_request = %{
+      "type" => "seal_templates",
+      "targetFolder" => "other",
+      "groupFolder" => "other",
+      "requestId" => "req-reseal"
+    }
+
+    File.write!(Path.join([ctx.ipc_base, "main", "tasks", "seal.json"]), Jason.encode!(main_request))
+    File.write!(Path.join([ctx.ipc_base, "other", "tasks", "seal.json"]), Jason.encode!(other_request))
+
+    test_pid = self()
+
+    watcher =
+      start_watcher(ctx,
+        seal_templates_fn: fn folder ->
+          send(test_pid, {:sealed, folder})
+          {:ok, %{"files" => %{"SOUL.md" => "aa", "PROMPT.json" => "bb"}, "signature" => "sig"}}
+        end
+      )
+
+    send(watcher.pid, :poll)
+    Process.sleep(50)
+
+    assert_received {:sealed, "other"}
+    refute_received {:sealed, _}
+    assert Agent.get(ctx.tasks_processed, & &1) == []
+
+    sealed = [ctx.ipc_base, "main", "responses", "req-seal.json"] |> Path.join() |> File.read!() |> Jason.decode!()
+    assert sealed["status"] == "ok"
+    assert sealed["message"] =~ "PROMPT.json, SOUL.md"
+
+    refused = [ctx.ipc_base, "other", "responses", "req-reseal.json"] |> Path.join() |> File.read!() |> Jason.decode!()
+    assert refused["error"]["_tag"] == "IpcAuthorizationError"
+
+    assert [{"123@g.us", text}] = Agent.get(ctx.sent, & &1)
+    assert text =~ "Templates sealed in other (signed)"
+  end
+
   test "moves malformed JSON to errors directory", ctx do
     bad_path = Path.join([ctx.ipc_base, "main", "messages", "bad.json"])
     File.write!(bad_path, "not valid json {{{")
@@ -0,0 +1,40 @@
+defmodule Guardian.Kernel.PseudonymsTest do
+  use ExUnit.Case, async: true
+
+  alias Guardian.Kernel.Pseudonyms
+
+  setup do
+    dir = Path.join(System.tmp_dir!(), "pseudonyms_test_#{System.unique_integer([:positive])}")
+    on_exit(fn -> File.rm_rf!(dir) end)
+    %{vault: Path.join([dir, "pseudonyms", "main", "vault.jsonl"])}
+  end
+
+  defp event(token, original) do
+    %{"type" => "pseudonym", "token" => token, "original" => original, "pattern" => "phone", "timestamp" => "t"}
+  end
+
+  test "group keys are stable, distinct per group and off without a master key" do
+    assert Pseudonyms.group_key("main", "secret") == Pseudonyms.group_key("main", "secret")
+    assert Pseudonyms.group_key("main", "secret") != Pseudonyms.group_key("family", "secret")
+    refute Pseudonyms.group_key("main", "secret") =~ "secret"
+    assert Pseudonyms.group_key("main", nil) == nil
+    assert Pseudonyms.group_key("main", "") == nil
+  end
+
+  test "records each token once in an owner-only vault", %{vault: vault} do
+    assert :ok = Pseudonyms.record(vault, [event("[PHONE:1]", "+15551234567"), %{"type" => "text", "text" => "hi"}])
+    assert :ok = Pseudonyms.record(vault, [event("[PHONE:1]", "+15551234567"), event("[PHONE:2]", "+15557654321")])
+
+    assert Pseudonyms.lookup(vault, "[PHONE:1]") == ["+15551234567"]
+    assert Pseudonyms.lookup(vault, "[PHONE:2]") == ["+15557654321"]
+    assert vault |> File.read!() |> String.split("\n", trim: true) |> length() == 2
+    assert Bitwise.band(File.stat!(vault).mode, 0o777) == 0o600
+    assert Bitwise.band(File.stat!(Path.dirname(vault)).mode, 0o777) == 0o700
+  end
+
+  test "writes nothing without pseudonym events", %{vault: vault} do
+    assert :ok = Pseudonyms.record(vault, [])
+    refute File.exists?(vault)
+    assert Pseudonyms.lookup(vault, "[PHONE:1]") == []
+  end
+end
@@ -19,6 +19,56 @@ defmodule Guardian.Kernel.TaskSchedulerTest do
       assert String.ends_with?(result, "Z")
     end
 
+    test "cron is evaluated in the given timezone" do
+      result = TaskScheduler.compute_next_run("cron", "0 9 * * *", "Asia/Tokyo")
+      {:ok, dt, _} = DateTime.from_iso8601(result)
+      assert DateTime.shift_zone!(dt, "Asia/Tokyo").hour == 9
+    end
+
+    test "cron returns nil for an unknown timezone" do
+      assert TaskScheduler.compute_next_run("cron", "0 9 * * *", "Mars/Olympus_Mons") == nil
+    end
+
+    test "rrule is evaluated in the given timezone" do
+      rrule = "DTSTART:20260105T083000\nRRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR"
+      result = TaskScheduler.compute_next_run("rrule", rrule, "Europe/Berlin")
+      {:ok, dt, _} = DateTime.from_iso8601(result)
+      local = DateTime.shift_zone!(dt, "Europe/Berlin")
+      assert {local.hour, local.minute} == {8, 30}
+      assert Date.day_of_week(local) in 1..5
+    end
+
+    test "rrule returns nil once the rule has ended" do
+      assert TaskScheduler.compute_next_run("rrule", "DTSTART:20200101T090000\nRRULE:FREQ=DAILY;UNTIL=20200110T090000", "UTC") == nil
+    end
+
+    test "rrule supports BYDAY positions like the last Friday of the month" do
+      rrule = "DTSTART:20261030T170000\nRRULE:FREQ=MONTHLY;BYDAY=-1FR"
+      result = TaskScheduler.compute_next_run("rrule", rrule, "Europe/London")
+      {:ok, dt, _} = DateTime.from_iso8601(result)
+      local = DateTime.shift_zone!(dt, "Europe/London")
+      assert {local.hour, local.minute} == {17, 0}
+      assert Date.day_of_week(local) == 5
+      assert local.day + 7 > Date.days_in_month(local)
+    end
+
+    test "rrule skips EXDATE occurrences" do
+      today = Date.utc_today()
+      excluded = Enum.map_join(0..2, ",", &Calendar.strftime(Date.add(today, &1), "%Y%m%dT080000"))
+      rrule = "DTSTART:20260101T080000\nRRULE:FREQ=DAILY\nEXDATE:#{excluded}"
+
+      {:ok, dt, _} = DateTime.from_iso8601(TaskScheduler.compute_next_run("rrule", rrule, "UTC"))
+      assert DateTime.to_date(dt) == Date.add(today, 3)
+      assert dt.hour == 8
+    end
+
+    test "rrule returns an error for a rule that does not parse" do
+      assert {:error, message} = TaskScheduler.compute_next_run("rrule", "DTSTART:20260101T080000\nRRULE:FREQ=WEEKLY;BYDAY=-1FR", "UTC")
+      assert message =~ "BYDAY"
+
+      assert {:error, _} = TaskScheduler.compute_next_run("rrule", "DTSTART:20260101T080000\nRRULE:FREQ=DAILY\nEXDATE:tomorrow", "UTC")
+    end
+
     test "cron returns nil for invalid expression" do
       assert TaskScheduler.compute_next_run("cron", "invalid cron", "UTC") == nil
     end
@@ -52,6 +102,20 @@ defmodule Guardian.Kernel.TaskSchedulerTest do
     end
   end
 
+  describe "apply_end_conditions/3" do
+    test "completes the task after max_runs runs" do
+      next_run = "2030-01-01T09:00:00Z"
+      assert TaskScheduler.apply_end_conditions(next_run, %{"max_runs" => 3}, 2) == next_run
+      assert TaskScheduler.apply_end_conditions(next_run, %{"max_runs" => 3}, 3) == nil
+    end
+
+    test "completes the task when the next run is past end_at" do
+      task = %{"end_at" => "2030-01-01T08:00:00.000Z"}
+      assert TaskScheduler.apply_end_conditions("2030-01-01T07:59:00Z", task, 0) == "2030-01-01T07:59:00Z"
+      assert TaskScheduler.apply_end_conditions("2030-01-01T09:00:00Z", task, 0) == nil
+    end
+  end
+
   describe "scheduler GenServer" do
     test "starts in disabled mode" do
       name = :"scheduler_#{System.unique_integer([:positive])}"
@@ -132,5 +196,134 @@ defmodule Guardian.Kernel.TaskSchedulerTest do
 
       assert hd(rows) == ["completed"]
     end
+
+    test "pauses and reports a task whose rrule no longer parses instead of completing it" do
+      now = DateTime.utc_now() |> DateTime.add(-60, :second) |> DateTime.to_iso8601()
+
+      Ecto.Adapters.SQL.query!(Repo,
+        """
+        INSERT INTO scheduled_tasks (id, group_folder, chat_jid, prompt, schedule_type, schedule_value, context_mode, next_run, status, created_at)
+        VALUES (?1, 'main', '123@g.us', 'weekly report', 'rrule', ?2, 'isolated', ?3, 'active', ?3)
+        """,
+        ["bad-rule", "DTSTART:20260101T080000\nRRULE:FREQ=WEEKLY;BYDAY=2XX", now]
+      )
+
+      state_name = :"state_rrule_#{System.unique_integer([:positive])}"
+
+      {:ok, _} =
+        Guardian.Kernel.State.start_link(
+          name: state_name,
+          config_mod: Guardian.Kernel.Config,
+          read_file: fn _ -> {:error, :enoent} end,
+          write_file: fn _, _ -> :ok end,
+          mkdir_p: fn _ -> :ok end
+        )
+
+      Guardian.Kernel.State.register_group("123@g.us", %{"name" => "Main", "folder" => "main"}, state_name)
+
+      test_pid = self()
+
+      {:ok, pid} =
+        TaskScheduler.start_link(
+          name: :"scheduler_rrule_#{System.unique_integer([:positive])}",
+          poll_interval: 100_000,
+          enabled: false,
+          state_server: state_name,
+          run_container_fn: fn _group, _input, _opts ->
+            {:ok, %{status: "success", result: "done", new_session_id: nil, error: nil}}
+          end,
+          send_message_fn: fn jid, text ->
+            send(test_pid, {:sent, jid, text})
+            :ok
+          end
+        )
+
+      send(pid, :poll)
+      assert_receive {:sent, "123@g.us", text}, 5000
+      assert text =~ "bad-rule"
+
+      {:ok, %{rows: rows}} =
+        Ecto.Adapters.SQL.query(Repo, "SELECT status, next_run, last_result FROM scheduled_tasks WHERE id = 'bad-rule'")
+
+      assert [["paused", nil, "Error: Invalid RRULE: " <> _]] = rows
+    end
+
+    test "a successful run triggers its on_success dependents with the upstream result" do
+      now = DateTime.utc_now() |> DateTime.add(-60, :second) |> DateTime.to_iso8601()
+
+      insert = """
+      INSERT INTO scheduled_tasks (id, group_folder, chat_jid, prompt, schedule_type, schedule_value, context_mode, next_run, status, created_at, depends_on, include_upstream_result)
+      VALUES (?1, 'main', '123@g.us', ?2, ?3, ?4, 'isolated', ?5, 'active', ?6, ?7, ?8)
+      """
+
+      Ecto.Adapters.SQL.query!(Repo, insert, ["backup", "nightly backup report", "once", now, now, now, nil, nil])
+      Ecto.Adapters.SQL.query!(Repo, insert, ["summary", "summarize it", "trigger", "on_success", nil, now, "backup", 1])
+      Ecto.Adapters.SQL.query!(Repo, insert, ["retry", "retry the report", "trigger", "on_failure", nil, now, "backup", 0])
+
+      state_name = :"state_chain_#{System.unique_integer([:positive])}"
+
+      {:ok, _} =
+        Guardian.Kernel.State.start_link(
+          name: state_name,
+          config_mod: Guardian.Kernel.Config,
+          read_file: fn _ -> {:error, :enoent} end,
+          write_file: fn _, _ -> :ok end,
+          mkdir_p: fn _ -> :ok end
+        )
+
+      Guardian.Kernel.State.register_group("123@g.us", %{"name" => "Main", "folder" => "main"}, state_name)
+
+      test_pid = self()
+
+      mock_run = fn _group, input, _opts ->
+        send(test_pid, {:container_ran, input})
+        {:ok, %{status: "success", result: "backup ok", new_session_id: nil, error: nil}}
+      end
+
+      {:ok, pid} =
+        TaskScheduler.start_link(
+          name: :"scheduler_chain_#{System.unique_integer([:positive])}",
+          poll_interval: 100_000,
+          enabled: false,
+          state_server: state_name,
+          run_container_fn: mock_run
+        )
+
+      send(pid, :poll)
+      assert_receive {:container_ran, %{task_id: "backup"}}, 5000
+
+      send(pid, :poll)
+      assert_receive {:container_ran, %{task_id: "summary", upstream: upstream}}, 5000
+      assert upstream == %{"taskId" => "backup", "status" => "success", "result" => "backup ok"}
+      refute_receive {:container_ran, %{task_id: "retry"}}, 200
+
+      {:ok, %{rows: rows}} =
+        Ecto.Adapters.SQL.query(Repo, "SELECT id, status, next_run FROM scheduled_tasks ORDER BY id")
+
+      assert rows == [["backup", "completed", nil], ["retry", "active", nil], ["summary", "active", nil]]
+    end
+  end
+
+  describe "task history snapshot" do
+    test "keeps the latest 20 runs of each task, newest first" do
+      Ecto.Adapters.SQL.query!(Repo,
+        """
+        INSERT INTO scheduled_tasks (id, group_folder, chat_jid, prompt, schedule_type, schedule_value, context_mode, next_run, status, created_at)
+        VALUES ('report', 'other', '456@g.us', 'p', 'interval', '60000', 'isolated', NULL, 'active', '2026-01-01T00:00:00Z')
+        """
+      )
+
+      for minute <- 10..31 do
+        Ecto.Adapters.SQL.query!(Repo,
+          "INSERT INTO task_run_logs (task_id, run_at, duration_ms, status) VALUES ('report', ?1, 5, 'success')",
+          ["2026-01-01T00:#{minute}:00Z"]
+        )
+      end
+
+      runs = Guardian.Kernel.ContainerRunner.recent_task_runs()
+      assert length(runs) == 20
+      assert %{"task_id" => "report", "group_folder" => "other", "run_at" => "2026-01-01T00:31:00Z"} = hd(runs)
+      assert List.last(runs)["run_at"] == "2026-01-01T00:12:00Z"
+    end
   end
 end
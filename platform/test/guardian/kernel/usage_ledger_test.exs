@@ -0,0 +1,39 @@
+defmodule Guardian.Kernel.UsageLedgerTest do
+  use ExUnit.Case, async: false
+
+  alias Guardian.Kernel.UsageLedger
+  alias Guardian.Repo
+  alias Guardian.Repo.Migrations
+
+  setup do
+    Migrations.run!()
+    Ecto.Adapters.SQL.query!(Repo, "DELETE FROM usage_ledger")
+    :ok
+  end
+
+  defp output(usage), do: %{status: "success", result: "ok", new_session_id: "s1", usage: usage}
+
+  test "daily_spend sums the group's recorded runs" do
+    input = %{chat_jid: "123@g.us", session_id: nil}
+    usage = %{"inputTokens" => 100, "outputTokens" => 20, "costUsd" => 0.25, "numTurns" => 3}
+
+    assert :ok = UsageLedger.record("main", input, output(usage))
+    assert :ok = UsageLedger.record("main", input, output(usage))
+    assert :ok = UsageLedger.record("other", input, output(usage))
+
+    assert {:ok, %{"tokens" => 240, "costUsd" => cost, "turns" => 6}} = UsageLedger.daily_spend("main")
+    assert_in_delta cost, 0.5, 1.0e-9
+  end
+
+  test "daily_spend only counts the last 24 hours" do
+    assert :ok = UsageLedger.record("main", %{}, output(%{"inputTokens" => 10, "costUsd" => 1}))
+
+    tomorrow = DateTime.add(DateTime.utc_now(), 2 * 86_400, :second)
+    assert {:ok, %{"tokens" => 0, "costUsd" => 0, "turns" => 0}} = UsageLedger.daily_spend("main", tomorrow)
+  end
+
+  test "runs without usage are not recorded" do
+    assert :ok = UsageLedger.record("main", %{}, %{status: "error", usage: nil})
+    assert {:ok, %{"tokens" => 0}} = UsageLedger.daily_spend("main")
+  end
+end
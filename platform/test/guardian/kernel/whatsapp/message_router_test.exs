@@ -138,7 +138,7 @@ defmodule Guardian.Kernel.WhatsApp.MessageRouterTest do
         state_server: state_name,
         bridge_server: bridge_name,
         enabled: false,
-        run_agent_fn: fn _, _, _, _, _ -> nil end
+        run_agent_fn: fn _, _, _, _, _, _ -> nil end
       )
 
     assert Process.alive?(pid)
@@ -38,6 +38,8 @@ defmodule Guardian.Repo.MigrationsTest do
     assert "content" in columns
     assert "timestamp" in columns
     assert "is_from_me" in columns
+    assert "attachments" in columns
+    assert "quoted" in columns
   end
 
   test "scheduled_tasks table has expected columns including context_mode migration" do
@@ -54,6 +56,13 @@ defmodule Guardian.Repo.MigrationsTest do
     assert "last_result" in columns
     assert "status" in columns
     assert "created_at" in columns
+    assert "agent_options" in columns
+    assert "timezone" in columns
+    assert "max_runs" in columns
+    assert "end_at" in columns
+    assert "jitter_seconds" in columns
+    assert "depends_on" in columns
+    assert "include_upstream_result" in columns
   end
 
   test "task_run_logs table has expected columns" do